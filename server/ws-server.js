@@ -7,7 +7,11 @@ import { WebSocketServer, WebSocket } from "ws"
 
 /**
  * In-memory room registry
- * rooms[roomId] = { host: ws | null, clients: Set<ws>, lastState: any | null }
+ * rooms[roomId] = { host: ws | null, clients: Set<ws>, lastViews: { [playerId]: state } }
+ *
+ * The host only ever sends projected views (fog of war); each socket is bound
+ * to the player it sits as and receives that player's view alone. Joiners
+ * are seated by the server in the first free human seat of those views.
  */
 const rooms = {}
 
@@ -19,6 +23,7 @@ wss.on("connection", (ws) => {
   ws.id = randomUUID()
   ws.currentRoomId = null
   ws.isHost = false
+  ws.playerId = null
 
   ws.on("message", (raw) => {
     let msg
@@ -42,8 +47,11 @@ wss.on("connection", (ws) => {
       case "action":
         handleAction(ws, msg)
         break
-      case "state":
-        handleStateFromHost(ws, msg)
+      case "views":
+        handleViewsFromHost(ws, msg)
+        break
+      case "rejection":
+        handleRejectionFromHost(ws, msg)
         break
       default:
         console.warn("Unknown message type", type)
@@ -82,61 +90,76 @@ function getOrCreateRoom(roomId) {
     rooms[roomId] = {
       host: null,
       clients: new Set(),
-      lastState: null,
+      lastViews: {},
     }
   }
   return rooms[roomId]
 }
 
 function handleHostInit(ws, msg) {
-  const { roomId, state } = msg
-  if (!roomId || !state) return
+  const { roomId, playerId, views } = msg
+  if (!roomId || !playerId || !views) return
   const room = getOrCreateRoom(roomId)
+  if (room.host && room.host !== ws) {
+    refuse(ws, "Room already has a host.")
+    return
+  }
 
   room.host = ws
-  room.lastState = state
+  room.lastViews = views
   ws.currentRoomId = roomId
   ws.isHost = true
+  ws.playerId = playerId
   room.clients.add(ws)
 
   console.log(`Host initialized room ${roomId}`)
+}
+
+// The first human seat in the host's views that nobody sits in yet
+function findFreeSeat(room) {
+  const taken = new Set(
+    [...room.clients].map((client) => client.playerId).filter(Boolean),
+  )
+  return Object.keys(room.lastViews).find((seat) => !taken.has(seat)) ?? null
+}
 
+// Tell the socket why it was turned away and hang up
+function refuse(ws, message) {
   try {
-    ws.send(
-      JSON.stringify({
-        type: "state",
-        roomId,
-        state,
-      }),
-    )
+    ws.send(JSON.stringify({ type: "error", message }))
   } catch (e) {
-    console.error("Failed to send initial state to host", e)
+    // ignore
   }
+  ws.close()
 }
 
 function handleJoin(ws, msg) {
   const { roomId, playerName } = msg
-  if (!roomId) return
+  if (!roomId || ws.currentRoomId) return
   const room = rooms[roomId]
   if (!room || !room.host) {
-    try {
-      ws.send(
-        JSON.stringify({
-          type: "error",
-          message: "Room not found or host missing.",
-        }),
-      )
-    } catch (e) {
-      // ignore
-    }
-    ws.close()
+    refuse(ws, "Room not found or host missing.")
+    return
+  }
+
+  // Seats are handed out here; whatever seat the client asks for is ignored
+  const playerId = findFreeSeat(room)
+  if (!playerId) {
+    refuse(ws, "Room is full.")
     return
   }
 
   ws.currentRoomId = roomId
   ws.isHost = false
+  ws.playerId = playerId
   room.clients.add(ws)
 
+  try {
+    ws.send(JSON.stringify({ type: "seat", roomId, playerId }))
+  } catch (e) {
+    console.error("Failed to tell joiner their seat", e)
+  }
+
   console.log(`Client joined room ${roomId}`)
 
   try {
@@ -145,6 +168,7 @@ function handleJoin(ws, msg) {
         type: "join",
         roomId,
         playerName: playerName || "Guest",
+        playerId,
         clientId: ws.id,
       }),
     )
@@ -152,13 +176,14 @@ function handleJoin(ws, msg) {
     console.error("Failed to notify host of join", e)
   }
 
-  if (room.lastState) {
+  const view = room.lastViews[playerId]
+  if (view) {
     try {
       ws.send(
         JSON.stringify({
           type: "state",
           roomId,
-          state: room.lastState,
+          state: view,
         }),
       )
     } catch (e) {
@@ -170,6 +195,8 @@ function handleJoin(ws, msg) {
 function handleAction(ws, msg) {
   const { roomId, action } = msg
   if (!roomId || !action) return
+  // Only sockets seated in this room may act
+  if (ws.currentRoomId !== roomId || !ws.playerId) return
   const room = rooms[roomId]
   if (!room || !room.host) return
 
@@ -178,7 +205,10 @@ function handleAction(ws, msg) {
       JSON.stringify({
         type: "action",
         roomId,
-        action,
+        // a client can only act as the player it joined as
+        action: { ...action, playerId: ws.playerId },
+        // lets the host address a rejection back to this client
+        clientId: ws.id,
       }),
     )
   } catch (e) {
@@ -186,27 +216,50 @@ function handleAction(ws, msg) {
   }
 }
 
-function handleStateFromHost(ws, msg) {
-  const { roomId, state } = msg
-  if (!roomId || !state) return
+function handleRejectionFromHost(ws, msg) {
+  const { roomId, clientId, rejection } = msg
+  if (!roomId || !clientId || !rejection) return
   const room = rooms[roomId]
   if (!room || room.host !== ws) return
 
-  room.lastState = state
+  room.clients.forEach((client) => {
+    if (client.id !== clientId || client.readyState !== WebSocket.OPEN) return
+    try {
+      client.send(
+        JSON.stringify({
+          type: "rejection",
+          roomId,
+          rejection,
+        }),
+      )
+    } catch (e) {
+      console.error("Failed to send rejection to client", e)
+    }
+  })
+}
+
+function handleViewsFromHost(ws, msg) {
+  const { roomId, views } = msg
+  if (!roomId || !views) return
+  const room = rooms[roomId]
+  if (!room || room.host !== ws) return
+
+  room.lastViews = views
 
   room.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      try {
-        client.send(
-          JSON.stringify({
-            type: "state",
-            roomId,
-            state,
-          }),
-        )
-      } catch (e) {
-        console.error("Failed to broadcast state", e)
-      }
+    if (client === room.host || client.readyState !== WebSocket.OPEN) return
+    const view = views[client.playerId]
+    if (!view) return
+    try {
+      client.send(
+        JSON.stringify({
+          type: "state",
+          roomId,
+          state: view,
+        }),
+      )
+    } catch (e) {
+      console.error("Failed to send view to client", e)
     }
   })
 }
@@ -0,0 +1,64 @@
+// src/components/BarbariansPanel.tsx
+import React from "react"
+import type { GameState, PlayerId } from "../game/types"
+import { getAnnexCost, isCampInReach } from "../game/barbarians"
+
+export interface BarbariansPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onAnnex: (settlementId: string) => void
+}
+
+export const BarbariansPanel: React.FC<BarbariansPanelProps> = ({
+  game,
+  localPlayerId,
+  onAnnex,
+}) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const running = game.phase === "RUNNING"
+  const camps = game.settlements.filter((s) => s.camp)
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Barbarian Camps</h3>
+      <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+        Camps spring up on unclaimed land and raid whatever lies near them.
+        Raid a camp to plunder its hoard, conquer it, win it over with your
+        faith, or buy off its warriors with Gold if it lies within{" "}
+        {game.rules.settlementBuildRange} tiles of your settlements.
+      </p>
+
+      {camps.length === 0 ? (
+        <p style={{ fontSize: "0.85rem", color: "#aaa" }}>
+          No camps in sight.
+        </p>
+      ) : (
+        camps.map((camp) => {
+          const cost = getAnnexCost(game, camp)
+          const inReach = isCampInReach(game, localPlayerId, camp)
+          return (
+            <div key={camp.id} style={{ fontSize: "0.85rem", marginBottom: "4px" }}>
+              {camp.id} at {camp.tileId}: {camp.defenders} warriors
+              <button
+                style={{ marginLeft: "8px" }}
+                disabled={
+                  !running || !inReach || (player?.resources.Gold ?? 0) < cost
+                }
+                onClick={() => onAnnex(camp.id)}
+              >
+                {inReach ? `Buy off (${cost} Gold)` : "Out of reach"}
+              </button>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+// src/components/BuildingsPanel.tsx
+import React from "react"
+import type { BuildingType, GameState, PlayerId } from "../game/types"
+import {
+  BUILDING_LABELS,
+  describeBuilding,
+  getBuildingSlots,
+  hasNearbyTerrain,
+} from "../game/buildings"
+import { canAfford, formatCost } from "../game/rules"
+
+export interface BuildingsPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onConstruct: (args: { settlementId: string; building: BuildingType }) => void
+  onDemolish: (args: { settlementId: string; buildingId: string }) => void
+}
+
+export const BuildingsPanel: React.FC<BuildingsPanelProps> = ({
+  game,
+  localPlayerId,
+  onConstruct,
+  onDemolish,
+}) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const mySettlements = game.settlements.filter(
+    (s) => s.owner === localPlayerId,
+  )
+
+  if (!player) return null
+
+  const buildingTypes = Object.keys(game.rules.buildings) as BuildingType[]
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Buildings</h3>
+      {mySettlements.length === 0 ? (
+        <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+          You need a settlement before you can build.
+        </p>
+      ) : (
+        mySettlements.map((settlement) => {
+          const buildings = settlement.buildings ?? []
+          const slots = getBuildingSlots(game.rules, settlement)
+          const hasFreeSlot = buildings.length < slots
+
+          return (
+            <div
+              key={settlement.id}
+              style={{
+                marginTop: "8px",
+                paddingTop: "8px",
+                borderTop: "1px solid #444",
+              }}
+            >
+              <div style={{ marginBottom: "4px" }}>
+                <strong>{settlement.id}</strong>{" "}
+                <span style={{ fontSize: "0.8rem", color: "#ccc" }}>
+                  (Slots {buildings.length}/{slots})
+                </span>
+              </div>
+
+              {buildings.map((building) => (
+                <div
+                  key={building.id}
+                  style={{ fontSize: "0.85rem", marginBottom: "2px" }}
+                >
+                  {BUILDING_LABELS[building.type]}
+                  <button
+                    style={{ marginLeft: "8px" }}
+                    onClick={() =>
+                      onDemolish({
+                        settlementId: settlement.id,
+                        buildingId: building.id,
+                      })
+                    }
+                  >
+                    Demolish
+                  </button>
+                </div>
+              ))}
+
+              {hasFreeSlot && (
+                <div style={{ marginTop: "4px" }}>
+                  {buildingTypes
+                    .filter((type) => !buildings.some((b) => b.type === type))
+                    .map((type) => {
+                      const def = game.rules.buildings[type]
+                      const terrainOk =
+                        !def.requiresNearbyTerrain ||
+                        hasNearbyTerrain(game, settlement, def.requiresNearbyTerrain)
+
+                      return (
+                        <button
+                          key={type}
+                          style={{ marginRight: "8px", marginBottom: "4px" }}
+                          disabled={
+                            !terrainOk || !canAfford(player.resources, def.cost)
+                          }
+                          title={describeBuilding(def)}
+                          onClick={() =>
+                            onConstruct({
+                              settlementId: settlement.id,
+                              building: type,
+                            })
+                          }
+                        >
+                          {BUILDING_LABELS[type]} ({formatCost(def.cost)})
+                        </button>
+                      )
+                    })}
+                </div>
+              )}
+            </div>
+          )
+        })
+      )}
+      <p style={{ fontSize: "0.8rem", color: "#aaa", marginTop: "4px" }}>
+        Each settlement level unlocks {game.rules.buildingSlotsPerLevel} slot.
+        Demolishing refunds{" "}
+        {Math.round(game.rules.buildingRefundFactor * 100)}% of the cost.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+// src/components/ChroniclePanel.tsx
+import React from "react"
+import type { GameEvent, GameState, PlayerId } from "../game/types"
+import { describeEvent, eventInvolvesPlayer } from "../game/events"
+
+const CHRONICLE_LENGTH = 15
+const NOTIFICATION_WINDOW_MS = 5000
+
+export interface ChroniclePanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+// Events worth interrupting the local player for
+function isNotable(event: GameEvent, localPlayerId: PlayerId): boolean {
+  switch (event.type) {
+    case "RAID_RESOLVED":
+    case "ARMY_DISPATCHED":
+      return event.defenderId === localPlayerId
+    case "SETTLEMENT_CAPTURED":
+      return event.previousOwner === localPlayerId
+    case "SETTLEMENT_DESTROYED":
+      return event.owner === localPlayerId
+    case "TREATY_ENDED":
+      return (
+        !!event.brokenBy &&
+        event.brokenBy !== localPlayerId &&
+        event.players.includes(localPlayerId)
+      )
+    case "PLAYER_ELIMINATED":
+      return true
+    case "POWER_CAST":
+      return (
+        event.targetOwner === localPlayerId && event.casterId !== localPlayerId
+      )
+    case "STARVATION_STARTED":
+      return event.playerId === localPlayerId
+    case "PHASE_CHANGED":
+      return true
+    default:
+      return false
+  }
+}
+
+export const ChroniclePanel: React.FC<ChroniclePanelProps> = ({
+  game,
+  localPlayerId,
+}) => {
+  const recent = [...(game.events ?? [])].reverse().slice(0, CHRONICLE_LENGTH)
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Chronicle</h3>
+      {recent.length === 0 ? (
+        <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+          Nothing of note has happened yet.
+        </p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {recent.map((event) => (
+            <li
+              key={event.id}
+              style={{
+                fontSize: "0.85rem",
+                marginBottom: "2px",
+                color: eventInvolvesPlayer(event, localPlayerId)
+                  ? "#eee"
+                  : "#999",
+              }}
+            >
+              <span style={{ color: "#777", marginRight: "6px" }}>
+                {formatTime(event.timeMs)}
+              </span>
+              {describeEvent(game, event)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Transient notifications for notable events in the last few seconds of
+ * game time. Derived from the event log, so nothing has to be cleared.
+ */
+export const EventNotifications: React.FC<ChroniclePanelProps> = ({
+  game,
+  localPlayerId,
+}) => {
+  const notable = (game.events ?? []).filter(
+    (event) =>
+      event.timeMs >= game.currentTimeMs - NOTIFICATION_WINDOW_MS &&
+      isNotable(event, localPlayerId),
+  )
+
+  if (notable.length === 0) return null
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: "16px",
+        right: "16px",
+        maxWidth: "320px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "6px",
+        zIndex: 10,
+      }}
+    >
+      {notable.map((event) => (
+        <div
+          key={event.id}
+          style={{
+            padding: "8px 12px",
+            borderRadius: "8px",
+            background: "#1c2433",
+            border: "1px solid #3b82f6",
+            color: "#dde",
+            fontSize: "0.85rem",
+          }}
+        >
+          {describeEvent(game, event)}
+        </div>
+      ))}
+    </div>
+  )
+}
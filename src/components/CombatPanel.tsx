@@ -1,6 +1,8 @@
 // src/components/CombatPanel.tsx
 import React, { useState } from "react"
-import type { GameState, PlayerId } from "../game/types"
+import type { Army, GameState, PlayerId, RaidIntent } from "../game/types"
+import { getArmyTileId } from "../game/armies"
+import { findTileById, hexDistance } from "../game/helpers"
 
 export interface CombatPanelProps {
   game: GameState
@@ -9,13 +11,26 @@ export interface CombatPanelProps {
     fromSettlementId: string
     targetSettlementId: string
     raiderPercent: number
+    intent: RaidIntent
   }) => void
+  onIntercept: (args: {
+    armyId: string
+    fromSettlementId: string
+    interceptorPercent: number
+  }) => void
+}
+
+const RAID_INTENT_LABELS: Record<RaidIntent, string> = {
+  PLUNDER: "Plunder (loot and kill)",
+  CONQUER: "Conquer (take the settlement)",
+  RAZE: "Raze (burn it down)",
 }
 
 export const CombatPanel: React.FC<CombatPanelProps> = ({
   game,
   localPlayerId,
   onRaid,
+  onIntercept,
 }) => {
   const mySettlements = game.settlements.filter(
     (s) => s.owner === localPlayerId,
@@ -31,6 +46,7 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
     enemySettlements.length > 0 ? enemySettlements[0].id : "",
   )
   const [raiderPercent, setRaiderPercent] = useState(50)
+  const [intent, setIntent] = useState<RaidIntent>("PLUNDER")
 
   const canRaid =
     mySettlements.length > 0 &&
@@ -39,12 +55,38 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
     targetId &&
     fromId !== targetId
 
+  const armies = game.armies ?? []
+  const ownerOfTarget = (army: Army) =>
+    game.settlements.find((s) => s.id === army.targetSettlementId)?.owner
+  const incoming = armies.filter(
+    (a) => a.owner !== localPlayerId && ownerOfTarget(a) === localPlayerId,
+  )
+  const outgoing = armies.filter((a) => a.owner === localPlayerId)
+
+  const secondsUntil = (army: Army) =>
+    Math.max(0, Math.ceil((army.arrivesAtMs - game.currentTimeMs) / 1000))
+
+  // First settlement of ours close enough to meet the army
+  const findInterceptor = (army: Army) => {
+    const armyTile = findTileById(game, getArmyTileId(army, game.currentTimeMs))
+    if (!armyTile) return undefined
+    return mySettlements.find((s) => {
+      const sTile = findTileById(game, s.tileId)
+      return (
+        s.defenders > 0 &&
+        !!sTile &&
+        hexDistance(sTile.coord, armyTile.coord) <= game.rules.interceptRange
+      )
+    })
+  }
+
   const handleRaidClick = () => {
     if (!canRaid) return
     onRaid({
       fromSettlementId: fromId,
       targetSettlementId: targetId,
       raiderPercent,
+      intent,
     })
   }
 
@@ -66,7 +108,7 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
         <>
           <div style={{ fontSize: "0.85rem", color: "#ccc", marginBottom: "4px" }}>
             Launch a raid by committing a portion of defenders from one of your
-            settlements.
+            settlements. Raiders march overland and arrive after a while.
           </div>
 
           <div style={{ marginBottom: "4px" }}>
@@ -116,11 +158,80 @@ export const CombatPanel: React.FC<CombatPanelProps> = ({
             </label>
           </div>
 
+          <div style={{ marginBottom: "4px" }}>
+            <label style={{ fontSize: "0.85rem" }}>
+              Intent:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={intent}
+                onChange={(e) => setIntent(e.target.value as RaidIntent)}
+              >
+                {(Object.keys(RAID_INTENT_LABELS) as RaidIntent[]).map((i) => (
+                  <option key={i} value={i}>
+                    {RAID_INTENT_LABELS[i]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {intent !== "PLUNDER" && (
+              <div style={{ fontSize: "0.8rem", color: "#aaa" }}>
+                Needs {game.rules.conquestPowerRatio}× the defenders&apos;
+                strength; a narrower win only plunders.
+              </div>
+            )}
+          </div>
+
           <button onClick={handleRaidClick} disabled={!canRaid}>
             Send Raid
           </button>
         </>
       )}
+
+      {incoming.length > 0 && (
+        <div style={{ marginTop: "8px" }}>
+          <h4 style={{ margin: "4px 0", color: "#f87171" }}>Incoming attacks</h4>
+          {incoming.map((army) => {
+            const interceptor = findInterceptor(army)
+            return (
+              <div key={army.id} style={{ fontSize: "0.85rem", marginBottom: "4px" }}>
+                {army.size} raiders from {army.owner} reach{" "}
+                {army.targetSettlementId} in {secondsUntil(army)}s
+                <button
+                  style={{ marginLeft: "8px" }}
+                  disabled={!interceptor}
+                  title={
+                    interceptor
+                      ? `Send ${raiderPercent}% of ${interceptor.id}'s defenders`
+                      : `No settlement within ${game.rules.interceptRange} tiles`
+                  }
+                  onClick={() =>
+                    interceptor &&
+                    onIntercept({
+                      armyId: army.id,
+                      fromSettlementId: interceptor.id,
+                      interceptorPercent: raiderPercent,
+                    })
+                  }
+                >
+                  Intercept
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {outgoing.length > 0 && (
+        <div style={{ marginTop: "8px" }}>
+          <h4 style={{ margin: "4px 0" }}>Armies on the march</h4>
+          {outgoing.map((army) => (
+            <div key={army.id} style={{ fontSize: "0.85rem", marginBottom: "2px" }}>
+              {army.size} raiders → {army.targetSettlementId},{" "}
+              {secondsUntil(army)}s
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
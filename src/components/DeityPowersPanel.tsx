@@ -1,11 +1,31 @@
 // src/components/DeityPowersPanel.tsx
 import React, { useState } from "react"
-import type { DeityPowerType, GameState, PlayerId } from "../game/types"
+import type {
+  DeityPowerTarget,
+  DeityPowerType,
+  GameState,
+  PlayerId,
+} from "../game/types"
+import { DEITY_POWER_LABELS } from "../game/rules"
+import {
+  describePower,
+  getPowerCooldownRemaining,
+  POWER_TARGET_LABELS,
+} from "../game/powers"
 
 export interface DeityPowersPanelProps {
   game: GameState
   localPlayerId: PlayerId
-  onCastPower: (args: { power: DeityPowerType; settlementId: string }) => void
+  onCastPower: (args: {
+    power: DeityPowerType
+    settlementId?: string
+    tileId?: string
+  }) => void
+}
+
+interface TargetOption {
+  id: string
+  label: string
 }
 
 export const DeityPowersPanel: React.FC<DeityPowersPanelProps> = ({
@@ -14,24 +34,38 @@ export const DeityPowersPanel: React.FC<DeityPowersPanelProps> = ({
   onCastPower,
 }) => {
   const player = game.players.find((p) => p.id === localPlayerId)
-  const mySettlements = game.settlements.filter(
-    (s) => s.owner === localPlayerId,
-  )
 
-  const [selectedSettlementId, setSelectedSettlementId] = useState(
-    mySettlements.length > 0 ? mySettlements[0].id : "",
-  )
+  // Chosen target per power; falls back to the first option
+  const [selectedTargets, setSelectedTargets] = useState<
+    Partial<Record<DeityPowerType, string>>
+  >({})
 
   if (!player) {
     return null
   }
 
-  const canCast = (cost: number) => (player.belief ?? 0) >= cost
+  const ownerName = (playerId: PlayerId) =>
+    game.players.find((p) => p.id === playerId)?.name ?? playerId
 
-  const handleCast = (power: DeityPowerType, cost: number) => {
-    if (!selectedSettlementId) return
-    if (!canCast(cost)) return
-    onCastPower({ power, settlementId: selectedSettlementId })
+  const targetOptions: Record<DeityPowerTarget, TargetOption[]> = {
+    OWN_SETTLEMENT: game.settlements
+      .filter((s) => s.owner === localPlayerId)
+      .map((s) => ({ id: s.id, label: s.id })),
+    ENEMY_SETTLEMENT: game.settlements
+      .filter((s) => s.owner !== localPlayerId)
+      .map((s) => ({ id: s.id, label: `${s.id} (${ownerName(s.owner)})` })),
+    TILE: game.tiles
+      .filter((t) => t.controller === localPlayerId && t.terrain !== "Water")
+      .map((t) => ({ id: t.id, label: `${t.id} (${t.terrain})` })),
+  }
+
+  const handleCast = (power: DeityPowerType, targetId: string) => {
+    if (!targetId) return
+    if (game.rules.powers[power].target === "TILE") {
+      onCastPower({ power, tileId: targetId })
+    } else {
+      onCastPower({ power, settlementId: targetId })
+    }
   }
 
   return (
@@ -45,58 +79,78 @@ export const DeityPowersPanel: React.FC<DeityPowersPanelProps> = ({
     >
       <h3>Deity Powers</h3>
       <div style={{ fontSize: "0.9rem", color: "#ccc" }}>
-        Belief: <strong>{player.belief}</strong>
+        Belief: <strong>{Math.floor(player.belief)}</strong>
       </div>
 
-      {mySettlements.length === 0 ? (
-        <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
-          You need a settlement to target with your powers.
-        </p>
-      ) : (
-        <>
-          <div style={{ marginTop: "4px", marginBottom: "4px" }}>
-            <label style={{ fontSize: "0.85rem" }}>
-              Target settlement:
-              <select
-                style={{ marginLeft: "4px" }}
-                value={selectedSettlementId}
-                onChange={(e) => setSelectedSettlementId(e.target.value)}
-              >
-                {mySettlements.map((s) => (
-                  <option key={s.id} value={s.id}>
-                    {s.id}
-                  </option>
-                ))}
-              </select>
-            </label>
-          </div>
+      {(Object.keys(game.rules.powers) as DeityPowerType[]).map((power) => {
+        const def = game.rules.powers[power]
+        const morale = game.rules.morale.powerEffects[power]
+        const options = targetOptions[def.target]
+        const selected = options.some((o) => o.id === selectedTargets[power])
+          ? selectedTargets[power]!
+          : (options[0]?.id ?? "")
+        const cooldown = getPowerCooldownRemaining(game, player, power)
+        const affordable = (player.belief ?? 0) >= def.cost
 
-          <div style={{ marginTop: "4px" }}>
-            <button
-              style={{ marginRight: "8px", marginBottom: "4px" }}
-              disabled={!canCast(10) || !selectedSettlementId}
-              onClick={() => handleCast("BLESSED_HARVEST", 10)}
-            >
-              Blessed Harvest (10 Belief)
-            </button>
-          </div>
+        return (
+          <div
+            key={power}
+            style={{
+              marginTop: "8px",
+              paddingTop: "4px",
+              borderTop: "1px solid #444",
+              fontSize: "0.85rem",
+            }}
+          >
+            <div>
+              <strong>{DEITY_POWER_LABELS[power]}</strong> ({def.cost} Belief)
+              <span style={{ color: "#aaa", marginLeft: "6px" }}>
+                {describePower(power, def)}
+                {morale !== undefined &&
+                  `, morale ${morale > 0 ? "+" : ""}${morale}`}
+              </span>
+            </div>
 
-          <div>
-            <button
-              style={{ marginRight: "8px", marginBottom: "4px" }}
-              disabled={!canCast(15) || !selectedSettlementId}
-              onClick={() => handleCast("INSPIRED_WORSHIP", 15)}
-            >
-              Inspired Worship (15 Belief)
-            </button>
+            {options.length === 0 ? (
+              <div style={{ color: "#aaa" }}>
+                No valid target: needs {POWER_TARGET_LABELS[def.target]}.
+              </div>
+            ) : (
+              <div style={{ marginTop: "2px" }}>
+                <select
+                  value={selected}
+                  onChange={(e) =>
+                    setSelectedTargets((prev) => ({
+                      ...prev,
+                      [power]: e.target.value,
+                    }))
+                  }
+                >
+                  {options.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  style={{ marginLeft: "8px" }}
+                  disabled={!affordable || cooldown > 0}
+                  onClick={() => handleCast(power, selected)}
+                >
+                  {cooldown > 0
+                    ? `Ready in ${Math.ceil(cooldown / 1000)}s`
+                    : "Cast"}
+                </button>
+              </div>
+            )}
           </div>
+        )
+      })}
 
-          <p style={{ fontSize: "0.8rem", color: "#aaa", marginTop: "4px" }}>
-            Powers are temporary buffs on the chosen settlement that amplify
-            worker or worshipper output.
-          </p>
-        </>
-      )}
+      <p style={{ fontSize: "0.8rem", color: "#aaa", marginTop: "4px" }}>
+        Each power has its own cooldown. Recasting a lasting power on the same
+        settlement refreshes it rather than stacking.
+      </p>
     </div>
   )
 }
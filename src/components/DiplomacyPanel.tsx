@@ -0,0 +1,218 @@
+// src/components/DiplomacyPanel.tsx
+import React, { useState } from "react"
+import type {
+  GameState,
+  PlayerId,
+  TradeResource,
+  TreatyType,
+} from "../game/types"
+import {
+  describeOffer,
+  getRelation,
+  RELATION_LABELS,
+  TRADE_RESOURCES,
+} from "../game/diplomacy"
+
+export interface DiplomacyPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onProposeTreaty: (args: { to: PlayerId; treaty: TreatyType }) => void
+  onOfferTrade: (args: {
+    to: PlayerId
+    give: Partial<Record<TradeResource, number>>
+    receive: Partial<Record<TradeResource, number>>
+  }) => void
+  onRespond: (args: { offerId: string; accept: boolean }) => void
+  onBreakTreaty: (args: { with: PlayerId }) => void
+}
+
+export const DiplomacyPanel: React.FC<DiplomacyPanelProps> = ({
+  game,
+  localPlayerId,
+  onProposeTreaty,
+  onOfferTrade,
+  onRespond,
+  onBreakTreaty,
+}) => {
+  const rivals = game.players.filter(
+    (p) => p.id !== localPlayerId && !p.eliminated && !p.barbarian,
+  )
+
+  const [tradeTo, setTradeTo] = useState<PlayerId>("")
+  const [giveRes, setGiveRes] = useState<TradeResource>("Food")
+  const [giveAmount, setGiveAmount] = useState(20)
+  const [receiveRes, setReceiveRes] = useState<TradeResource>("Wood")
+  const [receiveAmount, setReceiveAmount] = useState(20)
+
+  const name = (playerId: PlayerId) =>
+    game.players.find((p) => p.id === playerId)?.name ?? playerId
+
+  const offers = game.offers ?? []
+  const incoming = offers.filter((o) => o.to === localPlayerId)
+  const outgoing = offers.filter((o) => o.from === localPlayerId)
+
+  const tradePartner = rivals.some((p) => p.id === tradeTo)
+    ? tradeTo
+    : (rivals[0]?.id ?? "")
+
+  const secondsLeft = (ms: number) =>
+    Math.max(0, Math.ceil((ms - game.currentTimeMs) / 1000))
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Diplomacy</h3>
+
+      {rivals.length === 0 ? (
+        <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+          There is nobody left to negotiate with.
+        </p>
+      ) : (
+        rivals.map((rival) => {
+          const relation = getRelation(game, localPlayerId, rival.id)
+          const truce = (game.relations ?? []).find(
+            (r) => r.players.includes(rival.id) && r.players.includes(localPlayerId),
+          )
+
+          return (
+            <div key={rival.id} style={{ fontSize: "0.85rem", marginBottom: "4px" }}>
+              <strong>{rival.name}</strong>: {RELATION_LABELS[relation]}
+              {truce?.expiresAtMs !== undefined && (
+                <> ({secondsLeft(truce.expiresAtMs)}s left)</>
+              )}
+              {relation === "WAR" && (
+                <button
+                  style={{ marginLeft: "8px" }}
+                  onClick={() => onProposeTreaty({ to: rival.id, treaty: "TRUCE" })}
+                >
+                  Propose truce
+                </button>
+              )}
+              {relation !== "ALLIANCE" && (
+                <button
+                  style={{ marginLeft: "8px" }}
+                  onClick={() =>
+                    onProposeTreaty({ to: rival.id, treaty: "ALLIANCE" })
+                  }
+                >
+                  Propose alliance
+                </button>
+              )}
+              {relation !== "WAR" && (
+                <button
+                  style={{ marginLeft: "8px" }}
+                  onClick={() => onBreakTreaty({ with: rival.id })}
+                >
+                  Break treaty
+                </button>
+              )}
+            </div>
+          )
+        })
+      )}
+
+      {rivals.length > 0 && (
+        <div style={{ marginTop: "8px", fontSize: "0.85rem" }}>
+          <h4 style={{ margin: "4px 0" }}>Offer a trade</h4>
+          <select value={tradePartner} onChange={(e) => setTradeTo(e.target.value)}>
+            {rivals.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>{" "}
+          give{" "}
+          <input
+            type="number"
+            min={0}
+            style={{ width: "4em" }}
+            value={giveAmount}
+            onChange={(e) => setGiveAmount(Number(e.target.value))}
+          />
+          <select
+            value={giveRes}
+            onChange={(e) => setGiveRes(e.target.value as TradeResource)}
+          >
+            {TRADE_RESOURCES.map((res) => (
+              <option key={res} value={res}>
+                {res}
+              </option>
+            ))}
+          </select>{" "}
+          for{" "}
+          <input
+            type="number"
+            min={0}
+            style={{ width: "4em" }}
+            value={receiveAmount}
+            onChange={(e) => setReceiveAmount(Number(e.target.value))}
+          />
+          <select
+            value={receiveRes}
+            onChange={(e) => setReceiveRes(e.target.value as TradeResource)}
+          >
+            {TRADE_RESOURCES.map((res) => (
+              <option key={res} value={res}>
+                {res}
+              </option>
+            ))}
+          </select>
+          <button
+            style={{ marginLeft: "8px" }}
+            disabled={!tradePartner}
+            onClick={() =>
+              onOfferTrade({
+                to: tradePartner,
+                give: { [giveRes]: giveAmount },
+                receive: { [receiveRes]: receiveAmount },
+              })
+            }
+          >
+            Offer
+          </button>
+        </div>
+      )}
+
+      <div style={{ marginTop: "8px", fontSize: "0.85rem" }}>
+        <h4 style={{ margin: "4px 0" }}>Pending offers</h4>
+        {incoming.length === 0 && outgoing.length === 0 && (
+          <p style={{ color: "#aaa", margin: 0 }}>No offers on the table.</p>
+        )}
+        {incoming.map((offer) => (
+          <div key={offer.id} style={{ marginBottom: "4px" }}>
+            {describeOffer(offer, name)} ({secondsLeft(offer.expiresAtMs)}s)
+            <button
+              style={{ marginLeft: "8px" }}
+              onClick={() => onRespond({ offerId: offer.id, accept: true })}
+            >
+              Accept
+            </button>
+            <button
+              style={{ marginLeft: "4px" }}
+              onClick={() => onRespond({ offerId: offer.id, accept: false })}
+            >
+              Decline
+            </button>
+          </div>
+        ))}
+        {outgoing.map((offer) => (
+          <div key={offer.id} style={{ marginBottom: "4px", color: "#bbb" }}>
+            {describeOffer(offer, name)} ({secondsLeft(offer.expiresAtMs)}s)
+            <button
+              style={{ marginLeft: "8px" }}
+              onClick={() => onRespond({ offerId: offer.id, accept: false })}
+            >
+              Withdraw
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -3,15 +3,98 @@ import { HexBoard } from "./HexBoard"
 import { useWsGame } from "../state/useWsGame"
 import type {
   DeityPowerType,
+  BuildRoadPayload,
+  ImproveTilePayload,
   BuildSettlementPayload,
   PlaceStartingSettlementPayload,
   UseDeityPowerPayload,
   UpgradeSettlementPayload,
   FactionPolicy,
   SetPolicyPayload,
+  AllocateRolesPayload,
+  SetRoleModePayload,
+  SettlementRoleMode,
+  MapShape,
+  RulesPreset,
+  BuildingType,
+  ConstructBuildingPayload,
+  DemolishBuildingPayload,
+  RaidSettlementPayload,
+  RaidIntent,
+  InterceptArmyPayload,
+  PlayerId,
+  TreatyType,
+  TradeResource,
+  ProposeTreatyPayload,
+  OfferTradePayload,
+  RespondToOfferPayload,
+  BreakTreatyPayload,
+  ResolveEventPayload,
+  WorldEventChoice,
+  WorldEventFrequency,
+  BarbarianStrength,
+  AnnexCampPayload,
+  MarketGood,
+  MarketSide,
+  MarketOrderPayload,
+  HireMercenariesPayload,
+  ResourceCost,
+  WonderType,
+  StartWonderPayload,
+  ContributeToWonderPayload,
+  HeroKind,
+  HeroAbility,
+  RecruitHeroPayload,
+  MoveHeroPayload,
+  UseHeroAbilityPayload,
 } from "../game/types"
 import { DeityPowersPanel } from "./DeityPowersPanel"
 import { FactionPolicyPanel } from "./FactionPolicyPanel"
+import { SettlementRolesPanel } from "./SettlementRolesPanel"
+import { ChroniclePanel, EventNotifications } from "./ChroniclePanel"
+import { BuildingsPanel } from "./BuildingsPanel"
+import { CombatPanel } from "./CombatPanel"
+import { DiplomacyPanel } from "./DiplomacyPanel"
+import { WorldEventsPanel } from "./WorldEventsPanel"
+import { MarketPanel } from "./MarketPanel"
+import { WondersPanel } from "./WondersPanel"
+import { HeroesPanel } from "./HeroesPanel"
+import { BarbariansPanel } from "./BarbariansPanel"
+import { StoragePanel } from "./StoragePanel"
+import {
+  describeVictory,
+  describeVictoryGoal,
+  VICTORY_LABELS,
+} from "../game/victory"
+import { MAP_SIZE_RADIUS } from "../game/mapGen"
+import type { MapSize } from "../game/mapGen"
+import { canAfford, formatCost } from "../game/rules"
+import { getRushCost } from "../game/market"
+import {
+  describeMorale,
+  getMoraleFactors,
+  getMoraleTarget,
+} from "../game/morale"
+import { getDominantRivalFaith, getFaithShares } from "../game/faith"
+import { assignHarvestTiles, computeSettlementHarvest } from "../game/harvest"
+import {
+  describeSeason,
+  describeWeather,
+  getNextSeason,
+  getSeason,
+  msUntilNextSeason,
+  SEASON_LABELS,
+  WEATHER_LABELS,
+} from "../game/seasons"
+import { getSupplyStatus, getTradeGoldPerSecond } from "../game/roads"
+import {
+  getImprovementForTerrain,
+  TILE_IMPROVEMENT_LABELS,
+  TILE_IMPROVEMENT_TYPES,
+} from "../game/improvements"
+
+// What clicking a tile does once the match is running
+type TileClickMode = "SETTLEMENT" | "ROAD" | "IMPROVE"
 
 export const GameRoot: React.FC = () => {
   const {
@@ -21,6 +104,7 @@ export const GameRoot: React.FC = () => {
     isHost,
     loading,
     error,
+    rejection,
     hostNewGame,
     joinGame,
     dispatchActionForLocalPlayer,
@@ -28,8 +112,18 @@ export const GameRoot: React.FC = () => {
   } = useWsGame()
 
   const [hostName, setHostName] = useState("")
+  const [mapSize, setMapSize] = useState<MapSize>("small")
+  const [mapShape, setMapShape] = useState<MapShape>("hexagon")
+  const [rulesPreset, setRulesPreset] = useState<RulesPreset>("standard")
+  const [worldEvents, setWorldEvents] = useState<WorldEventFrequency>("normal")
+  const [wonderVictory, setWonderVictory] = useState(false)
+  const [barbarians, setBarbarians] = useState<WorldEventFrequency>("normal")
+  const [barbarianStrength, setBarbarianStrength] =
+    useState<BarbarianStrength>("normal")
   const [joinName, setJoinName] = useState("")
   const [joinCodeInput, setJoinCodeInput] = useState("")
+  const [tileClickMode, setTileClickMode] = useState<TileClickMode>("SETTLEMENT")
+  const [selectedHeroId, setSelectedHeroId] = useState<string | undefined>()
 
   const handleTileClick = useCallback(
     (tileId: string) => {
@@ -38,13 +132,9 @@ export const GameRoot: React.FC = () => {
       const tile = game.tiles.find((t) => t.id === tileId)
       if (!tile) return
 
-      if (tile.terrain === "Water") return
-
-      const hasSettlement = !!tile.settlementId
-
+      // Invalid clicks (water, occupied, out of range) are still sent so the
+      // host can explain why they were refused.
       if (game.phase === "LOBBY") {
-        if (hasSettlement) return
-
         const payload: PlaceStartingSettlementPayload = { tileId: tile.id }
         dispatchActionForLocalPlayer({
           type: "PLACE_STARTING_SETTLEMENT",
@@ -54,9 +144,41 @@ export const GameRoot: React.FC = () => {
         return
       }
 
-      if (game.phase === "RUNNING") {
-        if (hasSettlement) return
+      // A selected hero sets off for the clicked tile
+      if (game.phase === "RUNNING" && selectedHeroId) {
+        const payload: MoveHeroPayload = { heroId: selectedHeroId, tileId: tile.id }
+        dispatchActionForLocalPlayer({
+          type: "MOVE_HERO",
+          payload,
+          clientTimeMs: performance.now(),
+        })
+        setSelectedHeroId(undefined)
+        return
+      }
+
+      if (game.phase === "RUNNING" && tileClickMode === "ROAD") {
+        const payload: BuildRoadPayload = { tileId: tile.id }
+        dispatchActionForLocalPlayer({
+          type: "BUILD_ROAD",
+          payload,
+          clientTimeMs: performance.now(),
+        })
+        return
+      }
+
+      if (game.phase === "RUNNING" && tileClickMode === "IMPROVE") {
+        const improvement = getImprovementForTerrain(game.rules, tile)
+        if (!improvement) return
+        const payload: ImproveTilePayload = { tileId: tile.id, improvement }
+        dispatchActionForLocalPlayer({
+          type: "IMPROVE_TILE",
+          payload,
+          clientTimeMs: performance.now(),
+        })
+        return
+      }
 
+      if (game.phase === "RUNNING") {
         const payload: BuildSettlementPayload = { tileId: tile.id }
         dispatchActionForLocalPlayer({
           type: "BUILD_SETTLEMENT",
@@ -66,16 +188,23 @@ export const GameRoot: React.FC = () => {
         return
       }
     },
-    [game, localPlayerId, dispatchActionForLocalPlayer],
+    [
+      game,
+      localPlayerId,
+      tileClickMode,
+      selectedHeroId,
+      dispatchActionForLocalPlayer,
+    ],
   )
 
   const handleCastPower = useCallback(
-    (args: { power: DeityPowerType; settlementId: string }) => {
+    (args: { power: DeityPowerType; settlementId?: string; tileId?: string }) => {
       if (!game || !localPlayerId) return
 
       const payload: UseDeityPowerPayload = {
         power: args.power,
         settlementId: args.settlementId,
+        tileId: args.tileId,
       }
 
       dispatchActionForLocalPlayer({
@@ -107,10 +236,272 @@ export const GameRoot: React.FC = () => {
     [game, localPlayerId, dispatchActionForLocalPlayer],
   )
 
-  const handleUpgradeSettlement = useCallback(
+  const handleAllocateRoles = useCallback(
+    (args: {
+      settlementId: string
+      workersPercent: number
+      worshippersPercent: number
+      defendersPercent: number
+    }) => {
+      if (!game || !localPlayerId) return
+      const payload: AllocateRolesPayload = { ...args }
+
+      dispatchActionForLocalPlayer({
+        type: "ALLOCATE_ROLES",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleSetRoleMode = useCallback(
+    (args: { settlementId: string; mode: SettlementRoleMode }) => {
+      if (!game || !localPlayerId) return
+      const payload: SetRoleModePayload = {
+        settlementId: args.settlementId,
+        mode: args.mode,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "SET_ROLE_MODE",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleRaid = useCallback(
+    (args: {
+      fromSettlementId: string
+      targetSettlementId: string
+      raiderPercent: number
+      intent: RaidIntent
+    }) => {
+      if (!game || !localPlayerId) return
+      const payload: RaidSettlementPayload = {
+        fromSettlementId: args.fromSettlementId,
+        targetSettlementId: args.targetSettlementId,
+        raiderPercent: args.raiderPercent,
+        intent: args.intent,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "RAID_SETTLEMENT",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleIntercept = useCallback(
+    (args: {
+      armyId: string
+      fromSettlementId: string
+      interceptorPercent: number
+    }) => {
+      if (!game || !localPlayerId) return
+      const payload: InterceptArmyPayload = {
+        armyId: args.armyId,
+        fromSettlementId: args.fromSettlementId,
+        interceptorPercent: args.interceptorPercent,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "INTERCEPT_ARMY",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleAnnexCamp = useCallback(
     (settlementId: string) => {
       if (!game || !localPlayerId) return
-      const payload: UpgradeSettlementPayload = { settlementId }
+      const payload: AnnexCampPayload = { settlementId }
+
+      dispatchActionForLocalPlayer({
+        type: "ANNEX_CAMP",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleProposeTreaty = useCallback(
+    (args: { to: PlayerId; treaty: TreatyType }) => {
+      if (!game || !localPlayerId) return
+      const payload: ProposeTreatyPayload = {
+        to: args.to,
+        treaty: args.treaty,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "PROPOSE_TREATY",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleOfferTrade = useCallback(
+    (args: {
+      to: PlayerId
+      give: Partial<Record<TradeResource, number>>
+      receive: Partial<Record<TradeResource, number>>
+    }) => {
+      if (!game || !localPlayerId) return
+      const payload: OfferTradePayload = {
+        to: args.to,
+        give: args.give,
+        receive: args.receive,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "OFFER_TRADE",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleRespondToOffer = useCallback(
+    (args: { offerId: string; accept: boolean }) => {
+      if (!game || !localPlayerId) return
+      const payload: RespondToOfferPayload = {
+        offerId: args.offerId,
+        accept: args.accept,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "RESPOND_TO_OFFER",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleBreakTreaty = useCallback(
+    (args: { with: PlayerId }) => {
+      if (!game || !localPlayerId) return
+      const payload: BreakTreatyPayload = { with: args.with }
+
+      dispatchActionForLocalPlayer({
+        type: "BREAK_TREATY",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleResolveEvent = useCallback(
+    (args: { eventId: string; choice: WorldEventChoice }) => {
+      if (!game || !localPlayerId) return
+      const payload: ResolveEventPayload = {
+        eventId: args.eventId,
+        choice: args.choice,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "RESOLVE_EVENT",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleHeroClick = useCallback(
+    (heroId: string) => {
+      if (!game || !localPlayerId) return
+      const hero = (game.heroes ?? []).find((h) => h.id === heroId)
+      if (hero?.owner !== localPlayerId) return
+      setSelectedHeroId((current) => (current === heroId ? undefined : heroId))
+    },
+    [game, localPlayerId],
+  )
+
+  const handleRecruitHero = useCallback(
+    (args: { settlementId: string; kind: HeroKind }) => {
+      if (!game || !localPlayerId) return
+      const payload: RecruitHeroPayload = {
+        settlementId: args.settlementId,
+        kind: args.kind,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "RECRUIT_HERO",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleUseHeroAbility = useCallback(
+    (args: { heroId: string; ability: HeroAbility; settlementId?: string }) => {
+      if (!game || !localPlayerId) return
+      const payload: UseHeroAbilityPayload = {
+        heroId: args.heroId,
+        ability: args.ability,
+        settlementId: args.settlementId,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "USE_HERO_ABILITY",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleStartWonder = useCallback(
+    (args: { settlementId: string; wonder: WonderType }) => {
+      if (!game || !localPlayerId) return
+      const payload: StartWonderPayload = {
+        settlementId: args.settlementId,
+        wonder: args.wonder,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "START_WONDER",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleContributeToWonder = useCallback(
+    (args: { wonderId: string; resources: ResourceCost }) => {
+      if (!game || !localPlayerId) return
+      const payload: ContributeToWonderPayload = {
+        wonderId: args.wonderId,
+        resources: args.resources,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "CONTRIBUTE_TO_WONDER",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleUpgradeSettlement = useCallback(
+    (settlementId: string, rush = false) => {
+      if (!game || !localPlayerId) return
+      const payload: UpgradeSettlementPayload = { settlementId, rush }
 
       dispatchActionForLocalPlayer({
         type: "UPGRADE_SETTLEMENT",
@@ -121,6 +512,74 @@ export const GameRoot: React.FC = () => {
     [game, localPlayerId, dispatchActionForLocalPlayer],
   )
 
+  const handleMarketTrade = useCallback(
+    (args: { side: MarketSide; resource: MarketGood; amount: number }) => {
+      if (!game || !localPlayerId) return
+      const payload: MarketOrderPayload = {
+        resource: args.resource,
+        amount: args.amount,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: args.side === "BUY" ? "BUY_RESOURCE" : "SELL_RESOURCE",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleHireMercenaries = useCallback(
+    (args: { settlementId: string; count: number }) => {
+      if (!game || !localPlayerId) return
+      const payload: HireMercenariesPayload = {
+        settlementId: args.settlementId,
+        count: args.count,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "HIRE_MERCENARIES",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleConstructBuilding = useCallback(
+    (args: { settlementId: string; building: BuildingType }) => {
+      if (!game || !localPlayerId) return
+      const payload: ConstructBuildingPayload = {
+        settlementId: args.settlementId,
+        building: args.building,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "CONSTRUCT_BUILDING",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
+  const handleDemolishBuilding = useCallback(
+    (args: { settlementId: string; buildingId: string }) => {
+      if (!game || !localPlayerId) return
+      const payload: DemolishBuildingPayload = {
+        settlementId: args.settlementId,
+        buildingId: args.buildingId,
+      }
+
+      dispatchActionForLocalPlayer({
+        type: "DEMOLISH_BUILDING",
+        payload,
+        clientTimeMs: performance.now(),
+      })
+    },
+    [game, localPlayerId, dispatchActionForLocalPlayer],
+  )
+
   if (!roomId || !game || !localPlayerId) {
     return (
       <div
@@ -172,8 +631,109 @@ export const GameRoot: React.FC = () => {
                 disabled={loading}
               />
             </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              Map size:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={mapSize}
+                onChange={(e) => setMapSize(e.target.value as MapSize)}
+                disabled={loading}
+              >
+                <option value="small">Small</option>
+                <option value="medium">Medium</option>
+                <option value="large">Large</option>
+              </select>
+            </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              Map shape:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={mapShape}
+                onChange={(e) => setMapShape(e.target.value as MapShape)}
+                disabled={loading}
+              >
+                <option value="hexagon">Hexagon</option>
+                <option value="rectangle">Rectangle</option>
+                <option value="island">Island</option>
+              </select>
+            </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              Rules:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={rulesPreset}
+                onChange={(e) => setRulesPreset(e.target.value as RulesPreset)}
+                disabled={loading}
+              >
+                <option value="standard">Standard</option>
+                <option value="fast">Fast</option>
+                <option value="hardcore">Hardcore</option>
+              </select>
+            </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              World events:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={worldEvents}
+                onChange={(e) =>
+                  setWorldEvents(e.target.value as WorldEventFrequency)
+                }
+                disabled={loading}
+              >
+                <option value="off">Off</option>
+                <option value="rare">Rare</option>
+                <option value="normal">Normal</option>
+                <option value="frequent">Frequent</option>
+              </select>
+            </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              Barbarian camps:
+              <select
+                style={{ marginLeft: "4px" }}
+                value={barbarians}
+                onChange={(e) =>
+                  setBarbarians(e.target.value as WorldEventFrequency)
+                }
+                disabled={loading}
+              >
+                <option value="off">Off</option>
+                <option value="rare">Rare</option>
+                <option value="normal">Normal</option>
+                <option value="frequent">Frequent</option>
+              </select>
+              <select
+                style={{ marginLeft: "4px" }}
+                value={barbarianStrength}
+                onChange={(e) =>
+                  setBarbarianStrength(e.target.value as BarbarianStrength)
+                }
+                disabled={loading || barbarians === "off"}
+              >
+                <option value="weak">Weak</option>
+                <option value="normal">Normal</option>
+                <option value="strong">Strong</option>
+              </select>
+            </label>
+            <label style={{ display: "block", marginBottom: "8px" }}>
+              <input
+                type="checkbox"
+                checked={wonderVictory}
+                onChange={(e) => setWonderVictory(e.target.checked)}
+                disabled={loading}
+              />{" "}
+              Completing a wonder wins the match
+            </label>
             <button
-              onClick={() => hostNewGame(hostName || "Host")}
+              onClick={() =>
+                hostNewGame(hostName || "Host", {
+                  map: { radius: MAP_SIZE_RADIUS[mapSize], shape: mapShape },
+                  rules: rulesPreset,
+                  worldEvents,
+                  wonderVictory,
+                  barbarians,
+                  barbarianStrength,
+                })
+              }
               disabled={loading || !hostName}
             >
               {loading ? "Hosting..." : "Host New Game"}
@@ -234,6 +794,13 @@ export const GameRoot: React.FC = () => {
   }
 
   const currentPlayer = game.players.find((p) => p.id === localPlayerId)
+  const winner = game.players.find((p) => p.id === game.winnerId)
+  const harvestTiles = assignHarvestTiles(game)
+  const supply = getSupplyStatus(game)
+  const playerName = (id: PlayerId) =>
+    game.players.find((p) => p.id === id)?.name ?? id
+  const season = getSeason(game.rules, game.currentTimeMs)
+  const nextSeason = getNextSeason(season)
 
   return (
     <div
@@ -258,8 +825,36 @@ export const GameRoot: React.FC = () => {
         {isHost && " – Host"}
       </p>
       <p>
-        Phase: <strong>{game.phase}</strong>
+        Phase: <strong>{game.phase}</strong> · Rules:{" "}
+        <strong>{game.rules.preset}</strong>
       </p>
+      {game.phase === "RUNNING" && (
+        <p>
+          Season: <strong>{SEASON_LABELS[season]}</strong>
+          {describeSeason(game.rules.seasons[season]) && (
+            <> ({describeSeason(game.rules.seasons[season])})</>
+          )}{" "}
+          · {SEASON_LABELS[nextSeason]} in{" "}
+          {Math.ceil(msUntilNextSeason(game.rules, game.currentTimeMs) / 1000)}s
+          {describeSeason(game.rules.seasons[nextSeason]) && (
+            <> ({describeSeason(game.rules.seasons[nextSeason])})</>
+          )}
+          {(game.weather ?? []).length > 0 && (
+            <span style={{ display: "block", fontSize: "0.85rem", color: "#bbb" }}>
+              Weather:{" "}
+              {game.weather
+                .map(
+                  (w) =>
+                    `${WEATHER_LABELS[w.type]} around ${w.tileId} (${describeWeather(
+                      w.type,
+                      game.rules,
+                    )}, ${Math.ceil((w.expiresAtMs - game.currentTimeMs) / 1000)}s)`,
+                )
+                .join(" · ")}
+            </span>
+          )}
+        </p>
+      )}
 
       {error && (
         <p style={{ color: "tomato" }}>
@@ -267,12 +862,39 @@ export const GameRoot: React.FC = () => {
         </p>
       )}
 
+      {rejection && (
+        <div
+          role="alert"
+          style={{
+            position: "fixed",
+            top: "16px",
+            right: "16px",
+            maxWidth: "320px",
+            padding: "8px 12px",
+            borderRadius: "8px",
+            background: "#3a1212",
+            border: "1px solid tomato",
+            color: "#fdd",
+            fontSize: "0.9rem",
+            zIndex: 10,
+          }}
+        >
+          <strong>Action refused:</strong> {rejection.message}
+        </div>
+      )}
+
       <div style={{ marginBottom: "12px" }}>
         {game.phase === "LOBBY" ? (
           <p>
             <strong>Lobby:</strong> Each player clicks a non-water tile once to
-            place their starting settlement. When both have placed, the game
-            moves to <code>RUNNING</code>.
+            place their starting settlement. Dashed rings mark balanced
+            starting spots. When both have placed, the game moves to{" "}
+            <code>RUNNING</code>.
+          </p>
+        ) : game.phase === "RUNNING" && currentPlayer?.eliminated ? (
+          <p style={{ color: "tomato" }}>
+            <strong>Eliminated:</strong> you have lost your last settlement.
+            You can keep watching until the age ends.
           </p>
         ) : game.phase === "RUNNING" ? (
           <p>
@@ -281,8 +903,29 @@ export const GameRoot: React.FC = () => {
             time as the host simulates the world.
           </p>
         ) : (
-          <p>
-            <strong>Game Over</strong>
+          <div>
+            <p>
+              <strong>Game Over</strong>
+              {game.victoryType && <> – {VICTORY_LABELS[game.victoryType]}</>}
+            </p>
+            <p>
+              {winner?.id === localPlayerId ? (
+                <strong style={{ color: "#7fdc7f" }}>You are victorious!</strong>
+              ) : (
+                <strong style={{ color: "tomato" }}>
+                  {winner?.name ?? game.winnerId ?? "Nobody"} has won.
+                </strong>
+              )}{" "}
+              {describeVictory(game)}
+            </p>
+          </div>
+        )}
+        {game.phase !== "GAME_OVER" && (
+          <p style={{ fontSize: "0.85rem", color: "#bbb" }}>
+            Victory:{" "}
+            {game.victoryConditions.enabled
+              .map((type) => describeVictoryGoal(game.victoryConditions, type))
+              .join(" · ")}
           </p>
         )}
       </div>
@@ -290,20 +933,104 @@ export const GameRoot: React.FC = () => {
       <HexBoard
         tiles={game.tiles}
         settlements={game.settlements}
+        highlightTileIds={
+          game.phase === "LOBBY" ? game.startingTileIds : undefined
+        }
+        armies={game.armies}
+        currentTimeMs={game.currentTimeMs}
+        heroes={game.heroes}
+        selectedHeroId={selectedHeroId}
         onTileClick={handleTileClick}
+        onHeroClick={handleHeroClick}
       />
 
       <p style={{ fontSize: "0.85rem", color: "#bbb" }}>
-        Build new settlement: 100 Food, 100 Wood, 50 Stone (click an empty
-        non-water tile during RUNNING).
+        Clicking a tile:{" "}
+        <select
+          value={tileClickMode}
+          onChange={(e) => setTileClickMode(e.target.value as TileClickMode)}
+        >
+          <option value="SETTLEMENT">builds a settlement</option>
+          <option value="ROAD">builds a road</option>
+          <option value="IMPROVE">improves the tile</option>
+        </select>{" "}
+        {tileClickMode === "SETTLEMENT" &&
+          `Build new settlement: ${formatCost(game.rules.settlementCost)} (click an empty non-water tile within ${game.rules.settlementBuildRange} tiles of one of yours during RUNNING).`}
+        {tileClickMode === "ROAD" &&
+          `Build road: ${formatCost(game.rules.roads.cost)} (click a tile you control next to one of your settlements or roads). Settlements linked to your capital share its Food store and trade for Gold; armies march faster on roads.`}
+        {tileClickMode === "IMPROVE" &&
+          `Improve a tile you control: ${TILE_IMPROVEMENT_TYPES.map((type) => {
+            const def = game.rules.improvements.definitions[type]
+            return `${TILE_IMPROVEMENT_LABELS[type]} on ${def.terrain} (${formatCost(def.cost)}, ${def.buildMs / 1000}s)`
+          }).join(", ")}. Successful raids wreck the improvements nearest the plundered settlement.`}
       </p>
 
+      <StoragePanel game={game} localPlayerId={localPlayerId} />
+
       <FactionPolicyPanel
         game={game}
         localPlayerId={localPlayerId}
         onUpdatePolicy={handleUpdatePolicy}
       />
 
+      <SettlementRolesPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onUpdateRoles={handleAllocateRoles}
+        onSetMode={handleSetRoleMode}
+      />
+
+      <WorldEventsPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onResolve={handleResolveEvent}
+      />
+
+      <HeroesPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        selectedHeroId={selectedHeroId}
+        onSelect={setSelectedHeroId}
+        onRecruit={handleRecruitHero}
+        onUseAbility={handleUseHeroAbility}
+      />
+
+      <WondersPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onStart={handleStartWonder}
+        onContribute={handleContributeToWonder}
+      />
+
+      <MarketPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onTrade={handleMarketTrade}
+        onHireMercenaries={handleHireMercenaries}
+      />
+
+      <BarbariansPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onAnnex={handleAnnexCamp}
+      />
+
+      <CombatPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onRaid={handleRaid}
+        onIntercept={handleIntercept}
+      />
+
+      <DiplomacyPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onProposeTreaty={handleProposeTreaty}
+        onOfferTrade={handleOfferTrade}
+        onRespond={handleRespondToOffer}
+        onBreakTreaty={handleBreakTreaty}
+      />
+
       <DeityPowersPanel
         game={game}
         localPlayerId={localPlayerId}
@@ -314,22 +1041,126 @@ export const GameRoot: React.FC = () => {
       <div style={{ marginBottom: "16px" }}>
         {game.settlements
           .filter((s) => s.owner === localPlayerId)
-          .map((s) => (
-            <div key={s.id} style={{ marginBottom: "4px", fontSize: "0.9rem" }}>
-              <span>
-                {s.id} – Level {s.level}, Pop {s.population}/{s.populationCap}
-              </span>
-              <button
-                style={{ marginLeft: "8px" }}
-                onClick={() => handleUpgradeSettlement(s.id)}
-              >
-                Upgrade (50W / 50S)
-              </button>
-            </div>
-          ))}
+          .map((s) => {
+            const harvest = computeSettlementHarvest(
+              game,
+              s,
+              harvestTiles[s.id] ?? [],
+            )
+            return (
+              <div key={s.id} style={{ marginBottom: "4px", fontSize: "0.9rem" }}>
+                <span>
+                  {s.id} – Level {s.level}, Pop {s.population}/{s.populationCap}
+                </span>
+                <span
+                  style={{
+                    marginLeft: "8px",
+                    color:
+                      s.morale < game.rules.morale.lowMorale ? "#f66" : "#cfc",
+                  }}
+                  title={getMoraleFactors(game, s)
+                    .map((f) => `${f.label} ${f.value > 0 ? "+" : ""}${Math.round(f.value)}`)
+                    .join(", ")}
+                >
+                  Morale {Math.round(s.morale)} (
+                  {describeMorale(game.rules, s.morale)}, heading for{" "}
+                  {Math.round(getMoraleTarget(game, s))})
+                  {s.unrestSinceMs !== undefined &&
+                    ` – revolt in ${Math.max(
+                      0,
+                      Math.ceil(
+                        (s.unrestSinceMs +
+                          game.rules.morale.revoltDelayMs -
+                          game.currentTimeMs) /
+                          1000,
+                      ),
+                    )}s`}
+                </span>
+                <span style={{ marginLeft: "8px", color: "#aaa" }}>
+                  Faith{" "}
+                  {Object.entries(getFaithShares(s))
+                    .sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+                    .map(
+                      ([deity, share]) =>
+                        `${Math.round((share ?? 0) * 100)}% ${
+                          deity === localPlayerId ? "yours" : playerName(deity)
+                        }`,
+                    )
+                    .join(", ")}
+                  {s.faithDominatedSinceMs !== undefined && (
+                    <span style={{ color: "#f66" }}>
+                      {" "}
+                      – turning to {playerName(
+                        getDominantRivalFaith(game.rules.faith, s) ?? s.owner,
+                      )}{" "}
+                      in{" "}
+                      {Math.max(
+                        0,
+                        Math.ceil(
+                          (s.faithDominatedSinceMs +
+                            game.rules.faith.conversionDelayMs -
+                            game.currentTimeMs) /
+                            1000,
+                        ),
+                      )}
+                      s
+                    </span>
+                  )}
+                </span>
+                <span style={{ marginLeft: "8px", color: "#aaa" }}>
+                  {supply[s.id] && !supply[s.id].connected ? (
+                    <span style={{ color: "#f66" }}>cut off from the capital</span>
+                  ) : (
+                    "on the capital's roads"
+                  )}
+                  {getTradeGoldPerSecond(game, supply[s.id]) > 0 &&
+                    `, trade +${getTradeGoldPerSecond(game, supply[s.id]).toFixed(1)} Gold/s`}
+                </span>
+                <span style={{ marginLeft: "8px", color: "#aaa" }}>
+                  working {harvest.tiles.length}/{harvestTiles[s.id]?.length ?? 0}{" "}
+                  tiles
+                  {harvest.surplusWorkers > 0 &&
+                    `, ${harvest.surplusWorkers} workers short of land`}
+                </span>
+                <button
+                  style={{ marginLeft: "8px" }}
+                  onClick={() => handleUpgradeSettlement(s.id)}
+                >
+                  Upgrade ({formatCost(game.rules.upgradeCost)})
+                </button>
+                {currentPlayer &&
+                  !canAfford(currentPlayer.resources, game.rules.upgradeCost) && (
+                    <button
+                      style={{ marginLeft: "8px" }}
+                      onClick={() => handleUpgradeSettlement(s.id, true)}
+                    >
+                      Rush (
+                      {formatCost(
+                        getRushCost(
+                          game,
+                          currentPlayer.resources,
+                          game.rules.upgradeCost,
+                        ),
+                      )}
+                      )
+                    </button>
+                  )}
+              </div>
+            )
+          })}
       </div>
 
-      <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+      <BuildingsPanel
+        game={game}
+        localPlayerId={localPlayerId}
+        onConstruct={handleConstructBuilding}
+        onDemolish={handleDemolishBuilding}
+      />
+
+      <ChroniclePanel game={game} localPlayerId={localPlayerId} />
+      <EventNotifications game={game} localPlayerId={localPlayerId} />
+
+      <div style={{ display: "flex", gap: "8px", margin: "16px 0" }}>
         <button onClick={disconnect}>Disconnect</button>
       </div>
 
@@ -348,6 +1179,7 @@ export const GameRoot: React.FC = () => {
         {JSON.stringify(
           {
             currentTimeMs: game.currentTimeMs,
+            rng: game.rng,
             buffs: game.buffs,
           },
           null,
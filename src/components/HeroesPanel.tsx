@@ -0,0 +1,186 @@
+// src/components/HeroesPanel.tsx
+import React from "react"
+import type { GameState, HeroAbility, HeroKind, PlayerId } from "../game/types"
+import {
+  getHeroAbilityCooldownRemaining,
+  getHeroTileId,
+  HERO_ABILITIES,
+  HERO_ABILITY_LABELS,
+  HERO_KIND_LABELS,
+} from "../game/heroes"
+import { canAfford, formatCost } from "../game/rules"
+import { findTileById, hexDistance } from "../game/helpers"
+import { areHostile } from "../game/diplomacy"
+
+export interface HeroesPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  selectedHeroId?: string
+  onSelect: (heroId: string | undefined) => void
+  onRecruit: (args: { settlementId: string; kind: HeroKind }) => void
+  onUseAbility: (args: {
+    heroId: string
+    ability: HeroAbility
+    settlementId?: string
+  }) => void
+}
+
+const HERO_KINDS: HeroKind[] = ["PROPHET", "CHAMPION"]
+
+export const HeroesPanel: React.FC<HeroesPanelProps> = ({
+  game,
+  localPlayerId,
+  selectedHeroId,
+  onSelect,
+  onRecruit,
+  onUseAbility,
+}) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const running = game.phase === "RUNNING"
+  const rules = game.rules.heroes
+  const myHeroes = (game.heroes ?? []).filter((h) => h.owner === localPlayerId)
+  const mySettlements = game.settlements.filter((s) => s.owner === localPlayerId)
+  const roomForMore = myHeroes.length < rules.maxPerPlayer
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Heroes</h3>
+      <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+        Prophets rise from worshippers and convert rival worshippers or found
+        shrines; champions rise from defenders and rally nearby soldiers.
+        Select a hero, then click a tile on the map to send them there.
+      </p>
+
+      {myHeroes.length === 0 && (
+        <p style={{ fontSize: "0.85rem", color: "#aaa" }}>You lead no heroes.</p>
+      )}
+
+      {myHeroes.map((hero) => {
+        const tileId = getHeroTileId(hero, game.currentTimeMs)
+        const tile = findTileById(game, tileId)
+        const selected = hero.id === selectedHeroId
+        const arrival = hero.stepTimesMs?.[hero.stepTimesMs.length - 1]
+        const rallying = (hero.rallyUntilMs ?? 0) > game.currentTimeMs
+
+        const convertTargets = game.settlements.filter((s) => {
+          if (s.owner === localPlayerId || s.worshippers < 1) return false
+          if (!areHostile(game, localPlayerId, s.owner)) return false
+          const sTile = findTileById(game, s.tileId)
+          return (
+            !!tile &&
+            !!sTile &&
+            hexDistance(tile.coord, sTile.coord) <= rules.abilityRange
+          )
+        })
+
+        return (
+          <div key={hero.id} style={{ fontSize: "0.85rem", marginBottom: "8px" }}>
+            <strong>{hero.name}</strong>, {HERO_KIND_LABELS[hero.kind]} at {tileId}
+            {arrival !== undefined &&
+              ` – heading to ${hero.tileId}, ${Math.max(
+                0,
+                Math.ceil((arrival - game.currentTimeMs) / 1000),
+              )}s`}
+            {rallying && <span style={{ color: "#7fdc7f" }}> – rallying</span>}
+            <button
+              style={{ marginLeft: "8px" }}
+              onClick={() => onSelect(selected ? undefined : hero.id)}
+            >
+              {selected ? "Selected: click a tile" : "Select to move"}
+            </button>
+
+            <div style={{ marginTop: "4px" }}>
+              {HERO_ABILITIES[hero.kind].map((ability) => {
+                const cooldown = getHeroAbilityCooldownRemaining(game, hero, ability)
+                const label = HERO_ABILITY_LABELS[ability]
+                const cost = rules.abilities[ability].cost ?? {}
+                const ready = running && cooldown <= 0
+
+                if (cooldown > 0) {
+                  return (
+                    <button key={ability} style={{ marginRight: "8px" }} disabled>
+                      {label} ({Math.ceil(cooldown / 1000)}s)
+                    </button>
+                  )
+                }
+
+                if (ability === "CONVERT") {
+                  if (convertTargets.length === 0) {
+                    return (
+                      <button key={ability} style={{ marginRight: "8px" }} disabled>
+                        {label} (no rival worshippers within {rules.abilityRange}{" "}
+                        tiles)
+                      </button>
+                    )
+                  }
+                  return convertTargets.map((s) => (
+                    <button
+                      key={`${ability}-${s.id}`}
+                      style={{ marginRight: "8px" }}
+                      disabled={!ready}
+                      onClick={() =>
+                        onUseAbility({ heroId: hero.id, ability, settlementId: s.id })
+                      }
+                    >
+                      {label} {s.id}
+                    </button>
+                  ))
+                }
+
+                return (
+                  <button
+                    key={ability}
+                    style={{ marginRight: "8px" }}
+                    disabled={
+                      !ready || !!(player && !canAfford(player.resources, cost))
+                    }
+                    onClick={() => onUseAbility({ heroId: hero.id, ability })}
+                  >
+                    {label}
+                    {formatCost(cost) && ` (${formatCost(cost)})`}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+
+      {roomForMore && mySettlements.length > 0 && (
+        <div style={{ fontSize: "0.85rem", marginTop: "8px" }}>
+          Raise a hero ({myHeroes.length}/{rules.maxPerPlayer}):
+          {mySettlements.map((s) => (
+            <div key={s.id}>
+              {s.id}:
+              {HERO_KINDS.map((kind) => {
+                const recruits = kind === "PROPHET" ? s.worshippers : s.defenders
+                return (
+                  <button
+                    key={kind}
+                    style={{ marginLeft: "8px" }}
+                    disabled={
+                      !running ||
+                      recruits < 1 ||
+                      !player ||
+                      !canAfford(player.resources, rules.cost[kind])
+                    }
+                    onClick={() => onRecruit({ settlementId: s.id, kind })}
+                  >
+                    {HERO_KIND_LABELS[kind]} ({formatCost(rules.cost[kind])})
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,42 @@
 import React from "react"
-import type { Tile, Settlement, PlayerId } from "../game/types"
+import type {
+  Army,
+  Hero,
+  Tile,
+  TileImprovementType,
+  Settlement,
+  PlayerId,
+} from "../game/types"
+import { getArmyTileId } from "../game/armies"
+import { getHeroTileId, HERO_KIND_LABELS } from "../game/heroes"
+import { hexNeighbors, tileIdForCoord } from "../game/helpers"
+import { isImprovementBuilt, TILE_IMPROVEMENT_LABELS } from "../game/improvements"
 
 export interface HexBoardProps {
   tiles: Tile[]
   settlements: Settlement[]
+  highlightTileIds?: string[] // e.g. suggested starting spots in the lobby
+  armies?: Army[]
+  currentTimeMs?: number // positions armies and heroes along their march
+  heroes?: Hero[]
+  selectedHeroId?: string
   onTileClick?: (tileId: string) => void
+  onHeroClick?: (heroId: string) => void
 }
 
 const ownerColor: Record<string, string> = {
   PLAYER_1: "#ffcc00",
   PLAYER_2: "#00ccff",
   NPC_1: "#ff66cc",
+  INDEPENDENT: "#bbbbbb",
+  BARBARIANS: "#8b1a1a",
+}
+
+const improvementGlyph: Record<TileImprovementType, string> = {
+  CLEAR_FOREST: "✕",
+  IRRIGATION: "≈",
+  MINE: "⚒",
+  FISHERY: "⚓",
 }
 
 function getOwnerColor(owner: PlayerId): string {
@@ -40,6 +66,12 @@ function terrainColor(terrain: Tile["terrain"]): string {
   }
 }
 
+// Unexplored tiles are blank; remembered ones keep their terrain, dimmed
+function tileColor(tile: Tile): string {
+  if (tile.visibility === "UNEXPLORED") return "#1c1c1c"
+  return terrainColor(tile.terrain)
+}
+
 /**
  * Very simple "axial" layout -> approximate hex grid using CSS transforms.
  * This doesn't need to be perfect; just good enough to see and click.
@@ -47,7 +79,13 @@ function terrainColor(terrain: Tile["terrain"]): string {
 export const HexBoard: React.FC<HexBoardProps> = ({
   tiles,
   settlements,
+  highlightTileIds,
+  armies,
+  currentTimeMs = 0,
+  heroes,
+  selectedHeroId,
   onTileClick,
+  onHeroClick,
 }) => {
   // Find min/max coords to normalize the layout
   const qs = tiles.map((t) => t.coord.q)
@@ -63,6 +101,33 @@ export const HexBoard: React.FC<HexBoardProps> = ({
   const tileSize = 60
   const tileHeight = tileSize * 0.9
 
+  const tilePosition = (tile: Tile) => {
+    const col = tile.coord.q - minQ
+    const row = tile.coord.r - minR
+    return {
+      x: col * tileSize * 0.85,
+      y: row * tileHeight + (col % 2 === 0 ? 0 : tileHeight / 2),
+    }
+  }
+
+  // Each road segment runs from a road tile to a neighbouring road or
+  // settlement; every pair is drawn once
+  const tilesById = new Map(tiles.map((t) => [t.id, t]))
+  const roadSegments: { id: string; from: Tile; to: Tile }[] = []
+  for (const tile of tiles) {
+    if (!tile.road) continue
+    for (const coord of hexNeighbors(tile.coord)) {
+      const next = tilesById.get(tileIdForCoord(coord))
+      if (!next || (!next.settlementId && !next.road)) continue
+      if (next.road && next.id < tile.id) continue
+      roadSegments.push({ id: `${tile.id}-${next.id}`, from: tile, to: next })
+    }
+  }
+  const tileCenter = (tile: Tile) => {
+    const { x, y } = tilePosition(tile)
+    return { x: x + tileSize / 2, y: y + tileHeight / 2 }
+  }
+
   return (
     <div
       style={{
@@ -74,28 +139,35 @@ export const HexBoard: React.FC<HexBoardProps> = ({
       }}
     >
       {tiles.map((tile) => {
-        const { q, r } = tile.coord
-        const col = q - minQ
-        const row = r - minR
-
-        const x = col * tileSize * 0.85
-        const y = row * tileHeight + (col % 2 === 0 ? 0 : tileHeight / 2)
+        const { x, y } = tilePosition(tile)
 
         const settlement = tile.settlementId
           ? settlements.find((s) => s.id === tile.settlementId)
           : undefined
+        const highlighted = !settlement && highlightTileIds?.includes(tile.id)
 
         return (
           <div
             key={tile.id}
             onClick={() => onTileClick && onTileClick(tile.id)}
+            title={
+              tile.visibility === "UNEXPLORED"
+                ? "Unexplored"
+                : tile.visibility === "REMEMBERED"
+                  ? `${tile.terrain} (out of sight)`
+                  : undefined
+            }
             style={{
               position: "absolute",
               left: x,
               top: y,
               width: tileSize,
               height: tileHeight,
-              backgroundColor: terrainColor(tile.terrain),
+              backgroundColor: tileColor(tile),
+              filter:
+                tile.visibility === "REMEMBERED"
+                  ? "grayscale(60%) brightness(55%)"
+                  : undefined,
               clipPath:
                 "polygon(25% 0%, 75% 0%, 100% 50%, 75% 100%, 25% 100%, 0% 50%)",
               border: "1px solid #222",
@@ -108,21 +180,164 @@ export const HexBoard: React.FC<HexBoardProps> = ({
               color: "#fff",
             }}
           >
+            {highlighted && (
+              <div
+                style={{
+                  width: 14,
+                  height: 14,
+                  borderRadius: "50%",
+                  border: "2px dashed #fff",
+                }}
+                title="Balanced starting spot"
+              />
+            )}
+            {!settlement && tile.shrine && (
+              <span style={{ fontSize: "14px" }} title="Shrine">
+                ✦
+              </span>
+            )}
+            {!settlement && tile.improvement && (
+              <span
+                style={{
+                  fontSize: "14px",
+                  // Works still under way are drawn faded
+                  opacity: isImprovementBuilt(tile) ? 1 : 0.45,
+                }}
+                title={
+                  isImprovementBuilt(tile)
+                    ? TILE_IMPROVEMENT_LABELS[tile.improvement.type]
+                    : `${TILE_IMPROVEMENT_LABELS[tile.improvement.type]} (under way)`
+                }
+              >
+                {improvementGlyph[tile.improvement.type]}
+              </span>
+            )}
             {settlement && (
               <div
                 style={{
                   width: 18,
                   height: 18,
-                  borderRadius: "50%",
+                  // Camps are drawn square
+                  borderRadius: settlement.camp ? "2px" : "50%",
                   backgroundColor: getOwnerColor(settlement.owner),
                   border: "2px solid #000",
                 }}
-                title={settlement.owner}
+                title={
+                  settlement.camp
+                    ? `${settlement.owner} camp`
+                    : settlement.owner
+                }
               />
             )}
           </div>
         )
       })}
+
+      <svg
+        width="100%"
+        height="100%"
+        style={{ position: "absolute", left: 0, top: 0, pointerEvents: "none" }}
+      >
+        {roadSegments.map(({ id, from, to }) => {
+          const a = tileCenter(from)
+          const b = tileCenter(to)
+          return (
+            <line
+              key={id}
+              x1={a.x}
+              y1={a.y}
+              x2={b.x}
+              y2={b.y}
+              stroke="#8b5a2b"
+              strokeWidth={4}
+              strokeLinecap="round"
+            />
+          )
+        })}
+        {tiles
+          .filter((t) => t.road)
+          .map((t) => {
+            const { x, y } = tileCenter(t)
+            return <circle key={t.id} cx={x} cy={y} r={4} fill="#8b5a2b" />
+          })}
+      </svg>
+
+      {(armies ?? []).map((army) => {
+        const tile = tiles.find(
+          (t) => t.id === getArmyTileId(army, currentTimeMs),
+        )
+        if (!tile) return null
+        const { x, y } = tilePosition(tile)
+        const secondsLeft = Math.max(
+          0,
+          Math.ceil((army.arrivesAtMs - currentTimeMs) / 1000),
+        )
+
+        return (
+          <div
+            key={army.id}
+            style={{
+              position: "absolute",
+              left: x + tileSize * 0.6,
+              top: y + tileHeight * 0.1,
+              minWidth: 16,
+              height: 16,
+              padding: "0 2px",
+              backgroundColor: getOwnerColor(army.owner),
+              border: "2px solid #000",
+              borderRadius: "3px",
+              fontSize: "10px",
+              lineHeight: "16px",
+              textAlign: "center",
+              color: "#000",
+            }}
+            title={
+              army.targetSettlementId
+                ? `${army.owner}: ${army.size} raiders, ${secondsLeft}s to ${army.targetSettlementId}`
+                : `${army.owner}: ${army.size} raiders`
+            }
+          >
+            {army.size}
+          </div>
+        )
+      })}
+
+      {(heroes ?? []).map((hero) => {
+        const tile = tiles.find(
+          (t) => t.id === getHeroTileId(hero, currentTimeMs),
+        )
+        if (!tile) return null
+        const { x, y } = tilePosition(tile)
+        const selected = hero.id === selectedHeroId
+
+        return (
+          <div
+            key={hero.id}
+            onClick={(e) => {
+              e.stopPropagation()
+              if (onHeroClick) onHeroClick(hero.id)
+            }}
+            style={{
+              position: "absolute",
+              left: x + tileSize * 0.1,
+              top: y + tileHeight * 0.55,
+              width: 16,
+              height: 16,
+              borderRadius: "50%",
+              backgroundColor: getOwnerColor(hero.owner),
+              border: selected ? "2px solid #fff" : "2px solid #000",
+              fontSize: "10px",
+              lineHeight: "16px",
+              textAlign: "center",
+              color: "#000",
+              cursor: onHeroClick ? "pointer" : undefined,
+            }}
+            title={`${hero.name}, ${HERO_KIND_LABELS[hero.kind]} of ${hero.owner}`}
+          >
+            {HERO_KIND_LABELS[hero.kind][0]}
+          </div>
+        )
+      })}
     </div>
   )
 }
@@ -0,0 +1,177 @@
+// src/components/MarketPanel.tsx
+import React, { useState } from "react"
+import type {
+  GameState,
+  MarketGood,
+  MarketSide,
+  PlayerId,
+} from "../game/types"
+import {
+  getUnitPrice,
+  getWageBill,
+  MARKET_GOODS,
+  MARKET_SIDE_LABELS,
+  quoteMarketOrder,
+} from "../game/market"
+
+export interface MarketPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onTrade: (args: { side: MarketSide; resource: MarketGood; amount: number }) => void
+  onHireMercenaries: (args: { settlementId: string; count: number }) => void
+}
+
+// Price over the recorded history, scaled between its own low and high
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const width = 80
+  const height = 20
+  if (values.length < 2) return null
+
+  const low = Math.min(...values)
+  const high = Math.max(...values)
+  const span = high - low || 1
+  const points = values
+    .map((v, i) => {
+      const x = (i / (values.length - 1)) * width
+      const y = height - ((v - low) / span) * height
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(" ")
+
+  return (
+    <svg width={width} height={height} style={{ verticalAlign: "middle" }}>
+      <polyline points={points} fill="none" stroke="#fc6" strokeWidth={1.5} />
+    </svg>
+  )
+}
+
+export const MarketPanel: React.FC<MarketPanelProps> = ({
+  game,
+  localPlayerId,
+  onTrade,
+  onHireMercenaries,
+}) => {
+  const [amount, setAmount] = useState(20)
+  const [hireCount, setHireCount] = useState(1)
+
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const mySettlements = game.settlements.filter((s) => s.owner === localPlayerId)
+  const running = game.phase === "RUNNING"
+  const gold = player?.resources.Gold ?? 0
+  const orderSize = Math.max(1, Math.floor(amount))
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Market</h3>
+      <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+        Prices in Gold per unit, shared by every deity. Buying drives a price
+        up, selling drives it down, and both settle back over time.
+      </p>
+
+      <label style={{ fontSize: "0.85rem" }}>
+        Order size{" "}
+        <input
+          type="number"
+          min={1}
+          style={{ width: "4em" }}
+          value={amount}
+          onChange={(e) => setAmount(Number(e.target.value))}
+        />
+      </label>
+
+      <table style={{ fontSize: "0.85rem", marginTop: "4px" }}>
+        <tbody>
+          {MARKET_GOODS.map((good) => {
+            const history = game.market.history.map((h) => h.prices[good])
+            const held = player?.resources[good] ?? 0
+
+            return (
+              <tr key={good}>
+                <td style={{ paddingRight: "8px" }}>
+                  <strong>{good}</strong>
+                </td>
+                <td style={{ paddingRight: "8px" }}>
+                  buy {getUnitPrice(game, "BUY", good).toFixed(2)} / sell{" "}
+                  {getUnitPrice(game, "SELL", good).toFixed(2)}
+                </td>
+                <td style={{ paddingRight: "8px" }}>
+                  <Sparkline values={[...history, game.market.prices[good]]} />
+                </td>
+                <td>
+                  {(["BUY", "SELL"] as MarketSide[]).map((side) => {
+                    const quote = quoteMarketOrder(game, side, good, orderSize)
+                    const allowed =
+                      running &&
+                      (side === "BUY" ? gold >= quote : held >= orderSize)
+
+                    return (
+                      <button
+                        key={side}
+                        style={{ marginRight: "4px" }}
+                        disabled={!allowed}
+                        onClick={() =>
+                          onTrade({ side, resource: good, amount: orderSize })
+                        }
+                      >
+                        {MARKET_SIDE_LABELS[side]} {orderSize} ({quote} Gold)
+                      </button>
+                    )
+                  })}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <h4 style={{ margin: "8px 0 4px" }}>Soldiers' pay</h4>
+      <div style={{ fontSize: "0.85rem" }}>
+        Wages: {getWageBill(game, localPlayerId).toFixed(2)} Gold/s (
+        {game.rules.defenderWagePerSecond} per defender,{" "}
+        {game.rules.mercenaryWagePerSecond} per mercenary)
+        {player?.unpaidWages && (
+          <span style={{ color: "#f66" }}>
+            {" "}
+            – unpaid: defenders fight at ×{game.rules.unpaidDefenseMultiplier}
+          </span>
+        )}
+      </div>
+
+      {mySettlements.length > 0 && (
+        <div style={{ fontSize: "0.85rem", marginTop: "4px" }}>
+          Hire{" "}
+          <input
+            type="number"
+            min={1}
+            style={{ width: "3em" }}
+            value={hireCount}
+            onChange={(e) => setHireCount(Number(e.target.value))}
+          />{" "}
+          mercenaries ({game.rules.mercenaryCost} Gold each) for:
+          {mySettlements.map((s) => {
+            const count = Math.max(1, Math.floor(hireCount))
+            return (
+              <div key={s.id}>
+                {s.id}: {s.defenders} defenders, {s.mercenaries ?? 0} mercenaries
+                <button
+                  style={{ marginLeft: "8px" }}
+                  disabled={!running || gold < count * game.rules.mercenaryCost}
+                  onClick={() => onHireMercenaries({ settlementId: s.id, count })}
+                >
+                  Hire {count} ({count * game.rules.mercenaryCost} Gold)
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
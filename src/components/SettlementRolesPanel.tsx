@@ -1,5 +1,11 @@
+// src/components/SettlementRolesPanel.tsx
 import React from "react"
-import type { GameState, PlayerId, Settlement } from "../game/types"
+import type {
+  GameState,
+  PlayerId,
+  SettlementRoleMode,
+} from "../game/types"
+import { getSettlementRolePercents, ROLE_MODE_LABELS } from "../game/rules"
 
 export interface SettlementRolesPanelProps {
   game: GameState
@@ -10,26 +16,16 @@ export interface SettlementRolesPanelProps {
     worshippersPercent: number
     defendersPercent: number
   }) => void
-}
-
-function computePercents(settlement: Settlement) {
-  const { population, workers, worshippers, defenders } = settlement
-  if (population <= 0) {
-    return { workersPercent: 0, worshippersPercent: 0, defendersPercent: 0 }
-  }
-
-  const workersPercent = Math.round((workers / population) * 100)
-  const worshippersPercent = Math.round((worshippers / population) * 100)
-  const defendersPercent = Math.round((defenders / population) * 100)
-
-  return { workersPercent, worshippersPercent, defendersPercent }
+  onSetMode: (args: { settlementId: string; mode: SettlementRoleMode }) => void
 }
 
 export const SettlementRolesPanel: React.FC<SettlementRolesPanelProps> = ({
   game,
   localPlayerId,
   onUpdateRoles,
+  onSetMode,
 }) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
   const mySettlements = game.settlements.filter(
     (s) => s.owner === localPlayerId,
   )
@@ -63,8 +59,9 @@ export const SettlementRolesPanel: React.FC<SettlementRolesPanelProps> = ({
     >
       <h3>Your Settlements</h3>
       <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
-        Adjust how your followers are allocated. Percentages do not need to sum
-        to 100; any remainder is idle.
+        Each settlement follows your faction policy, a preset or a manual
+        split. Moving a slider switches it to manual. Percentages do not need
+        to sum to 100; any remainder is idle.
       </p>
 
       {mySettlements.map((settlement) => {
@@ -72,7 +69,9 @@ export const SettlementRolesPanel: React.FC<SettlementRolesPanelProps> = ({
           workersPercent,
           worshippersPercent,
           defendersPercent,
-        } = computePercents(settlement)
+        } = player
+          ? getSettlementRolePercents(game.rules, settlement, player.policy)
+          : { workersPercent: 0, worshippersPercent: 0, defendersPercent: 0 }
 
         const tile = game.tiles.find((t) => t.id === settlement.tileId)
 
@@ -100,6 +99,27 @@ export const SettlementRolesPanel: React.FC<SettlementRolesPanelProps> = ({
               {settlement.defenders}
             </div>
 
+            <label style={{ display: "block", fontSize: "0.85rem", marginTop: "4px" }}>
+              Mode:{" "}
+              <select
+                value={settlement.roleMode ?? "POLICY"}
+                onChange={(e) =>
+                  onSetMode({
+                    settlementId: settlement.id,
+                    mode: e.target.value as SettlementRoleMode,
+                  })
+                }
+              >
+                {(Object.keys(ROLE_MODE_LABELS) as SettlementRoleMode[]).map(
+                  (mode) => (
+                    <option key={mode} value={mode}>
+                      {ROLE_MODE_LABELS[mode]}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+
             <div style={{ marginTop: "4px" }}>
               <label style={{ display: "block", fontSize: "0.85rem" }}>
                 Workers: {workersPercent}%
@@ -0,0 +1,94 @@
+// src/components/StoragePanel.tsx
+import React from "react"
+import type { GameState, PlayerId } from "../game/types"
+import { getStorageCapacity, STORED_RESOURCES } from "../game/storage"
+
+export interface StoragePanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+}
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({
+  game,
+  localPlayerId,
+}) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
+  if (!player) return null
+
+  const rules = game.rules.storage
+  const capacity = getStorageCapacity(game, localPlayerId)
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Storage</h3>
+      <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+        Settlement levels, granaries, lumber mills and quarries make room in
+        your stores; whatever does not fit is lost. Food above{" "}
+        {Math.round(rules.spoilageThreshold * 100)}% of capacity spoils.
+      </p>
+
+      {STORED_RESOURCES.map((res) => {
+        const amount = player.resources[res] ?? 0
+        const share = capacity[res] > 0 ? Math.min(1, amount / capacity[res]) : 1
+        const full = share >= rules.warningShare
+        const spoiling = res === "Food" && share > rules.spoilageThreshold
+
+        return (
+          <div key={res} style={{ fontSize: "0.85rem", marginBottom: "4px" }}>
+            <div>
+              {res}: {Math.floor(amount)}/{Math.floor(capacity[res])}
+              {full && (
+                <span style={{ color: "tomato" }}> – stores nearly full</span>
+              )}
+              {spoiling && !full && (
+                <span style={{ color: "#fc6" }}> – spoiling</span>
+              )}
+            </div>
+            <div
+              style={{
+                position: "relative",
+                height: "8px",
+                background: "#222",
+                borderRadius: "4px",
+                overflow: "hidden",
+              }}
+            >
+              <div
+                style={{
+                  width: `${share * 100}%`,
+                  height: "100%",
+                  background: full ? "tomato" : spoiling ? "#fc6" : "#7fdc7f",
+                }}
+              />
+              {res === "Food" && (
+                <div
+                  title="Spoilage threshold"
+                  style={{
+                    position: "absolute",
+                    left: `${rules.spoilageThreshold * 100}%`,
+                    top: 0,
+                    width: "2px",
+                    height: "100%",
+                    background: "#fff",
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      <div style={{ fontSize: "0.85rem" }}>
+        Belief: {Math.floor(player.resources.Belief ?? 0)} (kept by the faithful,
+        never capped)
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+// src/components/WondersPanel.tsx
+import React, { useState } from "react"
+import type {
+  GameState,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+  WonderType,
+} from "../game/types"
+import {
+  getWonderProgress,
+  getWonderStageShortfall,
+  isWonderClaimed,
+  WONDER_LABELS,
+  WONDER_TYPES,
+} from "../game/wonders"
+import { formatCost } from "../game/rules"
+
+export interface WondersPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onStart: (args: { settlementId: string; wonder: WonderType }) => void
+  onContribute: (args: { wonderId: string; resources: ResourceCost }) => void
+}
+
+export const WondersPanel: React.FC<WondersPanelProps> = ({
+  game,
+  localPlayerId,
+  onStart,
+  onContribute,
+}) => {
+  const [choice, setChoice] = useState<WonderType>("GRAND_TEMPLE")
+
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const running = game.phase === "RUNNING"
+  const wonders = game.wonders ?? []
+  const winsOutright = game.victoryConditions.enabled.includes("WONDER")
+  const ownerName = (id: PlayerId) =>
+    game.players.find((p) => p.id === id)?.name ?? id
+
+  const sites = game.settlements.filter(
+    (s) =>
+      s.owner === localPlayerId &&
+      s.level >= game.rules.wonders.minLevel &&
+      !wonders.some((w) => w.settlementId === s.id),
+  )
+  const available = WONDER_TYPES.filter(
+    (type) =>
+      !isWonderClaimed(game, type) &&
+      !wonders.some((w) => w.owner === localPlayerId && w.type === type),
+  )
+  const chosen = available.includes(choice) ? choice : available[0]
+
+  // As much of the stage's shortfall as the stockpile covers
+  const affordablePart = (shortfall: ResourceCost): ResourceCost => {
+    const part: ResourceCost = {}
+    ;(Object.keys(shortfall) as ResourceType[]).forEach((res) => {
+      const amount = Math.min(
+        shortfall[res] ?? 0,
+        Math.floor(player?.resources[res] ?? 0),
+      )
+      if (amount > 0) part[res] = amount
+    })
+    return part
+  }
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>Wonders</h3>
+      <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+        Raised stage by stage in a level {game.rules.wonders.minLevel}+
+        settlement: each stage needs its materials and the labour of the
+        settlement's worshippers. Successful raids wreck part of the stage under
+        way. The first to finish a wonder{" "}
+        {winsOutright ? "wins the age" : "earns its victory points"}; rival
+        projects of the same wonder are abandoned.
+      </p>
+
+      {wonders.length === 0 && (
+        <p style={{ fontSize: "0.85rem", color: "#aaa" }}>
+          No deity has begun a wonder yet.
+        </p>
+      )}
+
+      {wonders.map((wonder) => {
+        const def = game.rules.wonders.definitions[wonder.type]
+        const progress = getWonderProgress(game.rules, wonder)
+        const mine = wonder.owner === localPlayerId
+        const done = wonder.completedAtMs !== undefined
+        const stage = def.stages[wonder.stage]
+        const shortfall = getWonderStageShortfall(game.rules, wonder)
+        const contribution = affordablePart(shortfall)
+
+        return (
+          <div key={wonder.id} style={{ fontSize: "0.85rem", marginBottom: "8px" }}>
+            <strong>{WONDER_LABELS[wonder.type]}</strong> – {ownerName(wonder.owner)}{" "}
+            in {wonder.settlementId}:{" "}
+            {done
+              ? "complete"
+              : `stage ${wonder.stage + 1}/${def.stages.length}, ${Math.round(
+                  progress * 100,
+                )}%`}
+            {!winsOutright && ` (${def.victoryPoints} VP)`}
+            <div
+              style={{
+                height: "6px",
+                background: "#333",
+                borderRadius: "3px",
+                marginTop: "2px",
+              }}
+            >
+              <div
+                style={{
+                  width: `${progress * 100}%`,
+                  height: "100%",
+                  background: mine ? "#7fdc7f" : "#f96",
+                  borderRadius: "3px",
+                }}
+              />
+            </div>
+
+            {mine && !done && stage && (
+              <div style={{ marginTop: "4px" }}>
+                Still needs {formatCost(shortfall) || "no materials"}, labour{" "}
+                {Math.floor(wonder.labor)}/{stage.labor}
+                <button
+                  style={{ marginLeft: "8px" }}
+                  disabled={!running || Object.keys(contribution).length === 0}
+                  onClick={() =>
+                    onContribute({ wonderId: wonder.id, resources: contribution })
+                  }
+                >
+                  Contribute {formatCost(contribution) || "nothing"}
+                </button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {sites.length > 0 && chosen && (
+        <div style={{ fontSize: "0.85rem", marginTop: "8px" }}>
+          Begin{" "}
+          <select
+            value={chosen}
+            onChange={(e) => setChoice(e.target.value as WonderType)}
+          >
+            {available.map((type) => (
+              <option key={type} value={type}>
+                {WONDER_LABELS[type]} (
+                {game.rules.wonders.definitions[type].stages.length} stages)
+              </option>
+            ))}
+          </select>{" "}
+          in:
+          {sites.map((s) => (
+            <button
+              key={s.id}
+              style={{ marginLeft: "8px" }}
+              disabled={!running}
+              onClick={() => onStart({ settlementId: s.id, wonder: chosen })}
+            >
+              {s.id}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
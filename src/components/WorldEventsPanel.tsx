@@ -0,0 +1,82 @@
+// src/components/WorldEventsPanel.tsx
+import React from "react"
+import type { GameState, PlayerId, WorldEventChoice } from "../game/types"
+import {
+  describeWorldEventChoice,
+  getWorldEventChoiceCost,
+  WORLD_EVENT_CHOICE_LABELS,
+  WORLD_EVENT_LABELS,
+} from "../game/worldEvents"
+import { canAfford, formatCost } from "../game/rules"
+
+export interface WorldEventsPanelProps {
+  game: GameState
+  localPlayerId: PlayerId
+  onResolve: (args: { eventId: string; choice: WorldEventChoice }) => void
+}
+
+export const WorldEventsPanel: React.FC<WorldEventsPanelProps> = ({
+  game,
+  localPlayerId,
+  onResolve,
+}) => {
+  const player = game.players.find((p) => p.id === localPlayerId)
+  const pending = (game.worldEvents ?? []).filter(
+    (e) => e.playerId === localPlayerId,
+  )
+
+  return (
+    <div
+      style={{
+        border: "1px solid #333",
+        padding: "8px",
+        borderRadius: "8px",
+        marginTop: "16px",
+      }}
+    >
+      <h3>World Events</h3>
+
+      {pending.length === 0 && (
+        <p style={{ fontSize: "0.9rem", color: "#aaa" }}>
+          Nothing in the world needs your answer.
+        </p>
+      )}
+
+      {pending.map((event) => {
+        const secondsLeft = Math.max(
+          0,
+          Math.ceil((event.expiresAtMs - game.currentTimeMs) / 1000),
+        )
+
+        return (
+          <div key={event.id} style={{ fontSize: "0.85rem", marginBottom: "8px" }}>
+            <strong>{WORLD_EVENT_LABELS[event.type]}</strong> at{" "}
+            {event.settlementId} ({secondsLeft}s, otherwise{" "}
+            {WORLD_EVENT_CHOICE_LABELS[event.defaultChoice].toLowerCase()})
+            <div style={{ marginTop: "4px" }}>
+              {event.choices.map((choice) => {
+                const cost = getWorldEventChoiceCost(game, event, choice)
+                const affordable = player
+                  ? canAfford(player.resources, cost)
+                  : false
+
+                return (
+                  <button
+                    key={choice}
+                    style={{ marginRight: "8px" }}
+                    disabled={!affordable}
+                    onClick={() => onResolve({ eventId: event.id, choice })}
+                  >
+                    {WORLD_EVENT_CHOICE_LABELS[choice]}
+                    {formatCost(cost) && ` (${formatCost(cost)})`}:{" "}
+                    {describeWorldEventChoice(game, event, choice)}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,408 @@
+import type {
+  Army,
+  GameState,
+  PlayerId,
+  ResourceType,
+  Settlement,
+  Tile,
+} from "./types"
+import {
+  emptyResourceRecord,
+  findSettlementById,
+  findTileById,
+  getPlayer,
+  hexNeighbors,
+  subtractResources,
+  tileIdForCoord,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { captureSettlement, destroySettlement } from "./conquest"
+import { areHostile } from "./diplomacy"
+import { getDefenseMultiplier } from "./market"
+import { sabotageWonder } from "./wonders"
+import { wreckImprovements } from "./improvements"
+import { getFreeCapacity } from "./storage"
+
+// Armies carry raids across the map. They march tile by tile along the
+// cheapest land route, can be intercepted on the way and fight the target
+// settlement when they arrive during TICK.
+
+// Roads speed up anyone marching along them, invaders included
+function moveCostMs(state: GameState, tile: Tile): number {
+  if (tile.terrain === "Water") return Infinity
+  const roadMultiplier = tile.road ? state.rules.roads.armyTimeMultiplier : 1
+  return state.rules.armyMsPerTile[tile.terrain] * roadMultiplier
+}
+
+/**
+ * Cheapest land route between two tiles (Dijkstra; maps are small enough
+ * for the simple quadratic version). Returns tile ids including both ends,
+ * or null when Water cuts them off.
+ */
+export function findArmyPath(
+  state: GameState,
+  fromTileId: string,
+  toTileId: string,
+): string[] | null {
+  const tilesById = new Map(state.tiles.map((t) => [t.id, t]))
+  if (!tilesById.has(fromTileId) || !tilesById.has(toTileId)) return null
+
+  const costs = new Map<string, number>([[fromTileId, 0]])
+  const previous = new Map<string, string>()
+  const done = new Set<string>()
+
+  while (true) {
+    let current: string | null = null
+    for (const [id, cost] of costs) {
+      if (done.has(id)) continue
+      if (current === null || cost < costs.get(current)!) current = id
+    }
+    if (current === null) return null
+    if (current === toTileId) break
+    done.add(current)
+
+    const tile = tilesById.get(current)!
+    for (const coord of hexNeighbors(tile.coord)) {
+      const next = tilesById.get(tileIdForCoord(coord))
+      if (!next || done.has(next.id)) continue
+
+      const cost = costs.get(current)! + moveCostMs(state, next)
+      if (cost === Infinity) continue
+      if (cost < (costs.get(next.id) ?? Infinity)) {
+        costs.set(next.id, cost)
+        previous.set(next.id, current)
+      }
+    }
+  }
+
+  const path = [toTileId]
+  while (path[0] !== fromTileId) {
+    path.unshift(previous.get(path[0])!)
+  }
+  return path
+}
+
+// When the army enters each tile of its path, starting now
+export function scheduleMarch(
+  state: GameState,
+  path: string[],
+  departAtMs: number,
+): number[] {
+  const times: number[] = []
+  let time = departAtMs
+
+  path.forEach((tileId, i) => {
+    if (i > 0) {
+      const tile = findTileById(state, tileId)
+      time += tile ? moveCostMs(state, tile) : 0
+    }
+    times.push(time)
+  })
+
+  return times
+}
+
+// The tile the army is standing on at the given time
+export function getArmyTileId(army: Army, nowMs: number): string {
+  let index = 0
+  army.stepTimesMs.forEach((time, i) => {
+    if (time <= nowMs) index = i
+  })
+  return army.path[index]
+}
+
+export interface BattleResult {
+  attackerLosses: number
+  defenderLosses: number
+  attackerWon: boolean
+  overkill: number // surplus attackers once the defence is broken
+}
+
+// Ties go to the defender
+export function fightBattle(
+  attackers: number,
+  attackStrength: number,
+  defenders: number,
+  defenseStrength: number,
+): BattleResult {
+  const attackPower = attackers * attackStrength
+  const defensePower = defenders * defenseStrength
+
+  if (attackPower <= defensePower) {
+    return {
+      attackerLosses: attackers,
+      defenderLosses: Math.min(
+        defenders,
+        Math.ceil(attackPower / defenseStrength),
+      ),
+      attackerWon: false,
+      overkill: 0,
+    }
+  }
+
+  return {
+    attackerLosses: Math.min(
+      attackers,
+      Math.ceil(defensePower / attackStrength),
+    ),
+    defenderLosses: defenders,
+    attackerWon: true,
+    overkill: Math.floor((attackPower - defensePower) / attackStrength),
+  }
+}
+
+// Everyone who fights for a settlement at home: defenders and mercenaries
+export function getGarrison(settlement: Settlement): number {
+  return settlement.defenders + (settlement.mercenaries ?? 0)
+}
+
+// Mercenaries fall first; only dead defenders cost population
+export function withGarrisonLosses(
+  settlement: Settlement,
+  losses: number,
+): Settlement {
+  const mercenaries = settlement.mercenaries ?? 0
+  const fallenMercenaries = Math.min(mercenaries, losses)
+  const fallenDefenders = Math.min(settlement.defenders, losses - fallenMercenaries)
+  return {
+    ...settlement,
+    mercenaries: mercenaries - fallenMercenaries,
+    defenders: settlement.defenders - fallenDefenders,
+    population: Math.max(0, settlement.population - fallenDefenders),
+  }
+}
+
+// Survivors rejoin their home settlement if it is still theirs
+function returnSurvivors(
+  state: GameState,
+  owner: PlayerId,
+  settlementId: string,
+  survivors: number,
+): void {
+  if (survivors <= 0) return
+  state.settlements = state.settlements.map((s) =>
+    s.id === settlementId && s.owner === owner
+      ? {
+          ...s,
+          population: s.population + survivors,
+          defenders: s.defenders + survivors,
+        }
+      : s,
+  )
+}
+
+// Move a share of the defender's stockpile to the attacker
+function transferLoot(
+  state: GameState,
+  attackerId: PlayerId,
+  defenderId: PlayerId,
+): Record<ResourceType, number> {
+  const loot = emptyResourceRecord()
+  const attacker = getPlayer(state, attackerId)
+  const defender = getPlayer(state, defenderId)
+  if (!attacker || !defender) return loot
+
+  ;(Object.keys(loot) as ResourceType[]).forEach((res) => {
+    // Raiders carry off no more than their own stores can hold
+    loot[res] = Math.floor(
+      Math.min(
+        (defender.resources[res] ?? 0) * state.rules.lootFactor,
+        getFreeCapacity(state, attackerId, res),
+      ),
+    )
+  })
+
+  state.players = state.players.map((p) => {
+    let newResources = p.resources
+    if (p.id === attacker.id) {
+      newResources = { ...p.resources }
+      ;(Object.keys(loot) as ResourceType[]).forEach((res) => {
+        newResources[res] = (newResources[res] ?? 0) + loot[res]
+      })
+    } else if (p.id === defender.id) {
+      newResources = subtractResources(p.resources, loot)
+    } else {
+      return p
+    }
+
+    const newBelief = newResources.Belief ?? 0
+    return {
+      ...p,
+      resources: newResources,
+      belief: newBelief,
+      maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
+    }
+  })
+
+  return loot
+}
+
+/**
+ * Fight the target settlement. An overwhelming win lets the army carry out
+ * its intent: conquerors garrison the settlement, razers burn it down.
+ * Otherwise a win plunders it and the survivors head home with the loot.
+ */
+function resolveRaid(state: GameState, army: Army): void {
+  const target = findSettlementById(state, army.targetSettlementId)
+
+  // The target is gone, changed hands to the raider or is now protected by
+  // a treaty: nothing to fight
+  if (
+    !target ||
+    target.owner === army.owner ||
+    !areHostile(state, army.owner, target.owner)
+  ) {
+    returnSurvivors(state, army.owner, army.fromSettlementId, army.size)
+    return
+  }
+
+  const defenseStrength = getDefenseMultiplier(state, target)
+  const garrison = getGarrison(target)
+  const battle = fightBattle(
+    army.size,
+    army.strength,
+    garrison,
+    defenseStrength,
+  )
+  const survivors = army.size - battle.attackerLosses
+  const fallen = {
+    ...withGarrisonLosses(target, battle.defenderLosses),
+    lastRaidedAtMs: state.currentTimeMs,
+  }
+
+  const overwhelming =
+    battle.attackerWon &&
+    army.size * army.strength >=
+      garrison * defenseStrength * state.rules.conquestPowerRatio
+  const intent = overwhelming ? army.intent : "PLUNDER"
+
+  const raidEvent = {
+    type: "RAID_RESOLVED" as const,
+    attackerId: army.owner,
+    defenderId: target.owner,
+    fromSettlementId: army.fromSettlementId,
+    targetSettlementId: target.id,
+    raiders: army.size,
+    attackerLosses: battle.attackerLosses,
+    defenderLosses: battle.defenderLosses,
+    success: battle.attackerWon,
+  }
+
+  if (intent === "CONQUER") {
+    state.settlements = state.settlements.map((s) =>
+      s.id === target.id ? fallen : s,
+    )
+    recordEvent(state, {
+      ...raidEvent,
+      populationLoss: 0,
+      loot: emptyResourceRecord(),
+    })
+    captureSettlement(state, target.id, army.owner, survivors)
+    return
+  }
+
+  if (intent === "RAZE") {
+    const loot = transferLoot(state, army.owner, target.owner)
+    recordEvent(state, {
+      ...raidEvent,
+      populationLoss: fallen.population,
+      loot,
+    })
+    destroySettlement(state, target.id, army.owner)
+    returnSurvivors(state, army.owner, army.fromSettlementId, survivors)
+    return
+  }
+
+  const populationLoss = battle.attackerWon
+    ? Math.min(fallen.population, battle.overkill)
+    : 0
+  const loot = battle.attackerWon
+    ? transferLoot(state, army.owner, target.owner)
+    : emptyResourceRecord()
+
+  state.settlements = state.settlements.map((s) =>
+    s.id === target.id
+      ? {
+          ...fallen,
+          population: Math.max(0, fallen.population - populationLoss),
+        }
+      : s,
+  )
+
+  returnSurvivors(state, army.owner, army.fromSettlementId, survivors)
+
+  recordEvent(state, { ...raidEvent, populationLoss, loot })
+  if (battle.attackerWon) {
+    sabotageWonder(state, target.id, army.owner)
+    wreckImprovements(state, target.id, army.owner)
+  }
+}
+
+/**
+ * Resolve every army that has reached its target by now.
+ */
+export function resolveArmyArrivals(state: GameState): GameState {
+  const arrived = (state.armies ?? []).filter(
+    (a) => a.arrivesAtMs <= state.currentTimeMs,
+  )
+  if (arrived.length === 0) return state
+
+  state.armies = state.armies.filter((a) => !arrived.includes(a))
+  for (const army of arrived) {
+    resolveRaid(state, army)
+  }
+
+  return state
+}
+
+/**
+ * Send defenders from a settlement against a passing army. Interceptors
+ * attack, so the army holds on a tie; a surviving army marches on with
+ * whatever is left.
+ */
+export function interceptArmy(
+  state: GameState,
+  armyId: string,
+  fromSettlementId: string,
+  interceptors: number,
+): GameState {
+  const army = state.armies.find((a) => a.id === armyId)
+  const from = findSettlementById(state, fromSettlementId)
+  if (!army || !from) return state
+
+  const battle = fightBattle(
+    interceptors,
+    getDefenseMultiplier(state, from),
+    army.size,
+    army.strength,
+  )
+
+  // Interceptors leave home, fight, and the survivors come straight back
+  state.settlements = state.settlements.map((s) =>
+    s.id === from.id
+      ? {
+          ...s,
+          population: Math.max(0, s.population - battle.attackerLosses),
+          defenders: Math.max(0, s.defenders - battle.attackerLosses),
+        }
+      : s,
+  )
+
+  const remaining = army.size - battle.defenderLosses
+  state.armies = state.armies
+    .map((a) => (a.id === army.id ? { ...a, size: remaining } : a))
+    .filter((a) => a.size > 0)
+
+  recordEvent(state, {
+    type: "ARMY_INTERCEPTED",
+    armyId: army.id,
+    attackerId: army.owner,
+    interceptorId: from.owner,
+    tileId: getArmyTileId(army, state.currentTimeMs),
+    attackerLosses: battle.defenderLosses,
+    interceptorLosses: battle.attackerLosses,
+    destroyed: remaining <= 0,
+  })
+
+  return state
+}
@@ -0,0 +1,258 @@
+import type {
+  AnyPlayerAction,
+  BarbarianStrength,
+  GameState,
+  Player,
+  PlayerId,
+  ResourceType,
+  Settlement,
+  SettlementTemplate,
+} from "./types"
+import {
+  emptyResourceRecord,
+  findSettlementById,
+  findTileById,
+  hexDistance,
+  subtractResources,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { forkRng, nextId, nextRandom, pickRandom } from "./rng"
+import { findArmyPath, getGarrison } from "./armies"
+import { annexSettlement } from "./conquest"
+
+// Barbarians belong to no deity. Their camps spring up on unclaimed land as
+// the match goes on and raid whatever lies nearby. Raiding a camp takes a
+// share of the barbarians' hoard like any plunder; a camp can also be
+// conquered, won over by faith, or bought off for Gold, after which it
+// settles down as an ordinary settlement. Their raids come from
+// computeBarbarianActions, which the host runs next to computeNpcActions.
+
+export const BARBARIAN_FACTION_ID: PlayerId = "BARBARIANS"
+
+export const BARBARIAN_STRENGTH_SCALE: Record<BarbarianStrength, number> = {
+  weak: 0.5,
+  normal: 1,
+  strong: 1.5,
+}
+
+// Keeps the barbarians' raid rolls apart from the NPCs' stream
+const BARBARIAN_RNG_SALT = 0x0b4b
+
+// The camp template for a match set to the given strength
+export function scaleCampTemplate(
+  camp: SettlementTemplate,
+  scale: number,
+): SettlementTemplate {
+  const workers = Math.round(camp.workers * scale)
+  const worshippers = Math.round(camp.worshippers * scale)
+  const defenders = Math.max(1, Math.round(camp.defenders * scale))
+  const population = workers + worshippers + defenders
+  return {
+    population,
+    workers,
+    worshippers,
+    defenders,
+    populationCap: Math.max(population, Math.round(camp.populationCap * scale)),
+  }
+}
+
+// Gold it takes to buy off the camp's warriors
+export function getAnnexCost(state: GameState, camp: Settlement): number {
+  return getGarrison(camp) * state.rules.barbarians.annexGoldPerWarrior
+}
+
+// Whether the player has a settlement close enough to annex the camp
+export function isCampInReach(
+  state: GameState,
+  playerId: PlayerId,
+  camp: Settlement,
+): boolean {
+  const campTile = findTileById(state, camp.tileId)
+  if (!campTile) return false
+  return state.settlements.some((s) => {
+    if (s.owner !== playerId) return false
+    const tile = findTileById(state, s.tileId)
+    return (
+      !!tile &&
+      hexDistance(tile.coord, campTile.coord) <= state.rules.settlementBuildRange
+    )
+  })
+}
+
+// The faction holding the camps, brought into the game by the first one
+function ensureBarbarianFaction(state: GameState): PlayerId {
+  const existing = state.players.find((p) => p.barbarian)
+  if (existing) return existing.id
+
+  const faction: Player = {
+    id: BARBARIAN_FACTION_ID,
+    name: "Barbarians",
+    resources: emptyResourceRecord(),
+    victoryPoints: 0,
+    belief: 0,
+    maxBeliefEver: 0,
+    // Nothing but warriors, who live off plunder
+    policy: {
+      workersPercent: 0,
+      worshippersPercent: 0,
+      defendersPercent: 100,
+      stance: "AGGRESSIVE",
+    },
+    isNpc: true,
+    barbarian: true,
+  }
+  state.players = [...state.players, faction]
+  return faction.id
+}
+
+/**
+ * Run during TICK: after rules.barbarians.graceMs, now and then pitch a new
+ * camp on unclaimed land well away from every settlement.
+ */
+export function spawnBarbarianCamps(
+  state: GameState,
+  seconds: number,
+): GameState {
+  const rules = state.rules.barbarians
+  if (rules.spawnChancePerSecond <= 0) return state
+  if (state.currentTimeMs < rules.graceMs) return state
+
+  const camps = state.settlements.filter((s) => s.camp)
+  if (camps.length >= rules.maxCamps) return state
+  if (nextRandom(state) >= rules.spawnChancePerSecond * seconds) return state
+
+  const settledCoords = state.settlements
+    .map((s) => findTileById(state, s.tileId)?.coord)
+    .filter((c) => c !== undefined)
+  const sites = state.tiles.filter(
+    (t) =>
+      t.terrain !== "Water" &&
+      !t.settlementId &&
+      !t.controller &&
+      settledCoords.every((c) => hexDistance(c, t.coord) >= rules.minDistance),
+  )
+  if (sites.length === 0) return state
+
+  const tile = pickRandom(state, sites)
+  const owner = ensureBarbarianFaction(state)
+  const template = rules.camp
+  const camp: Settlement = {
+    id: nextId(state),
+    owner,
+    tileId: tile.id,
+    level: 1,
+    population: template.population,
+    workers: template.workers,
+    worshippers: template.worshippers,
+    defenders: template.defenders,
+    populationCap: template.populationCap,
+    growthProgress: 0,
+    morale: state.rules.morale.initial,
+    buildings: [],
+    camp: true,
+  }
+
+  state.settlements = [...state.settlements, camp]
+  state.tiles = state.tiles.map((t) =>
+    t.id === tile.id ? { ...t, settlementId: camp.id, controller: owner } : t,
+  )
+  // Every camp brings plunder of its own, there for the taking
+  state.players = state.players.map((p) => {
+    if (p.id !== owner) return p
+    const resources = { ...p.resources }
+    ;(Object.keys(rules.hoard) as ResourceType[]).forEach((res) => {
+      resources[res] = (resources[res] ?? 0) + (rules.hoard[res] ?? 0)
+    })
+    return { ...p, resources }
+  })
+
+  recordEvent(state, {
+    type: "BARBARIAN_CAMP_SPAWNED",
+    settlementId: camp.id,
+    owner,
+    tileId: tile.id,
+  })
+
+  return state
+}
+
+/**
+ * Buy off a camp's warriors: the player pays getAnnexCost in Gold and the
+ * camp joins them.
+ */
+export function annexCamp(
+  state: GameState,
+  playerId: PlayerId,
+  settlementId: string,
+): void {
+  const camp = findSettlementById(state, settlementId)
+  if (!camp) return
+
+  const gold = getAnnexCost(state, camp)
+  state.players = state.players.map((p) =>
+    p.id === playerId
+      ? { ...p, resources: subtractResources(p.resources, { Gold: gold }) }
+      : p,
+  )
+  annexSettlement(state, settlementId, playerId, gold)
+}
+
+/**
+ * Decide this tick's barbarian raids: every camp with enough warriors at
+ * home and none out marching may set off to plunder the nearest settlement
+ * within rules.barbarians.raidRange. Like computeNpcActions this is asked
+ * once a tick and only reads state.
+ */
+export function computeBarbarianActions(state: GameState): AnyPlayerAction[] {
+  const actions: AnyPlayerAction[] = []
+  const faction = state.players.find((p) => p.barbarian)
+  if (state.phase !== "RUNNING" || !faction) return actions
+
+  const rules = state.rules.barbarians
+  const barbarianRng = {
+    rng: forkRng(state.rng, state.currentTimeMs ^ BARBARIAN_RNG_SALT),
+  }
+  const marching = new Set(
+    (state.armies ?? [])
+      .filter((a) => a.owner === faction.id)
+      .map((a) => a.fromSettlementId),
+  )
+
+  for (const camp of state.settlements) {
+    if (camp.owner !== faction.id || marching.has(camp.id)) continue
+    if (camp.defenders < rules.minRaiders) continue
+    if (nextRandom(barbarianRng) >= rules.raidChancePerSecond) continue
+
+    const campTile = findTileById(state, camp.tileId)
+    if (!campTile) continue
+
+    let nearest: { settlement: Settlement; distance: number } | null = null
+    for (const s of state.settlements) {
+      if (s.owner === faction.id) continue
+      const tile = findTileById(state, s.tileId)
+      if (!tile) continue
+      const distance = hexDistance(campTile.coord, tile.coord)
+      if (distance > rules.raidRange) continue
+      if (!nearest || distance < nearest.distance) {
+        nearest = { settlement: s, distance }
+      }
+    }
+    const target = nearest?.settlement
+    if (!target || !findArmyPath(state, camp.tileId, target.tileId)) continue
+
+    actions.push({
+      id: `barbarian_${state.currentTimeMs}_${state.rng.cursor}_${actions.length}`,
+      playerId: faction.id,
+      type: "RAID_SETTLEMENT",
+      payload: {
+        fromSettlementId: camp.id,
+        targetSettlementId: target.id,
+        raiderPercent: rules.raidPercent,
+        intent: "PLUNDER",
+      },
+      clientTimeMs: state.currentTimeMs,
+    })
+  }
+
+  return actions
+}
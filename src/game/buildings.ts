@@ -0,0 +1,102 @@
+import type {
+  BuildingDefinition,
+  BuildingType,
+  GameRules,
+  GameState,
+  ResourceType,
+  Settlement,
+  StoredResource,
+  TerrainType,
+} from "./types"
+import { findTileById, hexDistance } from "./helpers"
+
+export const BUILDING_LABELS: Record<BuildingType, string> = {
+  GRANARY: "Granary",
+  TEMPLE: "Temple",
+  BARRACKS: "Barracks",
+  LUMBER_MILL: "Lumber Mill",
+  QUARRY: "Quarry",
+}
+
+export interface BuildingEffects {
+  upkeepMultiplier: number
+  worshipperMultiplier: number
+  defenseMultiplier: number
+  yieldMultipliers: Record<ResourceType, number>
+}
+
+export function getBuildingSlots(
+  rules: GameRules,
+  settlement: Settlement,
+): number {
+  return settlement.level * rules.buildingSlotsPerLevel
+}
+
+// Multiply together the effects of every building in a settlement
+export function getBuildingEffects(
+  rules: GameRules,
+  settlement: Settlement,
+): BuildingEffects {
+  const effects: BuildingEffects = {
+    upkeepMultiplier: 1,
+    worshipperMultiplier: 1,
+    defenseMultiplier: 1,
+    yieldMultipliers: { Food: 1, Wood: 1, Stone: 1, Gold: 1, Belief: 1 },
+  }
+
+  for (const building of settlement.buildings ?? []) {
+    const def = rules.buildings[building.type]
+    if (!def) continue
+
+    effects.upkeepMultiplier *= def.upkeepMultiplier ?? 1
+    effects.worshipperMultiplier *= def.worshipperMultiplier ?? 1
+    effects.defenseMultiplier *= def.defenseMultiplier ?? 1
+    ;(Object.keys(def.yieldMultipliers ?? {}) as ResourceType[]).forEach(
+      (res) => {
+        effects.yieldMultipliers[res] *= def.yieldMultipliers?.[res] ?? 1
+      },
+    )
+  }
+
+  return effects
+}
+
+// Whether the settlement's tile or one of its neighbours has this terrain
+export function hasNearbyTerrain(
+  state: GameState,
+  settlement: Settlement,
+  terrain: TerrainType,
+): boolean {
+  const home = findTileById(state, settlement.tileId)
+  if (!home) return false
+
+  return state.tiles.some(
+    (t) => t.terrain === terrain && hexDistance(t.coord, home.coord) <= 1,
+  )
+}
+
+// Short effect summary for panels, e.g. "Wood ×1.5, needs Forest"
+export function describeBuilding(def: BuildingDefinition): string {
+  const parts: string[] = []
+
+  if (def.upkeepMultiplier != null) {
+    parts.push(`food upkeep ×${def.upkeepMultiplier}`)
+  }
+  if (def.worshipperMultiplier != null) {
+    parts.push(`belief ×${def.worshipperMultiplier}`)
+  }
+  if (def.defenseMultiplier != null) {
+    parts.push(`defender strength ×${def.defenseMultiplier}`)
+  }
+  ;(Object.keys(def.yieldMultipliers ?? {}) as ResourceType[]).forEach((res) => {
+    parts.push(`${res} ×${def.yieldMultipliers?.[res]}`)
+  })
+  ;(Object.keys(def.storage ?? {}) as StoredResource[]).forEach((res) => {
+    parts.push(`${res} storage +${def.storage?.[res]}`)
+  })
+  if (def.requiresNearbyTerrain) {
+    parts.push(`needs ${def.requiresNearbyTerrain}`)
+  }
+
+  return parts.join(", ")
+}
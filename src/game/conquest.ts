@@ -0,0 +1,200 @@
+import type { GameState, PlayerId, Settlement } from "./types"
+import { findSettlementById } from "./helpers"
+import { recordEvent } from "./events"
+
+// Settlements changing hands or disappearing, and the players who go with
+// them.
+
+/**
+ * Knock a player out once their last settlement is gone. Their armies have
+ * nowhere to return to and disband, and their heroes lose heart. The
+ * barbarians simply wait for their next camp.
+ */
+function eliminateIfDefeated(state: GameState, playerId: PlayerId): void {
+  if (state.phase !== "RUNNING") return
+  if (state.settlements.some((s) => s.owner === playerId)) return
+
+  const player = state.players.find((p) => p.id === playerId)
+  if (!player || player.eliminated || player.barbarian) return
+
+  state.players = state.players.map((p) =>
+    p.id === playerId ? { ...p, eliminated: true } : p,
+  )
+  state.armies = (state.armies ?? []).filter((a) => a.owner !== playerId)
+  state.heroes = (state.heroes ?? []).filter((h) => h.owner !== playerId)
+
+  recordEvent(state, { type: "PLAYER_ELIMINATED", playerId })
+}
+
+// Hand a settlement over, leaving the old owner's arrangements behind
+function transferSettlement(
+  state: GameState,
+  settlement: Settlement,
+  newOwner: PlayerId,
+  garrison: number,
+): void {
+  const settlementId = settlement.id
+
+  state.settlements = state.settlements.map((s) =>
+    s.id === settlementId
+      ? {
+          ...s,
+          owner: newOwner,
+          population: s.population + garrison,
+          defenders: s.defenders + garrison,
+          // The new owner's policy runs the place until they say otherwise
+          roleMode: undefined,
+          manualRoles: undefined,
+          mercenaries: undefined, // paid by the old owner, so they leave
+          unrestSinceMs: undefined,
+          faithDominatedSinceMs: undefined,
+          apostasyProgress: undefined,
+          // A taken camp settles down; barbarians keep no faith to hold on to
+          camp: undefined,
+          faith: s.camp ? undefined : s.faith,
+        }
+      : s,
+  )
+  state.tiles = state.tiles.map((t) =>
+    t.id === settlement.tileId ? { ...t, controller: newOwner } : t,
+  )
+  // Blessings and curses belonged to the old regime
+  state.buffs = (state.buffs ?? []).filter(
+    (b) => b.settlementId !== settlementId,
+  )
+  // A wonder stays with the settlement, finished or not
+  state.wonders = (state.wonders ?? []).map((w) =>
+    w.settlementId === settlementId ? { ...w, owner: newOwner } : w,
+  )
+}
+
+// Hand a settlement to a new owner; the garrison moves in as defenders
+export function captureSettlement(
+  state: GameState,
+  settlementId: string,
+  newOwner: PlayerId,
+  garrison: number,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement || settlement.owner === newOwner) return
+  const previousOwner = settlement.owner
+
+  transferSettlement(state, settlement, newOwner, garrison)
+  state.players = state.players.map((p) =>
+    p.id === newOwner ? { ...p, victoryPoints: p.victoryPoints + 1 } : p,
+  )
+
+  recordEvent(state, {
+    type: "SETTLEMENT_CAPTURED",
+    settlementId,
+    previousOwner,
+    owner: newOwner,
+  })
+  eliminateIfDefeated(state, previousOwner)
+}
+
+// The settlement throws off its owner and joins newOwner of its own accord
+export function defectSettlement(
+  state: GameState,
+  settlementId: string,
+  newOwner: PlayerId,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement || settlement.owner === newOwner) return
+  const previousOwner = settlement.owner
+
+  transferSettlement(state, settlement, newOwner, 0)
+
+  recordEvent(state, {
+    type: "SETTLEMENT_REVOLTED",
+    settlementId,
+    previousOwner,
+    owner: newOwner,
+  })
+  eliminateIfDefeated(state, previousOwner)
+}
+
+// The settlement's people have taken up newOwner's faith and follow them
+export function convertSettlement(
+  state: GameState,
+  settlementId: string,
+  newOwner: PlayerId,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement || settlement.owner === newOwner) return
+  const previousOwner = settlement.owner
+
+  transferSettlement(state, settlement, newOwner, 0)
+
+  recordEvent(state, {
+    type: "SETTLEMENT_CONVERTED",
+    settlementId,
+    previousOwner,
+    owner: newOwner,
+  })
+  eliminateIfDefeated(state, previousOwner)
+}
+
+// Hand a settlement over in exchange for Gold already paid
+export function annexSettlement(
+  state: GameState,
+  settlementId: string,
+  newOwner: PlayerId,
+  gold: number,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement || settlement.owner === newOwner) return
+  const previousOwner = settlement.owner
+
+  transferSettlement(state, settlement, newOwner, 0)
+
+  recordEvent(state, {
+    type: "SETTLEMENT_ANNEXED",
+    settlementId,
+    previousOwner,
+    owner: newOwner,
+    gold,
+  })
+  eliminateIfDefeated(state, previousOwner)
+}
+
+// Remove a settlement and free its tile
+export function destroySettlement(
+  state: GameState,
+  settlementId: string,
+  razedBy?: PlayerId,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement) return
+
+  state.settlements = state.settlements.filter((s) => s.id !== settlementId)
+  state.tiles = state.tiles.map((t) =>
+    t.id === settlement.tileId
+      ? { ...t, settlementId: undefined, controller: null }
+      : t,
+  )
+  state.buffs = (state.buffs ?? []).filter(
+    (b) => b.settlementId !== settlementId,
+  )
+  state.wonders = (state.wonders ?? []).filter(
+    (w) => w.settlementId !== settlementId,
+  )
+
+  recordEvent(state, {
+    type: "SETTLEMENT_DESTROYED",
+    settlementId,
+    owner: settlement.owner,
+    tileId: settlement.tileId,
+    razedBy,
+  })
+  eliminateIfDefeated(state, settlement.owner)
+}
+
+// Run during TICK: nobody left means the settlement is abandoned
+export function removeEmptySettlements(state: GameState): GameState {
+  const empty = state.settlements.filter((s) => s.population <= 0)
+  for (const settlement of empty) {
+    destroySettlement(state, settlement.id)
+  }
+  return state
+}
@@ -0,0 +1,155 @@
+import type {
+  DiplomaticOffer,
+  GameState,
+  PlayerId,
+  RelationStatus,
+  ResourceCost,
+  Stance,
+  TradeResource,
+  TreatyType,
+} from "./types"
+import { recordEvent } from "./events"
+
+// Treaties and trades between players. Everyone is at war unless a treaty
+// says otherwise; only treaties in force are stored on GameState.
+
+export const RELATION_LABELS: Record<RelationStatus, string> = {
+  WAR: "War",
+  TRUCE: "Truce",
+  ALLIANCE: "Alliance",
+}
+
+const TREATY_PHRASES: Record<TreatyType, string> = {
+  TRUCE: "a truce",
+  ALLIANCE: "an alliance",
+}
+
+export const TRADE_RESOURCES: TradeResource[] = ["Food", "Wood", "Stone", "Gold"]
+
+function isPair(players: [PlayerId, PlayerId], a: PlayerId, b: PlayerId) {
+  return (
+    (players[0] === a && players[1] === b) ||
+    (players[0] === b && players[1] === a)
+  )
+}
+
+export function getRelation(
+  state: GameState,
+  a: PlayerId,
+  b: PlayerId,
+): RelationStatus {
+  if (a === b) return "ALLIANCE"
+  const relation = (state.relations ?? []).find((r) => isPair(r.players, a, b))
+  return relation?.status ?? "WAR"
+}
+
+// Whether a may raid or curse b
+export function areHostile(state: GameState, a: PlayerId, b: PlayerId): boolean {
+  return getRelation(state, a, b) === "WAR"
+}
+
+/**
+ * Put a treaty in force between two players, replacing any existing one.
+ */
+export function signTreaty(
+  state: GameState,
+  a: PlayerId,
+  b: PlayerId,
+  treaty: TreatyType,
+): void {
+  state.relations = [
+    ...(state.relations ?? []).filter((r) => !isPair(r.players, a, b)),
+    {
+      players: [a, b],
+      status: treaty,
+      expiresAtMs:
+        treaty === "TRUCE"
+          ? state.currentTimeMs + state.rules.truceDurationMs
+          : undefined,
+    },
+  ]
+  // Any other treaty proposals between the two are settled now
+  state.offers = (state.offers ?? []).filter(
+    (o) => !(o.kind === "TREATY" && isPair([o.from, o.to], a, b)),
+  )
+
+  recordEvent(state, { type: "TREATY_SIGNED", players: [a, b], treaty })
+}
+
+// End the treaty between two players
+export function endTreaty(
+  state: GameState,
+  a: PlayerId,
+  b: PlayerId,
+  brokenBy?: PlayerId,
+): void {
+  const relation = (state.relations ?? []).find((r) => isPair(r.players, a, b))
+  if (!relation) return
+
+  state.relations = state.relations.filter((r) => r !== relation)
+  recordEvent(state, {
+    type: "TREATY_ENDED",
+    players: relation.players,
+    treaty: relation.status,
+    brokenBy,
+  })
+}
+
+/**
+ * Run during TICK: lapse expired truces and withdraw stale offers.
+ */
+export function expireDiplomacy(state: GameState): GameState {
+  const lapsed = (state.relations ?? []).filter(
+    (r) => r.expiresAtMs !== undefined && r.expiresAtMs <= state.currentTimeMs,
+  )
+  for (const relation of lapsed) {
+    endTreaty(state, relation.players[0], relation.players[1])
+  }
+
+  state.offers = (state.offers ?? []).filter(
+    (o) => o.expiresAtMs > state.currentTimeMs,
+  )
+  return state
+}
+
+// Sum of the amounts in a bundle; every trade resource counts the same
+export function bundleValue(bundle: ResourceCost): number {
+  return Object.values(bundle).reduce((sum, amount) => sum + (amount ?? 0), 0)
+}
+
+/**
+ * How an NPC of the given stance answers an offer. Aggressive deities
+ * refuse peace and drive hard bargains; passive ones take almost anything.
+ */
+export function npcAcceptsOffer(stance: Stance, offer: DiplomaticOffer): boolean {
+  if (offer.kind === "TREATY") return stance !== "AGGRESSIVE"
+
+  // From the NPC's side: it receives `give` and pays `receive`
+  const gained = bundleValue(offer.give)
+  const paid = bundleValue(offer.receive)
+  switch (stance) {
+    case "AGGRESSIVE":
+      return gained >= paid * 1.25
+    case "DEFENSIVE":
+      return gained >= paid
+    case "PASSIVE":
+      return gained >= paid * 0.8
+  }
+}
+
+export function describeOffer(
+  offer: DiplomaticOffer,
+  name: (playerId: PlayerId) => string,
+): string {
+  if (offer.kind === "TREATY") {
+    return `${name(offer.from)} proposes ${TREATY_PHRASES[offer.treaty]} with ${name(offer.to)}`
+  }
+
+  const list = (bundle: ResourceCost) =>
+    (Object.keys(bundle) as TradeResource[])
+      .filter((res) => (bundle[res] ?? 0) > 0)
+      .map((res) => `${bundle[res]} ${res}`)
+      .join(", ") || "nothing"
+
+  return `${name(offer.from)} offers ${list(offer.give)} to ${name(offer.to)} for ${list(offer.receive)}`
+}
@@ -0,0 +1,251 @@
+import type { GameEvent, GameState, PlayerId } from "./types"
+import { nextId } from "./rng"
+import { DEITY_POWER_LABELS, formatCost } from "./rules"
+import { BUILDING_LABELS } from "./buildings"
+import {
+  SEASON_LABELS,
+  WEATHER_ARRIVAL_PHRASES,
+  WEATHER_LABELS,
+} from "./seasons"
+import { WONDER_LABELS } from "./wonders"
+import { HERO_ABILITY_LABELS, HERO_KIND_LABELS } from "./heroes"
+import { TILE_IMPROVEMENT_LABELS } from "./improvements"
+import {
+  describeWorldEvent,
+  describeWorldEventResolution,
+} from "./worldEvents"
+
+// Helpers across the game modules that take a GameState, recordEvent here
+// and the TICK steps among them, write straight into it rather than build a
+// new one. Only hand them the copy the reducer made for the action being
+// applied; the TICK steps also return the state so they can be chained.
+
+// Only the most recent events are kept on GameState so the synced state
+// stays small.
+export const MAX_EVENT_LOG = 100
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never
+
+export type NewGameEvent = DistributiveOmit<GameEvent, "id" | "timeMs">
+
+/**
+ * Append an event stamped with the current logical time.
+ */
+export function recordEvent(state: GameState, event: NewGameEvent): void {
+  const stamped = {
+    ...event,
+    id: nextId(state),
+    timeMs: state.currentTimeMs,
+  } as GameEvent
+
+  state.events = [...(state.events ?? []), stamped].slice(-MAX_EVENT_LOG)
+}
+
+// Whether an event directly concerns the given player
+export function eventInvolvesPlayer(
+  event: GameEvent,
+  playerId: PlayerId,
+): boolean {
+  switch (event.type) {
+    case "SETTLEMENT_FOUNDED":
+    case "SETTLEMENT_UPGRADED":
+    case "BUILDING_CONSTRUCTED":
+    case "BUILDING_DEMOLISHED":
+    case "BUFF_EXPIRED":
+    case "SETTLEMENT_UNREST":
+    case "SETTLEMENT_CALMED":
+    case "ROAD_BUILT":
+    case "TILE_IMPROVED":
+    case "HERO_RECRUITED":
+      return event.owner === playerId
+    case "IMPROVEMENTS_WRECKED":
+      return event.owner === playerId || event.attackerId === playerId
+    case "RAID_RESOLVED":
+    case "ARMY_DISPATCHED":
+      return event.attackerId === playerId || event.defenderId === playerId
+    case "ARMY_INTERCEPTED":
+      return event.attackerId === playerId || event.interceptorId === playerId
+    case "POWER_CAST":
+      return event.casterId === playerId || event.targetOwner === playerId
+    case "HERO_ABILITY_USED":
+      return event.owner === playerId || event.targetOwner === playerId
+    case "FAITH_DOMINATED":
+    case "FAITH_RESTORED":
+      return event.owner === playerId || event.faith === playerId
+    case "STORAGE_FULL":
+    case "STARVATION_STARTED":
+    case "STARVATION_ENDED":
+    case "MARKET_TRADE":
+    case "MERCENARIES_HIRED":
+    case "WAGES_UNPAID":
+    case "WAGES_RESUMED":
+      return event.playerId === playerId
+    case "SETTLEMENT_CAPTURED":
+    case "SETTLEMENT_REVOLTED":
+    case "SETTLEMENT_CONVERTED":
+    case "SETTLEMENT_ANNEXED":
+      return event.owner === playerId || event.previousOwner === playerId
+    case "SETTLEMENT_DESTROYED":
+      return event.owner === playerId || event.razedBy === playerId
+    case "TREATY_SIGNED":
+    case "TREATY_ENDED":
+      return event.players.includes(playerId)
+    case "TRADE_COMPLETED":
+      return event.from === playerId || event.to === playerId
+    case "WORLD_EVENT":
+      return event.playerId === undefined || event.playerId === playerId
+    case "WORLD_EVENT_RESOLVED":
+      return event.playerId === playerId
+    case "PLAYER_ELIMINATED":
+    case "WONDER_STARTED":
+    case "WONDER_STAGE_COMPLETED":
+    case "WONDER_COMPLETED":
+    case "WONDER_SABOTAGED":
+    case "BARBARIAN_CAMP_SPAWNED":
+    case "PHASE_CHANGED":
+    case "SEASON_CHANGED":
+    case "WEATHER_STARTED":
+    case "WEATHER_ENDED":
+      return true
+    default:
+      return false
+  }
+}
+
+export function describeEvent(state: GameState, event: GameEvent): string {
+  const name = (playerId: PlayerId) =>
+    state.players.find((p) => p.id === playerId)?.name ?? playerId
+
+  switch (event.type) {
+    case "SETTLEMENT_FOUNDED":
+      return event.starting
+        ? `${name(event.owner)} settled their first village.`
+        : `${name(event.owner)} founded a new settlement.`
+    case "SETTLEMENT_UPGRADED":
+      return `${name(event.owner)} raised ${event.settlementId} to level ${event.level}.`
+    case "RAID_RESOLVED": {
+      const outcome = event.success
+        ? `broke through, killing ${event.populationLoss} and taking ${
+            formatCost(event.loot) || "nothing"
+          }`
+        : "was repelled"
+      return `${name(event.attackerId)} raided ${name(event.defenderId)} with ${event.raiders} and ${outcome} (losses ${event.attackerLosses}/${event.defenderLosses}).`
+    }
+    case "ARMY_DISPATCHED":
+      return `${name(event.attackerId)} sent ${event.size} raiders from ${event.fromSettlementId} towards ${event.targetSettlementId}.`
+    case "ARMY_INTERCEPTED":
+      return event.destroyed
+        ? `${name(event.interceptorId)} wiped out ${name(event.attackerId)}'s raiders at ${event.tileId}.`
+        : `${name(event.interceptorId)} ambushed ${name(event.attackerId)}'s raiders at ${event.tileId} (losses ${event.attackerLosses}/${event.interceptorLosses}).`
+    case "SETTLEMENT_CAPTURED":
+      return `${name(event.owner)} conquered ${event.settlementId} from ${name(event.previousOwner)}.`
+    case "SETTLEMENT_UNREST":
+      return `Unrest is brewing in ${name(event.owner)}'s ${event.settlementId}.`
+    case "SETTLEMENT_CALMED":
+      return `The unrest in ${name(event.owner)}'s ${event.settlementId} has died down.`
+    case "SETTLEMENT_REVOLTED":
+      return `${event.settlementId} rose up against ${name(event.previousOwner)} and joined the ${name(event.owner)}.`
+    case "FAITH_DOMINATED":
+      return `The faith of ${name(event.faith)} has taken hold in ${name(event.owner)}'s ${event.settlementId}.`
+    case "FAITH_RESTORED":
+      return `${name(event.owner)}'s ${event.settlementId} has turned back from the faith of ${name(event.faith)}.`
+    case "SETTLEMENT_CONVERTED":
+      return `The people of ${event.settlementId} forsook ${name(event.previousOwner)} and now follow ${name(event.owner)}.`
+    case "SETTLEMENT_ANNEXED":
+      return `${name(event.owner)} bought off ${name(event.previousOwner)} in ${event.settlementId} for ${event.gold} Gold.`
+    case "BARBARIAN_CAMP_SPAWNED":
+      return `Barbarians have pitched camp at ${event.tileId}.`
+    case "SETTLEMENT_DESTROYED":
+      return event.razedBy
+        ? `${name(event.razedBy)} razed ${name(event.owner)}'s ${event.settlementId} to the ground.`
+        : `${event.settlementId} was abandoned by ${name(event.owner)}'s last followers.`
+    case "PLAYER_ELIMINATED":
+      return `${name(event.playerId)} has lost every settlement and is eliminated.`
+    case "TREATY_SIGNED":
+      return `${name(event.players[0])} and ${name(event.players[1])} agreed to a ${event.treaty === "TRUCE" ? "truce" : "alliance"}.`
+    case "TREATY_ENDED": {
+      const [a, b] = event.players
+      const treaty = event.treaty === "TRUCE" ? "truce" : "alliance"
+      if (!event.brokenBy) {
+        return `The truce between ${name(a)} and ${name(b)} has run out.`
+      }
+      const other = event.brokenBy === a ? b : a
+      return `${name(event.brokenBy)} broke their ${treaty} with ${name(other)}.`
+    }
+    case "TRADE_COMPLETED":
+      return `${name(event.from)} traded ${formatCost(event.give) || "nothing"} to ${name(event.to)} for ${formatCost(event.receive) || "nothing"}.`
+    case "BUILDING_CONSTRUCTED":
+      return `${name(event.owner)} built a ${BUILDING_LABELS[event.building]} in ${event.settlementId}.`
+    case "BUILDING_DEMOLISHED":
+      return `${name(event.owner)} tore down a ${BUILDING_LABELS[event.building]} in ${event.settlementId}.`
+    case "ROAD_BUILT":
+      return `${name(event.owner)} laid a road through ${event.tileId}.`
+    case "TILE_IMPROVED":
+      return `${name(event.owner)} finished work on ${event.tileId} (${TILE_IMPROVEMENT_LABELS[event.improvement]}).`
+    case "IMPROVEMENTS_WRECKED":
+      return `${name(event.attackerId)}'s raiders wrecked the improvements on ${event.tileIds.join(", ")}.`
+    case "HERO_RECRUITED":
+      return `${name(event.owner)} raised the ${HERO_KIND_LABELS[event.hero].toLowerCase()} ${event.name} in ${event.settlementId}.`
+    case "HERO_ABILITY_USED":
+      switch (event.ability) {
+        case "CONVERT":
+          return `${event.name} of ${name(event.owner)} converted ${event.converts ?? 0} worshippers in ${event.settlementId}.`
+        case "RALLY":
+          return `${event.name} of ${name(event.owner)} rallied the soldiers around ${event.tileId}.`
+        case "FOUND_SHRINE":
+          return `${event.name} of ${name(event.owner)} founded a shrine at ${event.tileId}.`
+        default:
+          return `${event.name} used ${HERO_ABILITY_LABELS[event.ability]}.`
+      }
+    case "WONDER_STARTED":
+      return `${name(event.owner)} laid the foundations of the ${WONDER_LABELS[event.wonder]} in ${event.settlementId}.`
+    case "WONDER_STAGE_COMPLETED":
+      return `${name(event.owner)} finished stage ${event.stage} of the ${WONDER_LABELS[event.wonder]}.`
+    case "WONDER_COMPLETED":
+      return `${name(event.owner)} completed the ${WONDER_LABELS[event.wonder]}!`
+    case "WONDER_SABOTAGED":
+      return `${name(event.attackerId)}'s raiders wrecked part of ${name(event.owner)}'s ${WONDER_LABELS[event.wonder]}.`
+    case "POWER_CAST": {
+      const target = event.settlementId ?? event.tileId ?? "the world"
+      return `${name(event.casterId)} invoked ${DEITY_POWER_LABELS[event.power]} on ${target}.`
+    }
+    case "BUFF_EXPIRED":
+      return `${DEITY_POWER_LABELS[event.power]} faded from ${event.settlementId}.`
+    case "WORLD_EVENT":
+      return describeWorldEvent(event, name)
+    case "WORLD_EVENT_RESOLVED":
+      return describeWorldEventResolution(event, name)
+    case "SEASON_CHANGED":
+      return `${SEASON_LABELS[event.season]} has come.`
+    case "WEATHER_STARTED":
+      return `${WEATHER_ARRIVAL_PHRASES[event.weather]} the lands around ${event.tileId}.`
+    case "WEATHER_ENDED":
+      return `The ${WEATHER_LABELS[event.weather].toLowerCase()} around ${event.tileId} has passed.`
+    case "MARKET_TRADE":
+      return event.side === "BUY"
+        ? `${name(event.playerId)} bought ${event.amount} ${event.resource} for ${event.gold} Gold.`
+        : `${name(event.playerId)} sold ${event.amount} ${event.resource} for ${event.gold} Gold.`
+    case "MERCENARIES_HIRED":
+      return `${name(event.playerId)} hired ${event.count} mercenaries to guard ${event.settlementId}.`
+    case "WAGES_UNPAID":
+      return event.deserted > 0
+        ? `${name(event.playerId)} can't pay their soldiers; ${event.deserted} mercenaries deserted.`
+        : `${name(event.playerId)} can't pay their soldiers.`
+    case "WAGES_RESUMED":
+      return `${name(event.playerId)}'s soldiers are paid again.`
+    case "STORAGE_FULL":
+      return `${name(event.playerId)}'s ${event.resource} stores are full at ${Math.floor(event.capacity)}; anything more is lost.`
+    case "STARVATION_STARTED":
+      return `${name(event.playerId)}'s people are starving.`
+    case "STARVATION_ENDED":
+      return `${name(event.playerId)}'s granaries are full again.`
+    case "PHASE_CHANGED":
+      return event.to === "GAME_OVER" && event.winnerId
+        ? `The age ends: ${name(event.winnerId)} is victorious.`
+        : `The game moved from ${event.from} to ${event.to}.`
+    default:
+      return "Something happened."
+  }
+}
@@ -0,0 +1,237 @@
+import type { FaithRules, GameState, PlayerId, Settlement } from "./types"
+import {
+  findSettlementById,
+  findTileById,
+  getPlayer,
+  hexDistance,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { getBuildingEffects } from "./buildings"
+import { getPowerModifiers } from "./powers"
+import { getRelation } from "./diplomacy"
+import { convertSettlement } from "./conquest"
+
+// Worshippers preach to everyone around them. Each settlement has a faith
+// composition, the share of its people following each deity, which drifts
+// towards the mix of worshipper pressure within rules.faith.pressureRadius.
+// When a rival faith dominates, the settlement works and prays less, its
+// worshippers drift off to the rival, and if nothing turns the tide it
+// changes deity altogether.
+
+export type FaithShares = Partial<Record<PlayerId, number>>
+
+// Faiths that have all but died out in a settlement are dropped
+const MIN_FAITH_SHARE = 0.01
+
+export function getFaithShares(settlement: Settlement): FaithShares {
+  return settlement.faith ?? { [settlement.owner]: 1 }
+}
+
+// The rival deity whose faith dominates the settlement, if any
+export function getDominantRivalFaith(
+  rules: FaithRules,
+  settlement: Settlement,
+): PlayerId | undefined {
+  const shares = getFaithShares(settlement)
+  const own = shares[settlement.owner] ?? 0
+
+  let rival: PlayerId | undefined
+  let best = 0
+  for (const [deity, share] of Object.entries(shares)) {
+    if (deity === settlement.owner || share === undefined) continue
+    if (share > best) {
+      rival = deity
+      best = share
+    }
+  }
+  return rival && best >= rules.dominanceShare && best > own ? rival : undefined
+}
+
+// Multiplier on worker and worshipper output
+export function getFaithYieldFactor(
+  rules: FaithRules,
+  settlement: Settlement,
+): number {
+  return getDominantRivalFaith(rules, settlement)
+    ? rules.dominatedYieldMultiplier
+    : 1
+}
+
+// Pressure each deity's worshippers put on the settlement; temples and
+// Inspired Worship make them preach harder
+export function getFaithPressure(
+  state: GameState,
+  settlement: Settlement,
+): FaithShares {
+  const rules = state.rules.faith
+  const pressure: FaithShares = {}
+  const tile = findTileById(state, settlement.tileId)
+  if (!tile) return pressure
+
+  for (const source of state.settlements) {
+    if (source.worshippers <= 0) continue
+    const sourceTile = findTileById(state, source.tileId)
+    if (!sourceTile) continue
+    const distance = hexDistance(tile.coord, sourceTile.coord)
+    if (distance > rules.pressureRadius) continue
+
+    const strength =
+      (source.worshippers *
+        getBuildingEffects(state.rules, source).worshipperMultiplier *
+        getPowerModifiers(state, source.id).worshipperMultiplier) /
+      (1 + distance * rules.distanceFalloff)
+    pressure[source.owner] = (pressure[source.owner] ?? 0) + strength
+  }
+  return pressure
+}
+
+/**
+ * Move worshippers out of a settlement into the deity's settlement nearest
+ * to it; with none left they are simply lost. Returns how many left.
+ */
+export function transferWorshippers(
+  state: GameState,
+  fromSettlementId: string,
+  toOwner: PlayerId,
+  count: number,
+): number {
+  const source = findSettlementById(state, fromSettlementId)
+  const sourceTile = source && findTileById(state, source.tileId)
+  if (!source || !sourceTile) return 0
+  const moved = Math.min(count, source.worshippers)
+  if (moved <= 0) return 0
+
+  let home: { id: string; distance: number } | null = null
+  for (const s of state.settlements) {
+    if (s.owner !== toOwner) continue
+    const tile = findTileById(state, s.tileId)
+    if (!tile) continue
+    const distance = hexDistance(tile.coord, sourceTile.coord)
+    if (!home || distance < home.distance) home = { id: s.id, distance }
+  }
+
+  state.settlements = state.settlements.map((s) => {
+    if (s.id === source.id) {
+      return {
+        ...s,
+        population: s.population - moved,
+        worshippers: s.worshippers - moved,
+      }
+    }
+    if (s.id === home?.id) {
+      return {
+        ...s,
+        population: s.population + moved,
+        worshippers: s.worshippers + moved,
+      }
+    }
+    return s
+  })
+
+  return moved
+}
+
+/**
+ * Run during TICK: drift every settlement's faith towards the pressure
+ * around it, let dominant rival faiths draw worshippers away and hand over
+ * settlements dominated for rules.faith.conversionDelayMs. Allies never win
+ * each other's settlements this way.
+ */
+export function spreadFaith(state: GameState, seconds: number): GameState {
+  const rules = state.rules.faith
+  const rate = Math.min(1, rules.driftPerSecond * seconds)
+  const apostates: { settlementId: string; deity: PlayerId; count: number }[] = []
+  const converting: { settlementId: string; deity: PlayerId }[] = []
+
+  const pressures = new Map(
+    state.settlements.map((s) => [s.id, getFaithPressure(state, s)]),
+  )
+
+  state.settlements = state.settlements.map((s) => {
+    const pressure = pressures.get(s.id) ?? {}
+    const total = Object.values(pressure).reduce<number>(
+      (sum, n) => sum + (n ?? 0),
+      0,
+    )
+
+    let faith = getFaithShares(s)
+    if (total > 0) {
+      const current = faith
+      const deities = new Set([...Object.keys(current), ...Object.keys(pressure)])
+      const drifted: FaithShares = {}
+      let kept = 0
+      for (const deity of deities) {
+        const share = current[deity] ?? 0
+        const moved = share + ((pressure[deity] ?? 0) / total - share) * rate
+        if (moved < MIN_FAITH_SHARE) continue
+        drifted[deity] = moved
+        kept += moved
+      }
+      faith = {}
+      for (const [deity, share] of Object.entries(drifted)) {
+        faith[deity] = (share ?? 0) / kept
+      }
+    }
+
+    const next: Settlement = { ...s, faith }
+    const rival = getDominantRivalFaith(rules, next)
+
+    if (!rival) {
+      if (s.faithDominatedSinceMs !== undefined) {
+        recordEvent(state, {
+          type: "FAITH_RESTORED",
+          settlementId: s.id,
+          owner: s.owner,
+          faith: getDominantRivalFaith(rules, s) ?? s.owner,
+        })
+      }
+      return {
+        ...next,
+        faithDominatedSinceMs: undefined,
+        apostasyProgress: undefined,
+      }
+    }
+
+    let dominatedSinceMs = s.faithDominatedSinceMs
+    if (dominatedSinceMs === undefined) {
+      dominatedSinceMs = state.currentTimeMs
+      recordEvent(state, {
+        type: "FAITH_DOMINATED",
+        settlementId: s.id,
+        owner: s.owner,
+        faith: rival,
+      })
+    } else if (state.currentTimeMs - dominatedSinceMs >= rules.conversionDelayMs) {
+      const deity = getPlayer(state, rival)
+      if (
+        deity &&
+        !deity.eliminated &&
+        getRelation(state, s.owner, rival) !== "ALLIANCE"
+      ) {
+        converting.push({ settlementId: s.id, deity: rival })
+      }
+    }
+
+    // Nobody left to lose means nothing builds up
+    let apostasyProgress =
+      s.worshippers > 0
+        ? (s.apostasyProgress ?? 0) + rules.apostasyPerSecond * seconds
+        : 0
+    if (apostasyProgress >= 1) {
+      const count = Math.floor(apostasyProgress)
+      apostasyProgress -= count
+      apostates.push({ settlementId: s.id, deity: rival, count })
+    }
+
+    return { ...next, faithDominatedSinceMs: dominatedSinceMs, apostasyProgress }
+  })
+
+  for (const { settlementId, deity, count } of apostates) {
+    transferWorshippers(state, settlementId, deity, count)
+  }
+  for (const { settlementId, deity } of converting) {
+    convertSettlement(state, settlementId, deity)
+  }
+
+  return state
+}
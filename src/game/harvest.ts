@@ -0,0 +1,127 @@
+import type {
+  GameState,
+  ResourceType,
+  Settlement,
+  Tile,
+} from "./types"
+import { emptyResourceRecord, findTileById, hexDistance } from "./helpers"
+import { getSettlementInfluenceRadius } from "./rules"
+import { getTileYields } from "./improvements"
+
+// Workers harvest the tiles around their settlement. A settlement works the
+// tiles within its influence radius that its owner controls; where the radii
+// of several settlements of the same owner overlap, the closest settlement
+// works the tile (ties go to the older settlement).
+
+export interface WorkedTile {
+  tile: Tile
+  workers: number
+}
+
+export interface SettlementHarvest {
+  tiles: WorkedTile[]
+  surplusWorkers: number // workers with no tile left to work
+  yields: Record<ResourceType, number> // per second, before multipliers
+}
+
+// Tiles each settlement may work, keyed by settlement id
+export function assignHarvestTiles(state: GameState): Record<string, Tile[]> {
+  const result: Record<string, Tile[]> = {}
+  const homes = state.settlements
+    .map((settlement) => ({
+      settlement,
+      home: findTileById(state, settlement.tileId),
+      radius: getSettlementInfluenceRadius(state.rules, settlement),
+    }))
+    .filter((entry) => !!entry.home)
+
+  for (const { settlement } of homes) {
+    result[settlement.id] = []
+  }
+
+  for (const tile of state.tiles) {
+    if (!tile.controller) continue
+
+    let best: Settlement | null = null
+    let bestDist = Infinity
+    for (const { settlement, home, radius } of homes) {
+      if (settlement.owner !== tile.controller) continue
+      const dist = hexDistance(home!.coord, tile.coord)
+      if (dist <= radius && dist < bestDist) {
+        best = settlement
+        bestDist = dist
+      }
+    }
+
+    if (best) result[best.id].push(tile)
+  }
+
+  return result
+}
+
+function tileValue(state: GameState, tile: Tile): number {
+  const yields = getTileYields(state.rules, tile)
+  return Object.values(yields).reduce((sum, amount) => sum + (amount ?? 0), 0)
+}
+
+// Best tile of each terrain, and then every other tile, richest first
+function rankTiles(state: GameState, tiles: Tile[]): [Tile[], Tile[]] {
+  const byValue = [...tiles].sort(
+    (a, b) => tileValue(state, b) - tileValue(state, a),
+  )
+  const seen = new Set<string>()
+  const firsts: Tile[] = []
+  const rest: Tile[] = []
+
+  for (const tile of byValue) {
+    if (seen.has(tile.terrain)) {
+      rest.push(tile)
+    } else {
+      seen.add(tile.terrain)
+      firsts.push(tile)
+    }
+  }
+
+  return [firsts, rest]
+}
+
+/**
+ * Put a settlement's workers on its tiles, up to rules.workersPerTile each,
+ * and total up what they gather per second. Workers are dealt out one at a
+ * time over the best tile of every terrain before spilling onto the rest,
+ * so a settlement gathers a bit of everything around it.
+ */
+export function computeSettlementHarvest(
+  state: GameState,
+  settlement: Settlement,
+  tiles: Tile[],
+): SettlementHarvest {
+  const { workersPerTile, surplusWorkerYield } = state.rules
+  const yields = emptyResourceRecord()
+  const workersByTile = new Map<Tile, number>()
+
+  let remaining = settlement.workers
+  for (const group of rankTiles(state, tiles)) {
+    for (let round = 0; round < workersPerTile; round++) {
+      for (const tile of group) {
+        if (remaining <= 0) break
+        workersByTile.set(tile, (workersByTile.get(tile) ?? 0) + 1)
+        remaining -= 1
+      }
+    }
+  }
+
+  const worked: WorkedTile[] = [...workersByTile].map(([tile, workers]) => {
+    const tileYields = getTileYields(state.rules, tile)
+    ;(Object.keys(tileYields) as ResourceType[]).forEach((res) => {
+      yields[res] += (tileYields[res] ?? 0) * workers
+    })
+    return { tile, workers }
+  })
+
+  ;(Object.keys(surplusWorkerYield) as ResourceType[]).forEach((res) => {
+    yields[res] += (surplusWorkerYield[res] ?? 0) * remaining
+  })
+
+  return { tiles: worked, surplusWorkers: remaining, yields }
+}
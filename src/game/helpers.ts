@@ -0,0 +1,121 @@
+import type {
+  GameState,
+  HexCoord,
+  Player,
+  PlayerId,
+  ResourceType,
+  Settlement,
+  Tile,
+} from "./types"
+
+// Shared read-only queries over GameState used by the reducer and the
+// subsystems that hang off TICK.
+
+export function getPlayer(
+  state: GameState,
+  playerId: PlayerId,
+): Player | undefined {
+  return state.players.find((p) => p.id === playerId)
+}
+
+export function countSettlementsForPlayer(
+  state: GameState,
+  playerId: PlayerId,
+): number {
+  return state.settlements.filter((s) => s.owner === playerId).length
+}
+
+export function playerHasSettlement(
+  state: GameState,
+  playerId: PlayerId,
+): boolean {
+  return state.settlements.some((s) => s.owner === playerId)
+}
+
+export function findTileById(
+  state: GameState,
+  tileId: string,
+): Tile | undefined {
+  return state.tiles.find((t) => t.id === tileId)
+}
+
+export function findSettlementById(
+  state: GameState,
+  settlementId: string,
+): Settlement | undefined {
+  return state.settlements.find((s) => s.id === settlementId)
+}
+
+export function hexDistance(a: HexCoord, b: HexCoord): number {
+  const ax = a.q
+  const az = a.r
+  const ay = -ax - az
+
+  const bx = b.q
+  const bz = b.r
+  const by = -bx - bz
+
+  return Math.max(Math.abs(ax - bx), Math.abs(ay - by), Math.abs(az - bz))
+}
+
+const HEX_DIRECTIONS: HexCoord[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 },
+]
+
+export function hexNeighbors(coord: HexCoord): HexCoord[] {
+  return HEX_DIRECTIONS.map((d) => ({ q: coord.q + d.q, r: coord.r + d.r }))
+}
+
+export function tileIdForCoord(coord: HexCoord): string {
+  return `tile_${coord.q}_${coord.r}`
+}
+
+// Count controlled tiles per player
+export function countControlledTiles(
+  state: GameState,
+): Record<PlayerId, number> {
+  const result: Record<PlayerId, number> = {}
+
+  for (const player of state.players) {
+    result[player.id] = 0
+  }
+
+  for (const tile of state.tiles) {
+    const owner = tile.controller
+    if (!owner) continue
+    if (result[owner] == null) {
+      result[owner] = 0
+    }
+    result[owner] += 1
+  }
+
+  return result
+}
+
+export function emptyResourceRecord(): Record<ResourceType, number> {
+  return {
+    Food: 0,
+    Wood: 0,
+    Stone: 0,
+    Gold: 0,
+    Belief: 0,
+  }
+}
+
+export function subtractResources(
+  base: Record<ResourceType, number>,
+  cost: Partial<Record<ResourceType, number>>,
+): Record<ResourceType, number> {
+  const next: Record<ResourceType, number> = { ...base }
+  ;(Object.keys(cost) as ResourceType[]).forEach((res) => {
+    const c = cost[res] ?? 0
+    const current = next[res] ?? 0
+    next[res] = Math.max(0, current - c)
+  })
+  return next
+}
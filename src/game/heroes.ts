@@ -0,0 +1,282 @@
+import type {
+  GameState,
+  Hero,
+  HeroAbility,
+  HeroKind,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+} from "./types"
+import {
+  findSettlementById,
+  findTileById,
+  hexDistance,
+  subtractResources,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { nextId, pickRandom } from "./rng"
+import { findArmyPath, scheduleMarch } from "./armies"
+import { transferWorshippers } from "./faith"
+
+// Heroes are named units that walk the map on their own. A prophet is
+// raised from one of a settlement's worshippers, a champion from one of its
+// defenders. They move like armies but never fight; instead each kind has
+// abilities with their own cooldowns. Prophets win over the worshippers of
+// nearby rival settlements and found shrines, champions rally the soldiers
+// of nearby settlements.
+
+export const HERO_KIND_LABELS: Record<HeroKind, string> = {
+  PROPHET: "Prophet",
+  CHAMPION: "Champion",
+}
+
+export const HERO_ABILITY_LABELS: Record<HeroAbility, string> = {
+  CONVERT: "Convert",
+  RALLY: "Rally",
+  FOUND_SHRINE: "Found Shrine",
+}
+
+export const HERO_ABILITIES: Record<HeroKind, HeroAbility[]> = {
+  PROPHET: ["CONVERT", "FOUND_SHRINE"],
+  CHAMPION: ["RALLY"],
+}
+
+const HERO_NAMES: Record<HeroKind, string[]> = {
+  PROPHET: ["Anwe", "Bastel", "Corvina", "Derrow", "Esmé", "Ilfan", "Orsa"],
+  CHAMPION: ["Brannoc", "Hild", "Kaelith", "Mordan", "Ryn", "Taveth", "Ulric"],
+}
+
+// The tile the hero is standing on at the given time
+export function getHeroTileId(hero: Hero, nowMs: number): string {
+  if (!hero.path || !hero.stepTimesMs) return hero.tileId
+  let index = 0
+  hero.stepTimesMs.forEach((time, i) => {
+    if (time <= nowMs) index = i
+  })
+  return hero.path[index]
+}
+
+export function getHeroAbilityCooldownRemaining(
+  state: GameState,
+  hero: Hero,
+  ability: HeroAbility,
+): number {
+  const readyAt = hero.abilityCooldowns?.[ability] ?? 0
+  return Math.max(0, readyAt - state.currentTimeMs)
+}
+
+// Multiplier on the strength of soldiers fighting for a settlement of the
+// player on this tile: one rallying champion nearby is enough
+export function getRallyMultiplier(
+  state: GameState,
+  playerId: PlayerId,
+  tileId: string,
+): number {
+  const tile = findTileById(state, tileId)
+  if (!tile) return 1
+
+  const rallying = (state.heroes ?? []).some((hero) => {
+    if (hero.owner !== playerId) return false
+    if ((hero.rallyUntilMs ?? 0) <= state.currentTimeMs) return false
+    const heroTile = findTileById(state, getHeroTileId(hero, state.currentTimeMs))
+    return (
+      !!heroTile &&
+      hexDistance(heroTile.coord, tile.coord) <= state.rules.heroes.abilityRange
+    )
+  })
+  return rallying ? state.rules.heroes.abilities.RALLY.magnitude : 1
+}
+
+function adjustResources(
+  state: GameState,
+  playerId: PlayerId,
+  gained: ResourceCost,
+  paid: ResourceCost,
+): void {
+  state.players = state.players.map((p) => {
+    if (p.id !== playerId) return p
+    const newResources = subtractResources(p.resources, paid)
+    ;(Object.keys(gained) as ResourceType[]).forEach((res) => {
+      newResources[res] = (newResources[res] ?? 0) + (gained[res] ?? 0)
+    })
+    const newBelief = newResources.Belief ?? 0
+    return {
+      ...p,
+      resources: newResources,
+      belief: newBelief,
+      maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
+    }
+  })
+}
+
+/**
+ * Raise a hero from one of the settlement's worshippers or defenders.
+ */
+export function recruitHero(
+  state: GameState,
+  settlementId: string,
+  kind: HeroKind,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement) return
+
+  adjustResources(state, settlement.owner, {}, state.rules.heroes.cost[kind])
+  state.settlements = state.settlements.map((s) =>
+    s.id === settlementId
+      ? {
+          ...s,
+          population: s.population - 1,
+          worshippers: s.worshippers - (kind === "PROPHET" ? 1 : 0),
+          defenders: s.defenders - (kind === "CHAMPION" ? 1 : 0),
+        }
+      : s,
+  )
+
+  // Names are unique while their bearers live, as long as any are left
+  const taken = new Set((state.heroes ?? []).map((h) => h.name))
+  const free = HERO_NAMES[kind].filter((n) => !taken.has(n))
+  const hero: Hero = {
+    id: nextId(state),
+    name: pickRandom(state, free.length > 0 ? free : HERO_NAMES[kind]),
+    kind,
+    owner: settlement.owner,
+    tileId: settlement.tileId,
+  }
+  state.heroes = [...(state.heroes ?? []), hero]
+
+  recordEvent(state, {
+    type: "HERO_RECRUITED",
+    heroId: hero.id,
+    hero: kind,
+    name: hero.name,
+    owner: hero.owner,
+    settlementId,
+  })
+}
+
+/**
+ * Send the hero off towards a tile along the army route, from wherever it
+ * is now.
+ */
+export function moveHero(state: GameState, heroId: string, tileId: string): void {
+  const hero = (state.heroes ?? []).find((h) => h.id === heroId)
+  if (!hero) return
+
+  const path = findArmyPath(
+    state,
+    getHeroTileId(hero, state.currentTimeMs),
+    tileId,
+  )
+  if (!path) return
+
+  state.heroes = state.heroes.map((h) =>
+    h.id === heroId
+      ? path.length > 1
+        ? {
+            ...h,
+            tileId,
+            path,
+            stepTimesMs: scheduleMarch(state, path, state.currentTimeMs),
+          }
+        : { ...h, tileId, path: undefined, stepTimesMs: undefined }
+      : h,
+  )
+}
+
+// Worshippers of the target join the prophet's nearest settlement
+function convertWorshippers(
+  state: GameState,
+  hero: Hero,
+  settlementId: string,
+): number {
+  const target = findSettlementById(state, settlementId)
+  if (!target) return 0
+
+  const share = state.rules.heroes.abilities.CONVERT.magnitude
+  const converts = Math.max(1, Math.floor(target.worshippers * share))
+  return transferWorshippers(state, settlementId, hero.owner, converts)
+}
+
+/**
+ * Carry out a hero's ability and start its cooldown.
+ */
+export function performHeroAbility(
+  state: GameState,
+  heroId: string,
+  ability: HeroAbility,
+  settlementId?: string,
+): void {
+  const hero = (state.heroes ?? []).find((h) => h.id === heroId)
+  if (!hero) return
+
+  const rules = state.rules.heroes.abilities[ability]
+  const tileId = getHeroTileId(hero, state.currentTimeMs)
+  const target = settlementId ? findSettlementById(state, settlementId) : undefined
+  let converts: number | undefined
+  let rallyUntilMs = hero.rallyUntilMs
+
+  switch (ability) {
+    case "CONVERT":
+      if (settlementId) converts = convertWorshippers(state, hero, settlementId)
+      break
+    case "RALLY":
+      rallyUntilMs = state.currentTimeMs + (rules.durationMs ?? 0)
+      break
+    case "FOUND_SHRINE":
+      adjustResources(state, hero.owner, {}, rules.cost ?? {})
+      state.tiles = state.tiles.map((t) =>
+        t.id === tileId ? { ...t, shrine: true } : t,
+      )
+      break
+  }
+
+  state.heroes = state.heroes.map((h) =>
+    h.id === heroId
+      ? {
+          ...h,
+          rallyUntilMs,
+          abilityCooldowns: {
+            ...h.abilityCooldowns,
+            [ability]: state.currentTimeMs + rules.cooldownMs,
+          },
+        }
+      : h,
+  )
+
+  recordEvent(state, {
+    type: "HERO_ABILITY_USED",
+    heroId,
+    name: hero.name,
+    owner: hero.owner,
+    ability,
+    tileId,
+    settlementId,
+    targetOwner: target?.owner,
+    converts,
+  })
+}
+
+/**
+ * Run during TICK: heroes that reached the end of their route stand there,
+ * and every shrine earns Belief for whoever controls its tile.
+ */
+export function advanceHeroes(state: GameState, seconds: number): GameState {
+  state.heroes = (state.heroes ?? []).map((hero) => {
+    const arrival = hero.stepTimesMs?.[hero.stepTimesMs.length - 1]
+    if (arrival === undefined || arrival > state.currentTimeMs) return hero
+    return { ...hero, path: undefined, stepTimesMs: undefined }
+  })
+
+  const belief: Record<PlayerId, number> = {}
+  for (const tile of state.tiles) {
+    if (!tile.shrine || !tile.controller) continue
+    belief[tile.controller] =
+      (belief[tile.controller] ?? 0) +
+      state.rules.heroes.shrineBeliefPerSecond * seconds
+  }
+  for (const [playerId, amount] of Object.entries(belief)) {
+    adjustResources(state, playerId, { Belief: amount }, {})
+  }
+
+  return state
+}
@@ -0,0 +1,204 @@
+import type {
+  GameRules,
+  GameState,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+  Tile,
+  TileImprovementType,
+} from "./types"
+import {
+  findSettlementById,
+  findTileById,
+  hexDistance,
+  subtractResources,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { getSettlementInfluenceRadius } from "./rules"
+
+// Players improve the tiles they control. Each improvement suits one
+// terrain and takes a while to finish: clearing a forest turns it into
+// Field and yields its timber, irrigation turns Field into FertileField,
+// and mines and fisheries add to what the workers on their tile gather.
+// Standing improvements serve whoever controls the tile until a successful
+// plunder wrecks them; wrecked irrigation leaves the land a plain Field
+// again.
+
+export const TILE_IMPROVEMENT_TYPES: TileImprovementType[] = [
+  "CLEAR_FOREST",
+  "IRRIGATION",
+  "MINE",
+  "FISHERY",
+]
+
+export const TILE_IMPROVEMENT_LABELS: Record<TileImprovementType, string> = {
+  CLEAR_FOREST: "Clear Forest",
+  IRRIGATION: "Irrigation",
+  MINE: "Mine",
+  FISHERY: "Fishery",
+}
+
+export function isImprovementBuilt(tile: Tile): boolean {
+  return !!tile.improvement && tile.improvement.completesAtMs === undefined
+}
+
+// The improvement that can be started on the tile's terrain, if any
+export function getImprovementForTerrain(
+  rules: GameRules,
+  tile: Tile,
+): TileImprovementType | undefined {
+  return TILE_IMPROVEMENT_TYPES.find(
+    (type) => rules.improvements.definitions[type].terrain === tile.terrain,
+  )
+}
+
+// What one worker gathers on the tile per second, its improvement included
+export function getTileYields(rules: GameRules, tile: Tile): ResourceCost {
+  const yields: ResourceCost = { ...rules.terrainYields[tile.terrain] }
+  if (!tile.improvement || !isImprovementBuilt(tile)) return yields
+
+  const extra = rules.improvements.definitions[tile.improvement.type].yields ?? {}
+  ;(Object.keys(extra) as ResourceType[]).forEach((res) => {
+    yields[res] = (yields[res] ?? 0) + (extra[res] ?? 0)
+  })
+  return yields
+}
+
+/**
+ * Pay for an improvement and start work on the tile.
+ */
+export function startImprovement(
+  state: GameState,
+  playerId: PlayerId,
+  tileId: string,
+  type: TileImprovementType,
+): void {
+  const definition = state.rules.improvements.definitions[type]
+
+  state.players = state.players.map((p) =>
+    p.id === playerId
+      ? { ...p, resources: subtractResources(p.resources, definition.cost) }
+      : p,
+  )
+  state.tiles = state.tiles.map((t) =>
+    t.id === tileId
+      ? {
+          ...t,
+          improvement: {
+            type,
+            owner: playerId,
+            completesAtMs: state.currentTimeMs + definition.buildMs,
+          },
+        }
+      : t,
+  )
+}
+
+/**
+ * Run during TICK: finish the works that are due and abandon those whose
+ * builder lost the tile or whose terrain changed under them.
+ */
+export function advanceImprovements(state: GameState): GameState {
+  const finished: { tile: Tile; owner: PlayerId; type: TileImprovementType }[] =
+    []
+
+  state.tiles = state.tiles.map((tile) => {
+    const work = tile.improvement
+    if (!work || work.completesAtMs === undefined) return tile
+
+    const definition = state.rules.improvements.definitions[work.type]
+    // Land already turned into what the work was for is finished as planned
+    const terrainKept =
+      tile.terrain === definition.terrain || tile.terrain === definition.becomes
+    if (tile.controller !== work.owner || !terrainKept) {
+      return { ...tile, improvement: undefined }
+    }
+    if (work.completesAtMs > state.currentTimeMs) return tile
+
+    const improved: Tile = {
+      ...tile,
+      terrain: definition.becomes ?? tile.terrain,
+      improvement: definition.consumed
+        ? undefined
+        : { type: work.type, owner: work.owner },
+    }
+    finished.push({ tile: improved, owner: work.owner, type: work.type })
+    return improved
+  })
+
+  for (const { tile, owner, type } of finished) {
+    const harvest = state.rules.improvements.definitions[type].harvest ?? {}
+    state.players = state.players.map((p) => {
+      if (p.id !== owner) return p
+      const resources = { ...p.resources }
+      ;(Object.keys(harvest) as ResourceType[]).forEach((res) => {
+        resources[res] = (resources[res] ?? 0) + (harvest[res] ?? 0)
+      })
+      const belief = resources.Belief ?? 0
+      return {
+        ...p,
+        resources,
+        belief,
+        maxBeliefEver: Math.max(p.maxBeliefEver, belief),
+      }
+    })
+
+    recordEvent(state, {
+      type: "TILE_IMPROVED",
+      owner,
+      tileId: tile.id,
+      improvement: type,
+    })
+  }
+
+  return state
+}
+
+/**
+ * Wreck up to rules.improvements.wreckedPerRaid improvements, standing or
+ * under way, on the plundered settlement's tiles, nearest first.
+ */
+export function wreckImprovements(
+  state: GameState,
+  settlementId: string,
+  attackerId: PlayerId,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  const home = settlement && findTileById(state, settlement.tileId)
+  if (!settlement || !home) return
+
+  const radius = getSettlementInfluenceRadius(state.rules, settlement)
+  const wrecked = state.tiles
+    .filter(
+      (t) =>
+        !!t.improvement &&
+        t.controller === settlement.owner &&
+        hexDistance(t.coord, home.coord) <= radius,
+    )
+    .sort(
+      (a, b) => hexDistance(a.coord, home.coord) - hexDistance(b.coord, home.coord),
+    )
+    .slice(0, state.rules.improvements.wreckedPerRaid)
+    .map((t) => t.id)
+  if (wrecked.length === 0) return
+
+  const definitions = state.rules.improvements.definitions
+  state.tiles = state.tiles.map((t) => {
+    if (!t.improvement || !wrecked.includes(t.id)) return t
+    const definition = definitions[t.improvement.type]
+    const undone = isImprovementBuilt(t) && definition.becomes !== undefined
+    return {
+      ...t,
+      terrain: undone ? definition.terrain : t.terrain,
+      improvement: undefined,
+    }
+  })
+
+  recordEvent(state, {
+    type: "IMPROVEMENTS_WRECKED",
+    settlementId,
+    owner: settlement.owner,
+    attackerId,
+    tileIds: wrecked,
+  })
+}
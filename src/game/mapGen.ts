@@ -0,0 +1,396 @@
+import type {
+  HexCoord,
+  LandTerrainType,
+  MapGenOptions,
+  MapShape,
+  TerrainType,
+  Tile,
+} from "./types"
+import { hexDistance, hexNeighbors, tileIdForCoord } from "./helpers"
+import { hashToUnit } from "./rng"
+
+export const DEFAULT_MAP_OPTIONS: MapGenOptions = {
+  radius: 3,
+  shape: "hexagon",
+  terrainWeights: {
+    Field: 25,
+    FertileField: 15,
+    Forest: 25,
+    Mountain: 20,
+  },
+  waterRatio: 0.15,
+}
+
+export type MapSize = "small" | "medium" | "large"
+
+// Radius per lobby map size
+export const MAP_SIZE_RADIUS: Record<MapSize, number> = {
+  small: 3,
+  medium: 5,
+  large: 7,
+}
+
+export interface GeneratedMap {
+  tiles: Tile[]
+  startingTileIds: string[]
+}
+
+const ORIGIN: HexCoord = { q: 0, r: 0 }
+
+function shapeCoords(shape: MapShape, radius: number): HexCoord[] {
+  const coords: HexCoord[] = []
+
+  for (let q = -radius; q <= radius; q++) {
+    for (let r = -radius; r <= radius; r++) {
+      // The rectangle keeps every (q, r) pair, which HexBoard lays out as a
+      // rectangle; the other shapes are cut to a hexagon.
+      if (shape !== "rectangle" && Math.abs(q + r) > radius) continue
+      coords.push({ q, r })
+    }
+  }
+
+  return coords
+}
+
+// Smooth value noise sampled at hex centres, two octaves, in [0, 1)
+function sampleNoise(seed: number, coord: HexCoord, scale: number): number {
+  const x = (coord.q + coord.r / 2) / scale
+  const y = ((coord.r * Math.sqrt(3)) / 2) / scale
+
+  const octave = (octaveSeed: number, ox: number, oy: number) => {
+    const x0 = Math.floor(ox)
+    const y0 = Math.floor(oy)
+    const fx = ox - x0
+    const fy = oy - y0
+    const sx = fx * fx * (3 - 2 * fx)
+    const sy = fy * fy * (3 - 2 * fy)
+
+    const v00 = hashToUnit(octaveSeed, x0, y0)
+    const v10 = hashToUnit(octaveSeed, x0 + 1, y0)
+    const v01 = hashToUnit(octaveSeed, x0, y0 + 1)
+    const v11 = hashToUnit(octaveSeed, x0 + 1, y0 + 1)
+
+    const top = v00 + (v10 - v00) * sx
+    const bottom = v01 + (v11 - v01) * sx
+    return top + (bottom - top) * sy
+  }
+
+  return (
+    octave(seed, x, y) * 0.7 + octave(seed ^ 0x5bd1e995, x * 2, y * 2) * 0.3
+  )
+}
+
+function hexRound(q: number, r: number): HexCoord {
+  const s = -q - r
+  let rq = Math.round(q)
+  let rr = Math.round(r)
+  const rs = Math.round(s)
+
+  const dq = Math.abs(rq - q)
+  const dr = Math.abs(rr - r)
+  const ds = Math.abs(rs - s)
+
+  if (dq > dr && dq > ds) {
+    rq = -rr - rs
+  } else if (dr > ds) {
+    rr = -rq - rs
+  }
+
+  return { q: rq, r: rr }
+}
+
+function hexLine(a: HexCoord, b: HexCoord): HexCoord[] {
+  const n = hexDistance(a, b)
+  if (n === 0) return [a]
+
+  const line: HexCoord[] = []
+  for (let i = 0; i <= n; i++) {
+    const t = i / n
+    line.push(
+      hexRound(
+        a.q + 1e-6 + (b.q - a.q) * t,
+        a.r + 1e-6 + (b.r - a.r) * t,
+      ),
+    )
+  }
+  return line
+}
+
+// Connected groups of land tile ids, largest first
+function landComponents(
+  terrain: Map<string, TerrainType>,
+  coords: Map<string, HexCoord>,
+): string[][] {
+  const seen = new Set<string>()
+  const components: string[][] = []
+
+  for (const [id, t] of terrain) {
+    if (t === "Water" || seen.has(id)) continue
+
+    const component: string[] = []
+    const queue = [id]
+    seen.add(id)
+
+    while (queue.length > 0) {
+      const current = queue.pop()!
+      component.push(current)
+
+      for (const n of hexNeighbors(coords.get(current)!)) {
+        const nId = tileIdForCoord(n)
+        const nTerrain = terrain.get(nId)
+        if (!nTerrain || nTerrain === "Water" || seen.has(nId)) continue
+        seen.add(nId)
+        queue.push(nId)
+      }
+    }
+
+    components.push(component)
+  }
+
+  return components.sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Bridge every stray island to the main landmass with a line of Field so no
+ * player can start (or expand) somewhere unreachable.
+ */
+function connectLand(
+  terrain: Map<string, TerrainType>,
+  coords: Map<string, HexCoord>,
+): void {
+  let components = landComponents(terrain, coords)
+
+  while (components.length > 1) {
+    const [main, stray] = [components[0], components[1]]
+
+    let best: [HexCoord, HexCoord] | null = null
+    let bestDist = Infinity
+    for (const a of stray) {
+      for (const b of main) {
+        const dist = hexDistance(coords.get(a)!, coords.get(b)!)
+        if (dist < bestDist) {
+          bestDist = dist
+          best = [coords.get(a)!, coords.get(b)!]
+        }
+      }
+    }
+    if (!best) break
+
+    for (const coord of hexLine(best[0], best[1])) {
+      const id = tileIdForCoord(coord)
+      if (terrain.get(id) === "Water") {
+        terrain.set(id, "Field")
+      }
+    }
+
+    components = landComponents(terrain, coords)
+  }
+}
+
+// Spread starting spots out with greedy farthest-point sampling
+function pickStartingTiles(
+  terrain: Map<string, TerrainType>,
+  coords: Map<string, HexCoord>,
+  seed: number,
+  count: number,
+): string[] {
+  const allCandidates = [...terrain.keys()].filter(
+    (id) => terrain.get(id) !== "Water" && terrain.get(id) !== "Mountain",
+  )
+
+  // Prefer tiles with a full ring of neighbours inside the map
+  const interior = allCandidates.filter((id) =>
+    hexNeighbors(coords.get(id)!).every((n) => terrain.has(tileIdForCoord(n))),
+  )
+  const candidates = interior.length >= count ? interior : allCandidates
+
+  const tieBreak = (id: string) => {
+    const c = coords.get(id)!
+    return hashToUnit(seed, c.q, c.r)
+  }
+
+  const starts: string[] = []
+  while (starts.length < count && starts.length < candidates.length) {
+    let bestId: string | null = null
+    let bestScore = -Infinity
+
+    for (const id of candidates) {
+      if (starts.includes(id)) continue
+      const coord = coords.get(id)!
+      // First pick: far from the centre; later picks: far from other starts
+      const score =
+        starts.length === 0
+          ? hexDistance(coord, ORIGIN)
+          : Math.min(
+              ...starts.map((s) => hexDistance(coord, coords.get(s)!)),
+            )
+      const weighted = score + tieBreak(id) * 0.5
+      if (weighted > bestScore) {
+        bestScore = weighted
+        bestId = id
+      }
+    }
+
+    if (!bestId) break
+    starts.push(bestId)
+  }
+
+  return starts
+}
+
+/**
+ * Every start becomes a Field whose ring holds at least two food tiles, one
+ * Forest and one Mountain, so no player begins without a way to grow.
+ */
+function balanceStartingTiles(
+  terrain: Map<string, TerrainType>,
+  coords: Map<string, HexCoord>,
+  starts: string[],
+): void {
+  const requirements: { terrain: LandTerrainType; accepts: TerrainType[] }[] =
+    [
+      { terrain: "FertileField", accepts: ["Field", "FertileField"] },
+      { terrain: "Field", accepts: ["Field", "FertileField"] },
+      { terrain: "Forest", accepts: ["Forest"] },
+      { terrain: "Mountain", accepts: ["Mountain"] },
+    ]
+
+  for (const startId of starts) {
+    terrain.set(startId, "Field")
+
+    const ring = hexNeighbors(coords.get(startId)!)
+      .map(tileIdForCoord)
+      .filter((id) => terrain.has(id) && !starts.includes(id))
+
+    const locked = new Set<string>()
+    for (const req of requirements) {
+      const satisfied = ring.find(
+        (id) => !locked.has(id) && req.accepts.includes(terrain.get(id)!),
+      )
+      if (satisfied) {
+        locked.add(satisfied)
+        continue
+      }
+
+      // Convert water first, then whatever terrain the ring has most of
+      const counts = new Map<TerrainType, number>()
+      for (const id of ring) {
+        const t = terrain.get(id)!
+        counts.set(t, (counts.get(t) ?? 0) + 1)
+      }
+      const convertible = ring
+        .filter((id) => !locked.has(id))
+        .sort((a, b) => {
+          const ta = terrain.get(a)!
+          const tb = terrain.get(b)!
+          if (ta === "Water" && tb !== "Water") return -1
+          if (tb === "Water" && ta !== "Water") return 1
+          return (counts.get(tb) ?? 0) - (counts.get(ta) ?? 0)
+        })
+      const target = convertible[0]
+      if (!target) continue
+
+      terrain.set(target, req.terrain)
+      locked.add(target)
+    }
+  }
+}
+
+/**
+ * Build a map from noise: elevation decides Water and Mountain, moisture
+ * spreads the remaining land between Forest and the field types according to
+ * the configured weights.
+ */
+export function generateMap(
+  options: MapGenOptions,
+  seed: number,
+  startCount: number,
+): GeneratedMap {
+  const radius = Math.max(1, Math.floor(options.radius))
+  const coordList = shapeCoords(options.shape, radius)
+  const coords = new Map<string, HexCoord>(
+    coordList.map((c) => [tileIdForCoord(c), c]),
+  )
+  const ids = [...coords.keys()]
+
+  const scale = Math.max(2, radius / 1.5)
+  const elevation = new Map<string, number>()
+  const moisture = new Map<string, number>()
+
+  for (const [id, coord] of coords) {
+    let e = sampleNoise(seed, coord, scale)
+    if (options.shape === "island") {
+      const falloff = hexDistance(coord, ORIGIN) / radius
+      e -= falloff * falloff * 0.6
+      // The outer ring is always sea
+      if (hexDistance(coord, ORIGIN) >= radius) e -= 1
+    }
+    elevation.set(id, e)
+    moisture.set(id, sampleNoise(seed ^ 0x27d4eb2f, coord, scale))
+  }
+
+  const terrain = new Map<string, TerrainType>()
+
+  // Lowest tiles become water
+  const byElevation = [...ids].sort(
+    (a, b) => elevation.get(a)! - elevation.get(b)!,
+  )
+  let waterCount = Math.round(
+    Math.max(0, Math.min(0.9, options.waterRatio)) * ids.length,
+  )
+  if (options.shape === "island") {
+    const coastline = ids.filter(
+      (id) => hexDistance(coords.get(id)!, ORIGIN) >= radius,
+    ).length
+    waterCount = Math.max(waterCount, coastline)
+  }
+  for (const id of byElevation.slice(0, waterCount)) {
+    terrain.set(id, "Water")
+  }
+
+  // Highest land becomes mountain, the rest follows moisture
+  const land = byElevation.slice(waterCount)
+  const weights = options.terrainWeights
+  const totalWeight =
+    weights.Field + weights.FertileField + weights.Forest + weights.Mountain
+  const share = (t: LandTerrainType) =>
+    totalWeight > 0 ? weights[t] / totalWeight : 0.25
+
+  const mountainCount = Math.round(share("Mountain") * land.length)
+  const mountains = land.slice(land.length - mountainCount)
+  for (const id of mountains) {
+    terrain.set(id, "Mountain")
+  }
+
+  const lowland = land
+    .slice(0, land.length - mountainCount)
+    .sort((a, b) => moisture.get(b)! - moisture.get(a)!)
+  const forestCount = Math.round(share("Forest") * land.length)
+  const fertileCount = Math.round(share("FertileField") * land.length)
+
+  lowland.forEach((id, index) => {
+    if (index < forestCount) {
+      terrain.set(id, "Forest")
+    } else if (index < forestCount + fertileCount) {
+      terrain.set(id, "FertileField")
+    } else {
+      terrain.set(id, "Field")
+    }
+  })
+
+  connectLand(terrain, coords)
+
+  const startingTileIds = pickStartingTiles(terrain, coords, seed, startCount)
+  balanceStartingTiles(terrain, coords, startingTileIds)
+
+  const tiles: Tile[] = coordList.map((coord) => {
+    const id = tileIdForCoord(coord)
+    return {
+      id,
+      coord,
+      terrain: terrain.get(id)!,
+    }
+  })
+
+  return { tiles, startingTileIds }
+}
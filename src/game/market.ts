@@ -0,0 +1,315 @@
+import type {
+  GameRules,
+  GameState,
+  MarketGood,
+  MarketSide,
+  MarketState,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+  Settlement,
+} from "./types"
+import { getPlayer, subtractResources } from "./helpers"
+import { getBuildingEffects } from "./buildings"
+import { recordEvent } from "./events"
+import { getRallyMultiplier } from "./heroes"
+
+// One market shared by every player. Food, Wood and Stone are priced in
+// Gold: every unit bought anywhere pushes its price up, every unit sold
+// pushes it down, and between orders prices drift back to their base.
+// Gold also pays the soldiers: defenders and hired mercenaries draw wages
+// each second, and an upgrade can be rushed by buying what it lacks.
+
+export const MARKET_GOODS: MarketGood[] = ["Food", "Wood", "Stone"]
+
+export const MARKET_SIDE_LABELS: Record<MarketSide, string> = {
+  BUY: "Buy",
+  SELL: "Sell",
+}
+
+export function createMarketState(rules: GameRules): MarketState {
+  const prices = { ...rules.market.basePrices }
+  return { prices, history: [{ timeMs: 0, prices: { ...prices } }] }
+}
+
+function clampPrice(rules: GameRules, good: MarketGood, price: number): number {
+  const base = rules.market.basePrices[good]
+  return Math.min(
+    base * rules.market.maxPriceFactor,
+    Math.max(base * rules.market.minPriceFactor, price),
+  )
+}
+
+// Where the price ends up once an order of this size has gone through
+function priceAfterOrder(
+  state: GameState,
+  side: MarketSide,
+  good: MarketGood,
+  amount: number,
+): number {
+  const impact = Math.pow(1 + state.rules.market.priceImpactPerUnit, amount)
+  const price = state.market.prices[good]
+  return clampPrice(
+    state.rules,
+    good,
+    side === "BUY" ? price * impact : price / impact,
+  )
+}
+
+// Gold per unit for a single unit, spread included
+export function getUnitPrice(
+  state: GameState,
+  side: MarketSide,
+  good: MarketGood,
+): number {
+  const halfSpread = state.rules.market.spread / 2
+  return (
+    state.market.prices[good] * (side === "BUY" ? 1 + halfSpread : 1 - halfSpread)
+  )
+}
+
+/**
+ * Gold paid for (BUY) or received from (SELL) an order. The order fills at
+ * the average of the price before and after it, so large orders pay for
+ * the price they move. Buyers round up, sellers round down.
+ */
+export function quoteMarketOrder(
+  state: GameState,
+  side: MarketSide,
+  good: MarketGood,
+  amount: number,
+): number {
+  if (amount <= 0) return 0
+  const halfSpread = state.rules.market.spread / 2
+  const average =
+    (state.market.prices[good] + priceAfterOrder(state, side, good, amount)) / 2
+  const gold =
+    amount * average * (side === "BUY" ? 1 + halfSpread : 1 - halfSpread)
+  return side === "BUY" ? Math.ceil(gold) : Math.floor(gold)
+}
+
+function movePrice(
+  state: GameState,
+  side: MarketSide,
+  good: MarketGood,
+  amount: number,
+): void {
+  state.market = {
+    ...state.market,
+    prices: {
+      ...state.market.prices,
+      [good]: priceAfterOrder(state, side, good, amount),
+    },
+  }
+}
+
+function adjustPlayerResources(
+  state: GameState,
+  playerId: PlayerId,
+  gained: ResourceCost,
+  paid: ResourceCost,
+): void {
+  state.players = state.players.map((p) => {
+    if (p.id !== playerId) return p
+    const newResources = subtractResources(p.resources, paid)
+    ;(Object.keys(gained) as ResourceType[]).forEach((res) => {
+      newResources[res] = (newResources[res] ?? 0) + (gained[res] ?? 0)
+    })
+    return { ...p, resources: newResources }
+  })
+}
+
+/**
+ * Fill a market order at the quoted price and move the market.
+ */
+export function executeMarketOrder(
+  state: GameState,
+  playerId: PlayerId,
+  side: MarketSide,
+  good: MarketGood,
+  amount: number,
+): void {
+  const gold = quoteMarketOrder(state, side, good, amount)
+
+  if (side === "BUY") {
+    adjustPlayerResources(state, playerId, { [good]: amount }, { Gold: gold })
+  } else {
+    adjustPlayerResources(state, playerId, { Gold: gold }, { [good]: amount })
+  }
+  movePrice(state, side, good, amount)
+
+  recordEvent(state, {
+    type: "MARKET_TRADE",
+    playerId,
+    side,
+    resource: good,
+    amount,
+    gold,
+  })
+}
+
+/**
+ * Run during TICK, after currentTimeMs has moved on from previousTimeMs:
+ * let prices recover towards their base and take a snapshot for the price
+ * history when one is due.
+ */
+export function updateMarket(
+  state: GameState,
+  previousTimeMs: number,
+): GameState {
+  const { market } = state.rules
+  const seconds = (state.currentTimeMs - previousTimeMs) / 1000
+  const recovery = 1 - Math.pow(1 - market.recoveryPerSecond, seconds)
+
+  const prices = { ...state.market.prices }
+  for (const good of MARKET_GOODS) {
+    prices[good] += (market.basePrices[good] - prices[good]) * recovery
+  }
+
+  let history = state.market.history
+  if (
+    Math.floor(state.currentTimeMs / market.historyIntervalMs) !==
+    Math.floor(previousTimeMs / market.historyIntervalMs)
+  ) {
+    history = [
+      ...history,
+      { timeMs: state.currentTimeMs, prices: { ...prices } },
+    ].slice(-market.historyLength)
+  }
+
+  state.market = { prices, history }
+  return state
+}
+
+// Materials an upgrade still lacks, by good
+function getShortfall(
+  resources: Record<ResourceType, number>,
+  cost: ResourceCost,
+): Partial<Record<MarketGood, number>> {
+  const shortfall: Partial<Record<MarketGood, number>> = {}
+  for (const good of MARKET_GOODS) {
+    const missing = Math.ceil((cost[good] ?? 0) - (resources[good] ?? 0))
+    if (missing > 0) shortfall[good] = missing
+  }
+  return shortfall
+}
+
+/**
+ * What a rushed purchase actually costs: whatever part of `cost` the
+ * player holds, plus Gold for the rest at the market buy price times
+ * rules.rushUpgradePremium.
+ */
+export function getRushCost(
+  state: GameState,
+  resources: Record<ResourceType, number>,
+  cost: ResourceCost,
+): ResourceCost {
+  const shortfall = getShortfall(resources, cost)
+  const rushed: ResourceCost = { ...cost }
+  let gold = cost.Gold ?? 0
+
+  for (const good of MARKET_GOODS) {
+    const missing = shortfall[good] ?? 0
+    if (missing <= 0) continue
+    rushed[good] = (cost[good] ?? 0) - missing
+    gold += Math.ceil(
+      quoteMarketOrder(state, "BUY", good, missing) *
+        state.rules.rushUpgradePremium,
+    )
+  }
+
+  if (gold > 0) rushed.Gold = gold
+  return rushed
+}
+
+/**
+ * Pay for `cost` the rushed way (see getRushCost). The goods bought in the
+ * rush count as demand on the market.
+ */
+export function payRushCost(
+  state: GameState,
+  playerId: PlayerId,
+  cost: ResourceCost,
+): void {
+  const player = getPlayer(state, playerId)
+  if (!player) return
+
+  const rushed = getRushCost(state, player.resources, cost)
+  const shortfall = getShortfall(player.resources, cost)
+
+  adjustPlayerResources(state, playerId, {}, rushed)
+  for (const good of MARKET_GOODS) {
+    const missing = shortfall[good] ?? 0
+    if (missing > 0) movePrice(state, "BUY", good, missing)
+  }
+}
+
+// Gold a player's soldiers draw per second
+export function getWageBill(state: GameState, playerId: PlayerId): number {
+  const { defenderWagePerSecond, mercenaryWagePerSecond } = state.rules
+  return state.settlements
+    .filter((s) => s.owner === playerId)
+    .reduce(
+      (sum, s) =>
+        sum +
+        s.defenders * defenderWagePerSecond +
+        (s.mercenaries ?? 0) * mercenaryWagePerSecond,
+      0,
+    )
+}
+
+/**
+ * Run during TICK: every player pays their soldiers from their Gold. When
+ * the Gold runs out the mercenaries walk off and the remaining defenders
+ * fight at rules.unpaidDefenseMultiplier until wages are paid again.
+ */
+export function payWages(state: GameState, seconds: number): GameState {
+  for (const player of state.players) {
+    // Barbarians fight for plunder, not pay
+    if (player.barbarian) continue
+    const bill = getWageBill(state, player.id) * seconds
+    const gold = player.resources.Gold ?? 0
+    const paid = gold >= bill
+
+    if (bill > 0) {
+      adjustPlayerResources(state, player.id, {}, { Gold: Math.min(gold, bill) })
+    }
+
+    let deserted = 0
+    if (!paid) {
+      state.settlements = state.settlements.map((s) => {
+        if (s.owner !== player.id || !s.mercenaries) return s
+        deserted += s.mercenaries
+        return { ...s, mercenaries: 0 }
+      })
+    }
+
+    if (paid !== !player.unpaidWages) {
+      state.players = state.players.map((p) =>
+        p.id === player.id ? { ...p, unpaidWages: !paid } : p,
+      )
+    }
+
+    if (!paid && (deserted > 0 || !player.unpaidWages)) {
+      recordEvent(state, { type: "WAGES_UNPAID", playerId: player.id, deserted })
+    } else if (paid && player.unpaidWages) {
+      recordEvent(state, { type: "WAGES_RESUMED", playerId: player.id })
+    }
+  }
+
+  return state
+}
+
+// Strength of each soldier defending the settlement: buildings, pay and
+// any champion rallying nearby
+export function getDefenseMultiplier(
+  state: GameState,
+  settlement: Settlement,
+): number {
+  const unpaid = getPlayer(state, settlement.owner)?.unpaidWages
+  return (
+    getBuildingEffects(state.rules, settlement).defenseMultiplier *
+    (unpaid ? state.rules.unpaidDefenseMultiplier : 1) *
+    getRallyMultiplier(state, settlement.owner, settlement.tileId)
+  )
+}
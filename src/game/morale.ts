@@ -0,0 +1,253 @@
+import type {
+  DeityPowerType,
+  GameRules,
+  GameState,
+  Player,
+  PlayerId,
+  Settlement,
+} from "./types"
+import { emptyResourceRecord, getPlayer } from "./helpers"
+import { DEITY_POWER_LABELS } from "./rules"
+import { getBuildingEffects } from "./buildings"
+import { getSeasonModifiers } from "./seasons"
+import { recordEvent } from "./events"
+import { defectSettlement } from "./conquest"
+import { getSupplyStatus } from "./roads"
+import { getFaithShares } from "./faith"
+
+// Every settlement has a morale between 0 and 100. Living conditions set a
+// target (see getMoraleFactors) and morale drifts towards it each TICK.
+// Unhappy settlements harvest and pray less, and one that stays on the
+// brink for too long throws off its deity and joins the independent
+// faction.
+
+export const INDEPENDENT_FACTION_ID: PlayerId = "INDEPENDENT"
+
+export interface MoraleFactor {
+  label: string
+  value: number // morale points added to the target
+}
+
+// Food the player's people eat per second right now
+function getFoodUpkeepPerSecond(state: GameState, playerId: PlayerId): number {
+  const eaters = state.settlements
+    .filter((s) => s.owner === playerId)
+    .reduce(
+      (sum, s) =>
+        sum + s.population * getBuildingEffects(state.rules, s).upkeepMultiplier,
+      0,
+    )
+  return (
+    eaters * state.rules.upkeepPerPersonPerSecond * getSeasonModifiers(state).upkeep
+  )
+}
+
+// Why the settlement's target is what it is, largest effects first
+export function getMoraleFactors(
+  state: GameState,
+  settlement: Settlement,
+): MoraleFactor[] {
+  const rules = state.rules.morale
+  const factors: MoraleFactor[] = []
+  const owner = getPlayer(state, settlement.owner)
+
+  const connected = getSupplyStatus(state)[settlement.id]?.connected ?? true
+
+  if (settlement.isStarving) {
+    factors.push({ label: "Starving", value: -rules.starvingPenalty })
+  } else if (
+    owner &&
+    connected &&
+    owner.resources.Food >=
+      getFoodUpkeepPerSecond(state, owner.id) * rules.wellFedSeconds
+  ) {
+    factors.push({ label: "Well fed", value: rules.wellFedBonus })
+  }
+
+  if (!connected) {
+    factors.push({ label: "Cut off", value: -rules.isolatedPenalty })
+  }
+
+  const foreignFaith = 1 - (getFaithShares(settlement)[settlement.owner] ?? 0)
+  if (foreignFaith > 0) {
+    factors.push({
+      label: "Foreign faith",
+      value: -rules.foreignFaithPenalty * foreignFaith,
+    })
+  }
+
+  if (settlement.population > 0) {
+    factors.push({
+      label: "Worship",
+      value:
+        (settlement.worshippers / settlement.population) *
+        rules.worshipperShareBonus,
+    })
+  }
+
+  if (settlement.lastRaidedAtMs !== undefined) {
+    const elapsed = state.currentTimeMs - settlement.lastRaidedAtMs
+    if (elapsed < rules.raidMemoryMs) {
+      factors.push({
+        label: "Raided",
+        value: -rules.raidPenalty * (1 - elapsed / rules.raidMemoryMs),
+      })
+    }
+  }
+
+  const crowding = settlement.population / Math.max(1, settlement.populationCap)
+  if (crowding > rules.overcrowdingThreshold) {
+    factors.push({
+      label: "Overcrowded",
+      value:
+        -rules.overcrowdingPenalty *
+        Math.min(
+          1,
+          (crowding - rules.overcrowdingThreshold) /
+            (1 - rules.overcrowdingThreshold),
+        ),
+    })
+  }
+
+  // Like their other effects, each power counts once
+  const powers = new Set<DeityPowerType>(
+    (state.buffs ?? [])
+      .filter((b) => b.settlementId === settlement.id)
+      .map((b) => b.type),
+  )
+  for (const power of powers) {
+    const value = rules.powerEffects[power] ?? 0
+    if (value !== 0) factors.push({ label: DEITY_POWER_LABELS[power], value })
+  }
+
+  return factors
+    .filter((f) => f.value !== 0)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+}
+
+export function getMoraleTarget(state: GameState, settlement: Settlement): number {
+  const total = getMoraleFactors(state, settlement).reduce(
+    (sum, f) => sum + f.value,
+    state.rules.morale.base,
+  )
+  return Math.max(0, Math.min(100, total))
+}
+
+// Multiplier on worker and worshipper output
+export function getMoraleYieldFactor(rules: GameRules, morale: number): number {
+  const { lowMorale, minYieldFactor } = rules.morale
+  if (morale >= lowMorale) return 1
+  return minYieldFactor + (1 - minYieldFactor) * (morale / lowMorale)
+}
+
+// "Content", "Restless"... for panels
+export function describeMorale(rules: GameRules, morale: number): string {
+  if (morale < rules.morale.revoltMorale) return "Rebellious"
+  if (morale < rules.morale.lowMorale) return "Restless"
+  if (morale < 75) return "Content"
+  return "Jubilant"
+}
+
+/**
+ * Knock morale up or down at once, as instant deity powers do.
+ */
+export function shiftMorale(
+  state: GameState,
+  settlementId: string,
+  amount: number,
+): void {
+  state.settlements = state.settlements.map((s) =>
+    s.id === settlementId
+      ? { ...s, morale: Math.max(0, Math.min(100, s.morale + amount)) }
+      : s,
+  )
+}
+
+// The faction rebels join, brought into the game by the first revolt
+function ensureIndependentFaction(state: GameState): PlayerId {
+  const existing = state.players.find((p) => p.independent)
+  if (existing) {
+    if (existing.eliminated) {
+      state.players = state.players.map((p) =>
+        p.id === existing.id ? { ...p, eliminated: false } : p,
+      )
+    }
+    return existing.id
+  }
+
+  const faction: Player = {
+    id: INDEPENDENT_FACTION_ID,
+    name: "Free Settlements",
+    resources: emptyResourceRecord(),
+    victoryPoints: 0,
+    belief: 0,
+    maxBeliefEver: 0,
+    policy: {
+      workersPercent: 60,
+      worshippersPercent: 10,
+      defendersPercent: 30,
+      stance: "PASSIVE",
+    },
+    isNpc: true,
+    independent: true,
+  }
+  state.players = [...state.players, faction]
+  return faction.id
+}
+
+/**
+ * Run during TICK: move every settlement's morale towards its target and
+ * let settlements that stayed below rules.morale.revoltMorale for
+ * revoltDelayMs defect.
+ */
+export function updateMorale(state: GameState, seconds: number): GameState {
+  const rules = state.rules.morale
+  const step = rules.driftPerSecond * seconds
+  const revolting: string[] = []
+
+  state.settlements = state.settlements.map((s) => {
+    const target = getMoraleTarget(state, s)
+    const morale =
+      s.morale > target
+        ? Math.max(target, s.morale - step)
+        : Math.min(target, s.morale + step)
+
+    // The independents have nowhere further to defect to, and barbarians
+    // answer to no one
+    const owner = getPlayer(state, s.owner)
+    const canRevolt = !owner?.independent && !owner?.barbarian
+    let unrestSinceMs = s.unrestSinceMs
+
+    if (morale < rules.revoltMorale && canRevolt) {
+      if (unrestSinceMs === undefined) {
+        unrestSinceMs = state.currentTimeMs
+        recordEvent(state, {
+          type: "SETTLEMENT_UNREST",
+          settlementId: s.id,
+          owner: s.owner,
+        })
+      } else if (state.currentTimeMs - unrestSinceMs >= rules.revoltDelayMs) {
+        revolting.push(s.id)
+      }
+    } else if (unrestSinceMs !== undefined) {
+      unrestSinceMs = undefined
+      recordEvent(state, {
+        type: "SETTLEMENT_CALMED",
+        settlementId: s.id,
+        owner: s.owner,
+      })
+    }
+
+    return { ...s, morale, unrestSinceMs }
+  })
+
+  for (const settlementId of revolting) {
+    defectSettlement(state, settlementId, ensureIndependentFaction(state))
+    // Free at last
+    state.settlements = state.settlements.map((s) =>
+      s.id === settlementId ? { ...s, morale: rules.initial } : s,
+    )
+  }
+
+  return state
+}
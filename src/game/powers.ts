@@ -0,0 +1,225 @@
+import type {
+  DeityPowerRules,
+  DeityPowerTarget,
+  DeityPowerType,
+  GameState,
+  Player,
+  Settlement,
+  UseDeityPowerPayload,
+} from "./types"
+import { findTileById, hexDistance } from "./helpers"
+import { nextRandom } from "./rng"
+
+export const POWER_TARGET_LABELS: Record<DeityPowerTarget, string> = {
+  OWN_SETTLEMENT: "your settlement",
+  ENEMY_SETTLEMENT: "a rival settlement",
+  TILE: "a tile you control",
+}
+
+// Milliseconds until the player may cast this power again
+export function getPowerCooldownRemaining(
+  state: GameState,
+  player: Player,
+  power: DeityPowerType,
+): number {
+  const readyAt = player.powerCooldowns?.[power] ?? 0
+  return Math.max(0, readyAt - state.currentTimeMs)
+}
+
+export interface PowerModifiers {
+  workerMultiplier: number
+  worshipperMultiplier: number
+  foodMultiplier: number
+}
+
+/**
+ * Yield modifiers from the buffs on a settlement. Each power counts once no
+ * matter how many casts of it are active, so blessings don't compound.
+ */
+export function getPowerModifiers(
+  state: GameState,
+  settlementId: string,
+): PowerModifiers {
+  const modifiers: PowerModifiers = {
+    workerMultiplier: 1,
+    worshipperMultiplier: 1,
+    foodMultiplier: 1,
+  }
+
+  const active = new Set(
+    (state.buffs ?? [])
+      .filter((b) => b.settlementId === settlementId)
+      .map((b) => b.type),
+  )
+
+  for (const power of active) {
+    const { magnitude } = state.rules.powers[power]
+    if (power === "BLESSED_HARVEST") modifiers.workerMultiplier *= magnitude
+    if (power === "INSPIRED_WORSHIP") modifiers.worshipperMultiplier *= magnitude
+    if (power === "DROUGHT") modifiers.foodMultiplier *= magnitude
+  }
+
+  return modifiers
+}
+
+// Remove people from a settlement, idle roles first and defenders last
+function removePopulation(settlement: Settlement, count: number): Settlement {
+  const loss = Math.min(count, settlement.population)
+  let remaining = loss
+  const take = (available: number) => {
+    const taken = Math.min(available, remaining)
+    remaining -= taken
+    return available - taken
+  }
+
+  const idle =
+    settlement.population -
+    settlement.workers -
+    settlement.worshippers -
+    settlement.defenders
+  take(Math.max(0, idle))
+  const workers = take(settlement.workers)
+  const worshippers = take(settlement.worshippers)
+  const defenders = take(settlement.defenders)
+
+  return {
+    ...settlement,
+    population: settlement.population - loss,
+    workers,
+    worshippers,
+    defenders,
+  }
+}
+
+/**
+ * Resolve a power that takes effect immediately (Smite, Earthquake, Fertile
+ * Rains). Buff powers are handled by the reducer and are a no-op here.
+ */
+export function applyInstantPower(
+  state: GameState,
+  power: DeityPowerType,
+  payload: UseDeityPowerPayload,
+): GameState {
+  const { magnitude } = state.rules.powers[power]
+
+  switch (power) {
+    case "SMITE":
+      return {
+        ...state,
+        settlements: state.settlements.map((s) => {
+          if (s.id !== payload.settlementId) return s
+          const killed = Math.ceil(s.defenders * magnitude)
+          return {
+            ...s,
+            defenders: s.defenders - killed,
+            population: Math.max(0, s.population - killed),
+          }
+        }),
+      }
+
+    case "EARTHQUAKE":
+      return {
+        ...state,
+        settlements: state.settlements.map((s) => {
+          if (s.id !== payload.settlementId) return s
+          const newLevel = Math.max(1, s.level - magnitude)
+          const levelsLost = s.level - newLevel
+          const populationCap = Math.max(
+            1,
+            s.populationCap - levelsLost * state.rules.upgradePopulationCapBonus,
+          )
+          const slots = newLevel * state.rules.buildingSlotsPerLevel
+
+          const shaken = removePopulation(
+            s,
+            Math.max(0, s.population - populationCap),
+          )
+          return {
+            ...shaken,
+            level: newLevel,
+            populationCap,
+            // The newest buildings collapse first
+            buildings: (s.buildings ?? []).slice(0, slots),
+          }
+        }),
+      }
+
+    case "FERTILE_RAINS": {
+      const center = payload.tileId
+        ? findTileById(state, payload.tileId)
+        : undefined
+      if (!center) return state
+
+      return {
+        ...state,
+        tiles: state.tiles.map((t) =>
+          t.terrain === "Field" &&
+          hexDistance(t.coord, center.coord) <= magnitude
+            ? { ...t, terrain: "FertileField" }
+            : t,
+        ),
+      }
+    }
+
+    default:
+      return state
+  }
+}
+
+/**
+ * Kill off part of every plagued settlement for this tick. Fractional losses
+ * are rounded up or down at random, which advances state.rng.
+ */
+export function applyPlague(state: GameState, seconds: number): GameState {
+  const plagued = new Set(
+    (state.buffs ?? [])
+      .filter((b) => b.type === "PLAGUE")
+      .map((b) => b.settlementId),
+  )
+  if (plagued.size === 0) return state
+
+  const { magnitude } = state.rules.powers.PLAGUE
+
+  state.settlements = state.settlements.map((s) => {
+    if (!plagued.has(s.id) || s.population <= 0) return s
+
+    const expected = s.population * magnitude * seconds
+    const deaths =
+      Math.floor(expected) + (nextRandom(state) < expected % 1 ? 1 : 0)
+    return deaths > 0 ? removePopulation(s, deaths) : s
+  })
+
+  return state
+}
+
+// Short effect summary for panels, e.g. "kills 50% of defenders"
+export function describePower(
+  power: DeityPowerType,
+  def: DeityPowerRules,
+): string {
+  const seconds = Math.round(def.durationMs / 1000)
+  const percent = Math.round(def.magnitude * 100)
+
+  switch (power) {
+    case "BLESSED_HARVEST":
+      return `worker output ×${def.magnitude} for ${seconds}s`
+    case "INSPIRED_WORSHIP":
+      return `belief ×${def.magnitude} for ${seconds}s`
+    case "PLAGUE":
+      return `kills ${percent}% of the population per second for ${seconds}s`
+    case "SMITE":
+      return `kills ${percent}% of defenders`
+    case "DROUGHT":
+      return `food yield ×${def.magnitude} for ${seconds}s`
+    case "EARTHQUAKE":
+      return `knocks the settlement down ${def.magnitude} level${
+        def.magnitude === 1 ? "" : "s"
+      }`
+    case "FERTILE_RAINS":
+      return `turns Fields within ${def.magnitude} tile${
+        def.magnitude === 1 ? "" : "s"
+      } into Fertile Fields`
+    default:
+      return ""
+  }
+}
@@ -0,0 +1,77 @@
+import type { RngState } from "./types"
+
+// Deterministic randomness and id generation for the simulation.
+//
+// The generator is counter based: the value at a given cursor depends only on
+// (seed, cursor), so the whole generator is the two numbers stored on
+// GameState and two hosts replaying the same action stream stay in sync.
+
+function mix32(value: number): number {
+  let x = (value + 0x9e3779b9) | 0
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b)
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35)
+  return (x ^ (x >>> 16)) >>> 0
+}
+
+export function createRngState(seed: number): RngState {
+  return { seed: seed >>> 0, cursor: 0 }
+}
+
+// FNV-1a, used to turn room ids into seeds
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Value in [0, 1) at the current cursor, without advancing
+export function peekRandom(rng: RngState): number {
+  return mix32(rng.seed ^ mix32(rng.cursor)) / 0x100000000
+}
+
+// Stateless hash of a seed and integer coordinates to [0, 1), for noise fields
+export function hashToUnit(seed: number, a: number, b: number): number {
+  return mix32(seed ^ mix32(a ^ mix32(b))) / 0x100000000
+}
+
+/**
+ * Derive an independent stream, e.g. for NPC decisions that are computed
+ * from a state without being able to write the cursor back.
+ */
+export function forkRng(rng: RngState, salt: number): RngState {
+  return createRngState(mix32(rng.seed ^ mix32(rng.cursor) ^ mix32(salt | 0)))
+}
+
+/**
+ * Draw the next value in [0, 1) and advance the cursor. Mutates holder.rng,
+ * so only pass a GameState copy owned by the reducer (or a local holder).
+ */
+export function nextRandom(holder: { rng: RngState }): number {
+  const value = peekRandom(holder.rng)
+  holder.rng = { ...holder.rng, cursor: holder.rng.cursor + 1 }
+  return value
+}
+
+export function randomInt(
+  holder: { rng: RngState },
+  maxExclusive: number,
+): number {
+  return Math.floor(nextRandom(holder) * maxExclusive)
+}
+
+export function pickRandom<T>(holder: { rng: RngState }, items: T[]): T {
+  return items[randomInt(holder, items.length)]
+}
+
+/**
+ * Sequential entity ids stored on GameState. Like nextRandom this advances
+ * the holder.
+ */
+export function nextId(holder: { nextEntityId: number }): string {
+  const id = `id_${holder.nextEntityId}`
+  holder.nextEntityId += 1
+  return id
+}
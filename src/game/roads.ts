@@ -0,0 +1,100 @@
+import type { GameState, PlayerId, Settlement, Tile } from "./types"
+import { findTileById, hexNeighbors, tileIdForCoord } from "./helpers"
+
+// Roads link a player's settlements into networks. A network runs through
+// the tiles of the player's own settlements and the road tiles they
+// control. Settlements on the same network as the capital, the player's
+// oldest settlement, share the player's Food store; the rest live off
+// their own harvest. Every settlement earns some trade Gold for each other
+// settlement on its network, and armies march faster along roads.
+
+export interface SupplyStatus {
+  connected: boolean // on the same road network as the owner's capital
+  networkSize: number // settlements on its network, itself included
+}
+
+// The owner's oldest remaining settlement
+export function getCapital(
+  state: GameState,
+  playerId: PlayerId,
+): Settlement | undefined {
+  return state.settlements.find((s) => s.owner === playerId)
+}
+
+function isNetworkTile(state: GameState, tile: Tile, playerId: PlayerId): boolean {
+  if (tile.controller !== playerId) return false
+  if (tile.road) return true
+  return state.settlements.some(
+    (s) => s.tileId === tile.id && s.owner === playerId,
+  )
+}
+
+function neighbourTiles(state: GameState, tile: Tile): Tile[] {
+  return hexNeighbors(tile.coord)
+    .map((coord) => findTileById(state, tileIdForCoord(coord)))
+    .filter((t): t is Tile => !!t)
+}
+
+// Whether a road on this tile would join one of the player's networks
+export function canExtendRoad(
+  state: GameState,
+  tile: Tile,
+  playerId: PlayerId,
+): boolean {
+  return neighbourTiles(state, tile).some((t) =>
+    isNetworkTile(state, t, playerId),
+  )
+}
+
+// Supply status of every settlement, keyed by settlement id
+export function getSupplyStatus(state: GameState): Record<string, SupplyStatus> {
+  const networkOf: Record<string, number> = {}
+  const sizes: number[] = []
+
+  for (const settlement of state.settlements) {
+    if (networkOf[settlement.id] !== undefined) continue
+    const start = findTileById(state, settlement.tileId)
+    if (!start) continue
+
+    const network = sizes.length
+    const seen = new Set<string>([start.id])
+    const queue: Tile[] = [start]
+    while (queue.length > 0) {
+      const tile = queue.shift()!
+      for (const next of neighbourTiles(state, tile)) {
+        if (seen.has(next.id) || !isNetworkTile(state, next, settlement.owner)) {
+          continue
+        }
+        seen.add(next.id)
+        queue.push(next)
+      }
+    }
+
+    const members = state.settlements.filter(
+      (s) => s.owner === settlement.owner && seen.has(s.tileId),
+    )
+    for (const member of members) networkOf[member.id] = network
+    sizes.push(members.length)
+  }
+
+  const status: Record<string, SupplyStatus> = {}
+  for (const settlement of state.settlements) {
+    const network = networkOf[settlement.id]
+    if (network === undefined) continue
+    const capital = getCapital(state, settlement.owner)
+    status[settlement.id] = {
+      connected: !!capital && networkOf[capital.id] === network,
+      networkSize: sizes[network],
+    }
+  }
+  return status
+}
+
+// Gold per second the settlement earns from trade along its roads
+export function getTradeGoldPerSecond(
+  state: GameState,
+  status: SupplyStatus | undefined,
+): number {
+  if (!status) return 0
+  return state.rules.roads.tradeGoldPerSecond * (status.networkSize - 1)
+}
@@ -0,0 +1,517 @@
+import type {
+  DeityPowerType,
+  GameRules,
+  ResourceType,
+  RolePercents,
+  RulesPreset,
+  Settlement,
+  SettlementRoleMode,
+} from "./types"
+
+// Balance numbers for a match. The host picks a preset when creating the
+// game and the result is stored on GameState.rules so that the simulation
+// and every panel read the same values.
+
+export const STANDARD_RULES: GameRules = {
+  preset: "standard",
+
+  startingSettlement: {
+    population: 10,
+    workers: 6,
+    worshippers: 2,
+    defenders: 2,
+    populationCap: 20,
+  },
+  newSettlement: {
+    population: 5,
+    workers: 3,
+    worshippers: 1,
+    defenders: 1,
+    populationCap: 15,
+  },
+  settlementCost: { Food: 100, Wood: 100, Stone: 50 },
+  settlementBuildRange: 3,
+
+  upgradeCost: { Wood: 50, Stone: 50 },
+  upgradePopulationCapBonus: 10,
+
+  influenceRadiusBase: 1,
+  influenceRadiusPerLevel: 1,
+
+  yieldMultiplier: 1,
+
+  terrainYields: {
+    Field: { Food: 2, Wood: 0.25 },
+    FertileField: { Food: 3 },
+    Forest: { Wood: 1.5, Food: 0.5 },
+    Mountain: { Stone: 1.25 },
+    Water: { Food: 1, Gold: 0.5 },
+  },
+  workersPerTile: 3,
+  surplusWorkerYield: { Food: 0.5 },
+  rolePresets: {
+    FRONTIER_FORT: { workersPercent: 40, worshippersPercent: 10, defendersPercent: 50 },
+    HOLY_CITY: { workersPercent: 35, worshippersPercent: 55, defendersPercent: 10 },
+    BREADBASKET: { workersPercent: 80, worshippersPercent: 10, defendersPercent: 10 },
+  },
+  upkeepPerPersonPerSecond: 0.05,
+  storage: {
+    base: { Food: 200, Wood: 200, Stone: 200, Gold: 200 },
+    perSettlementLevel: { Food: 150, Wood: 150, Stone: 100, Gold: 100 },
+    spoilageThreshold: 0.75,
+    spoilagePerSecond: 0.05,
+    warningShare: 0.9,
+  },
+  growthRatePerSecond: 0.05,
+  growthThreshold: 10,
+
+  morale: {
+    initial: 60,
+    base: 50,
+    driftPerSecond: 2,
+    wellFedBonus: 10,
+    wellFedSeconds: 60,
+    starvingPenalty: 40,
+    worshipperShareBonus: 30,
+    raidPenalty: 20,
+    raidMemoryMs: 60000,
+    overcrowdingThreshold: 0.9,
+    overcrowdingPenalty: 20,
+    isolatedPenalty: 10,
+    foreignFaithPenalty: 20,
+    powerEffects: {
+      BLESSED_HARVEST: 10,
+      INSPIRED_WORSHIP: 15,
+      PLAGUE: -20,
+      DROUGHT: -10,
+      SMITE: -15,
+      EARTHQUAKE: -20,
+    },
+    lowMorale: 40,
+    minYieldFactor: 0.5,
+    revoltMorale: 15,
+    revoltDelayMs: 30000,
+  },
+
+  faith: {
+    pressureRadius: 4,
+    distanceFalloff: 1,
+    driftPerSecond: 0.02,
+    dominanceShare: 0.5,
+    apostasyPerSecond: 0.05,
+    dominatedYieldMultiplier: 0.75,
+    conversionDelayMs: 120000,
+  },
+
+  seasonLengthMs: 60000,
+  seasons: {
+    SPRING: { foodYield: 1, growth: 1.25, upkeep: 1 },
+    SUMMER: { foodYield: 1.25, growth: 1, upkeep: 1 },
+    AUTUMN: { foodYield: 1.1, growth: 0.75, upkeep: 1 },
+    WINTER: { foodYield: 0.4, growth: 0.25, upkeep: 1.5 },
+  },
+  weather: {
+    STORM: { weight: 2, durationMs: 15000, yieldMultiplier: 0.6 },
+    DROUGHT: {
+      weight: 2,
+      durationMs: 20000,
+      foodMultiplier: 0.5,
+      growthMultiplier: 0.5,
+    },
+    BOUNTIFUL_YEAR: { weight: 1, durationMs: 30000, foodMultiplier: 1.5 },
+  },
+  weatherChancePerSecond: 0.02,
+  weatherRadius: 2,
+
+  // magnitude: Belief brought by Pilgrims (they eat as much Food), tile
+  // radius a Wildfire spreads, bandits in a raid, Gold a Relic sells for and
+  // seconds an Outbreak of plague lasts
+  worldEvents: {
+    chancePerSecond: 0.01,
+    choiceTimeoutMs: 20000,
+    events: {
+      PILGRIMS: { weight: 3, magnitude: 30 },
+      WILDFIRE: { weight: 2, magnitude: 1 },
+      BANDITS: { weight: 2, magnitude: 6 },
+      RELIC: { weight: 1, magnitude: 50 },
+      OUTBREAK: { weight: 1, magnitude: 15 },
+    },
+  },
+
+  market: {
+    basePrices: { Food: 0.25, Wood: 0.4, Stone: 0.5 },
+    spread: 0.2,
+    priceImpactPerUnit: 0.002,
+    recoveryPerSecond: 0.02,
+    minPriceFactor: 0.25,
+    maxPriceFactor: 4,
+    historyIntervalMs: 10000,
+    historyLength: 12,
+  },
+  startingGold: 100,
+  mercenaryCost: 20,
+  mercenaryWagePerSecond: 0.1,
+  defenderWagePerSecond: 0.01,
+  unpaidDefenseMultiplier: 0.75,
+  rushUpgradePremium: 1.5,
+
+  lootFactor: 0.2,
+  conquestPowerRatio: 2,
+
+  armyMsPerTile: {
+    Field: 2000,
+    FertileField: 2000,
+    Forest: 3000,
+    Mountain: 4000,
+  },
+  interceptRange: 2,
+
+  roads: {
+    cost: { Wood: 20, Stone: 10 },
+    armyTimeMultiplier: 0.5,
+    tradeGoldPerSecond: 0.1,
+  },
+
+  improvements: {
+    definitions: {
+      CLEAR_FOREST: {
+        terrain: "Forest",
+        cost: { Food: 15 },
+        buildMs: 20000,
+        becomes: "Field",
+        harvest: { Wood: 40 },
+        consumed: true,
+      },
+      IRRIGATION: {
+        terrain: "Field",
+        cost: { Wood: 30, Stone: 20 },
+        buildMs: 30000,
+        becomes: "FertileField",
+      },
+      MINE: {
+        terrain: "Mountain",
+        cost: { Wood: 40, Stone: 20 },
+        buildMs: 40000,
+        yields: { Stone: 0.75, Gold: 0.25 },
+      },
+      FISHERY: {
+        terrain: "Water",
+        cost: { Wood: 30 },
+        buildMs: 30000,
+        yields: { Food: 1 },
+      },
+    },
+    wreckedPerRaid: 2,
+  },
+
+  heroes: {
+    maxPerPlayer: 2,
+    cost: {
+      PROPHET: { Belief: 50 },
+      CHAMPION: { Gold: 50, Food: 20 },
+    },
+    abilityRange: 1,
+    abilities: {
+      CONVERT: { cooldownMs: 45000, magnitude: 0.3 },
+      RALLY: { cooldownMs: 60000, magnitude: 1.5, durationMs: 20000 },
+      FOUND_SHRINE: { cooldownMs: 90000, magnitude: 0, cost: { Stone: 40, Belief: 20 } },
+    },
+    shrineBeliefPerSecond: 0.5,
+  },
+
+  visionBonus: 1,
+  armyVisionRange: 1,
+
+  truceDurationMs: 120000,
+  offerExpiryMs: 30000,
+
+  buildings: {
+    GRANARY: {
+      cost: { Wood: 40, Stone: 20 },
+      upkeepMultiplier: 0.7,
+      storage: { Food: 300 },
+    },
+    TEMPLE: { cost: { Wood: 20, Stone: 60 }, worshipperMultiplier: 1.5 },
+    BARRACKS: { cost: { Wood: 40, Stone: 40 }, defenseMultiplier: 1.5 },
+    LUMBER_MILL: {
+      cost: { Wood: 20, Stone: 30 },
+      requiresNearbyTerrain: "Forest",
+      yieldMultipliers: { Wood: 1.5 },
+      storage: { Wood: 200 },
+    },
+    QUARRY: {
+      cost: { Wood: 40, Stone: 10 },
+      requiresNearbyTerrain: "Mountain",
+      yieldMultipliers: { Stone: 1.5 },
+      storage: { Stone: 200 },
+    },
+  },
+  buildingSlotsPerLevel: 1,
+  buildingRefundFactor: 0.5,
+
+  wonders: {
+    minLevel: 3,
+    laborPerWorshipperPerSecond: 1,
+    raidSabotage: 0.25,
+    definitions: {
+      GRAND_TEMPLE: {
+        stages: [
+          { cost: { Wood: 100, Stone: 150 }, labor: 600 },
+          { cost: { Stone: 250, Gold: 50 }, labor: 900 },
+          { cost: { Stone: 300, Gold: 150 }, labor: 1200 },
+        ],
+        victoryPoints: 5,
+      },
+      SKY_ZIGGURAT: {
+        stages: [
+          { cost: { Wood: 150, Stone: 100 }, labor: 500 },
+          { cost: { Wood: 200, Stone: 200 }, labor: 800 },
+          { cost: { Stone: 300, Gold: 100 }, labor: 1000 },
+          { cost: { Stone: 400, Gold: 200 }, labor: 1500 },
+        ],
+        victoryPoints: 8,
+      },
+    },
+  },
+
+  barbarians: {
+    graceMs: 120000,
+    spawnChancePerSecond: 0.01,
+    maxCamps: 4,
+    minDistance: 3,
+    camp: {
+      population: 6,
+      workers: 0,
+      worshippers: 0,
+      defenders: 6,
+      populationCap: 12,
+    },
+    hoard: { Food: 40, Wood: 30, Gold: 30 },
+    raidChancePerSecond: 0.05,
+    minRaiders: 4,
+    raidPercent: 60,
+    raidRange: 6,
+    annexGoldPerWarrior: 10,
+  },
+
+  // magnitude: yield multiplier for the blessings and Drought, share of
+  // population lost per second for Plague, share of defenders killed by
+  // Smite, levels lost to Earthquake and tile radius for Fertile Rains
+  powers: {
+    BLESSED_HARVEST: {
+      cost: 10,
+      durationMs: 15000,
+      cooldownMs: 30000,
+      target: "OWN_SETTLEMENT",
+      magnitude: 2,
+    },
+    INSPIRED_WORSHIP: {
+      cost: 15,
+      durationMs: 15000,
+      cooldownMs: 30000,
+      target: "OWN_SETTLEMENT",
+      magnitude: 2,
+    },
+    PLAGUE: {
+      cost: 40,
+      durationMs: 20000,
+      cooldownMs: 60000,
+      target: "ENEMY_SETTLEMENT",
+      magnitude: 0.02,
+    },
+    SMITE: {
+      cost: 30,
+      durationMs: 0,
+      cooldownMs: 45000,
+      target: "ENEMY_SETTLEMENT",
+      magnitude: 0.5,
+    },
+    DROUGHT: {
+      cost: 25,
+      durationMs: 20000,
+      cooldownMs: 45000,
+      target: "ENEMY_SETTLEMENT",
+      magnitude: 0.5,
+    },
+    EARTHQUAKE: {
+      cost: 60,
+      durationMs: 0,
+      cooldownMs: 90000,
+      target: "ENEMY_SETTLEMENT",
+      magnitude: 1,
+    },
+    FERTILE_RAINS: {
+      cost: 30,
+      durationMs: 0,
+      cooldownMs: 60000,
+      target: "TILE",
+      magnitude: 1,
+    },
+  },
+}
+
+export const FAST_RULES: GameRules = {
+  ...STANDARD_RULES,
+  preset: "fast",
+
+  settlementCost: { Food: 60, Wood: 60, Stone: 30 },
+  upgradeCost: { Wood: 30, Stone: 30 },
+  roads: { ...STANDARD_RULES.roads, cost: { Wood: 12, Stone: 6 } },
+  wonders: { ...STANDARD_RULES.wonders, minLevel: 2 },
+  barbarians: { ...STANDARD_RULES.barbarians, graceMs: 60000 },
+  faith: { ...STANDARD_RULES.faith, conversionDelayMs: 60000 },
+
+  yieldMultiplier: 1.5,
+  growthRatePerSecond: 0.1,
+  seasonLengthMs: 40000,
+
+  armyMsPerTile: {
+    Field: 1500,
+    FertileField: 1500,
+    Forest: 2000,
+    Mountain: 3000,
+  },
+
+  powers: {
+    ...STANDARD_RULES.powers,
+    BLESSED_HARVEST: {
+      ...STANDARD_RULES.powers.BLESSED_HARVEST,
+      cost: 8,
+      durationMs: 10000,
+      cooldownMs: 20000,
+    },
+    INSPIRED_WORSHIP: {
+      ...STANDARD_RULES.powers.INSPIRED_WORSHIP,
+      cost: 12,
+      durationMs: 10000,
+      cooldownMs: 20000,
+    },
+  },
+}
+
+export const HARDCORE_RULES: GameRules = {
+  ...STANDARD_RULES,
+  preset: "hardcore",
+
+  settlementCost: { Food: 150, Wood: 150, Stone: 80 },
+  upgradeCost: { Wood: 80, Stone: 80 },
+  roads: { ...STANDARD_RULES.roads, cost: { Wood: 30, Stone: 15 } },
+  upgradePopulationCapBonus: 8,
+
+  upkeepPerPersonPerSecond: 0.08,
+  storage: { ...STANDARD_RULES.storage, spoilagePerSecond: 0.1 },
+  workersPerTile: 2,
+  growthRatePerSecond: 0.035,
+  morale: { ...STANDARD_RULES.morale, revoltDelayMs: 20000 },
+  faith: { ...STANDARD_RULES.faith, driftPerSecond: 0.03 },
+  wonders: { ...STANDARD_RULES.wonders, raidSabotage: 0.4 },
+  improvements: { ...STANDARD_RULES.improvements, wreckedPerRaid: 3 },
+  barbarians: {
+    ...STANDARD_RULES.barbarians,
+    maxCamps: 6,
+    raidChancePerSecond: 0.08,
+  },
+  seasons: {
+    ...STANDARD_RULES.seasons,
+    WINTER: { foodYield: 0.25, growth: 0, upkeep: 1.75 },
+  },
+
+  worldEvents: {
+    ...STANDARD_RULES.worldEvents,
+    events: {
+      ...STANDARD_RULES.worldEvents.events,
+      BANDITS: { weight: 3, magnitude: 10 },
+    },
+  },
+
+  startingGold: 50,
+  mercenaryCost: 30,
+  mercenaryWagePerSecond: 0.15,
+  rushUpgradePremium: 2,
+
+  lootFactor: 0.3,
+  conquestPowerRatio: 3,
+
+  armyMsPerTile: {
+    Field: 2500,
+    FertileField: 2500,
+    Forest: 4000,
+    Mountain: 6000,
+  },
+
+  powers: {
+    ...STANDARD_RULES.powers,
+    BLESSED_HARVEST: {
+      ...STANDARD_RULES.powers.BLESSED_HARVEST,
+      cost: 15,
+      durationMs: 12000,
+    },
+    INSPIRED_WORSHIP: {
+      ...STANDARD_RULES.powers.INSPIRED_WORSHIP,
+      cost: 20,
+      durationMs: 12000,
+    },
+    PLAGUE: { ...STANDARD_RULES.powers.PLAGUE, magnitude: 0.03 },
+  },
+}
+
+export const RULE_PRESETS: Record<RulesPreset, GameRules> = {
+  standard: STANDARD_RULES,
+  fast: FAST_RULES,
+  hardcore: HARDCORE_RULES,
+}
+
+export const DEITY_POWER_LABELS: Record<DeityPowerType, string> = {
+  BLESSED_HARVEST: "Blessed Harvest",
+  INSPIRED_WORSHIP: "Inspired Worship",
+  PLAGUE: "Plague",
+  SMITE: "Smite",
+  DROUGHT: "Drought",
+  EARTHQUAKE: "Earthquake",
+  FERTILE_RAINS: "Fertile Rains",
+}
+
+export const ROLE_MODE_LABELS: Record<SettlementRoleMode, string> = {
+  POLICY: "Follow faction policy",
+  MANUAL: "Manual",
+  FRONTIER_FORT: "Frontier fort",
+  HOLY_CITY: "Holy city",
+  BREADBASKET: "Breadbasket",
+}
+
+// The role split the TICK allocation applies to a settlement
+export function getSettlementRolePercents(
+  rules: GameRules,
+  settlement: Settlement,
+  policy: RolePercents,
+): RolePercents {
+  const mode = settlement.roleMode ?? "POLICY"
+  if (mode === "POLICY") return policy
+  if (mode === "MANUAL") return settlement.manualRoles ?? policy
+  return rules.rolePresets[mode]
+}
+
+// Influence radius grows with settlement level
+export function getSettlementInfluenceRadius(
+  rules: GameRules,
+  settlement: Settlement,
+): number {
+  return rules.influenceRadiusBase + rules.influenceRadiusPerLevel * settlement.level
+}
+
+export function canAfford(
+  resources: Record<ResourceType, number>,
+  cost: Partial<Record<ResourceType, number>>,
+): boolean {
+  return (Object.keys(cost) as ResourceType[]).every(
+    (res) => (resources[res] ?? 0) >= (cost[res] ?? 0),
+  )
+}
+
+// "100 Food, 100 Wood, 50 Stone"
+export function formatCost(cost: Partial<Record<ResourceType, number>>): string {
+  return (Object.keys(cost) as ResourceType[])
+    .filter((res) => (cost[res] ?? 0) > 0)
+    .map((res) => `${cost[res]} ${res}`)
+    .join(", ")
+}
@@ -0,0 +1,217 @@
+import type {
+  GameRules,
+  GameState,
+  PlayerId,
+  Season,
+  SeasonModifiers,
+  WeatherType,
+} from "./types"
+import { findTileById, hexDistance } from "./helpers"
+import { recordEvent } from "./events"
+import { getBuildingEffects } from "./buildings"
+import { nextId, nextRandom, pickRandom } from "./rng"
+
+// The year turns with game.currentTimeMs: every rules.seasonLengthMs the
+// season moves on, starting in spring. On top of that, weather rolls in
+// over regions of the map (the tiles within rules.weatherRadius of a random
+// centre) and lingers for a while.
+
+export const SEASON_ORDER: Season[] = ["SPRING", "SUMMER", "AUTUMN", "WINTER"]
+
+export const SEASON_LABELS: Record<Season, string> = {
+  SPRING: "Spring",
+  SUMMER: "Summer",
+  AUTUMN: "Autumn",
+  WINTER: "Winter",
+}
+
+export const WEATHER_LABELS: Record<WeatherType, string> = {
+  STORM: "Storm",
+  DROUGHT: "Drought",
+  BOUNTIFUL_YEAR: "Bountiful year",
+}
+
+// "<phrase> the lands around t_3_1" in the chronicle
+export const WEATHER_ARRIVAL_PHRASES: Record<WeatherType, string> = {
+  STORM: "Storms lash",
+  DROUGHT: "Drought parches",
+  BOUNTIFUL_YEAR: "A bountiful year blesses",
+}
+
+function seasonIndex(rules: GameRules, timeMs: number): number {
+  return Math.floor(Math.max(0, timeMs) / rules.seasonLengthMs)
+}
+
+export function getSeason(rules: GameRules, timeMs: number): Season {
+  return SEASON_ORDER[seasonIndex(rules, timeMs) % SEASON_ORDER.length]
+}
+
+export function getNextSeason(season: Season): Season {
+  return SEASON_ORDER[(SEASON_ORDER.indexOf(season) + 1) % SEASON_ORDER.length]
+}
+
+// Milliseconds until the season after the one at timeMs begins
+export function msUntilNextSeason(rules: GameRules, timeMs: number): number {
+  return (seasonIndex(rules, timeMs) + 1) * rules.seasonLengthMs - timeMs
+}
+
+export function getSeasonModifiers(state: GameState): SeasonModifiers {
+  return state.rules.seasons[getSeason(state.rules, state.currentTimeMs)]
+}
+
+export interface WeatherModifiers {
+  yieldMultiplier: number
+  foodMultiplier: number
+  growthMultiplier: number
+}
+
+/**
+ * Modifiers from the weather over a tile. Like deity powers, each kind of
+ * weather counts once however many overlapping regions it covers.
+ */
+export function getWeatherModifiers(
+  state: GameState,
+  tileId: string,
+): WeatherModifiers {
+  const modifiers: WeatherModifiers = {
+    yieldMultiplier: 1,
+    foodMultiplier: 1,
+    growthMultiplier: 1,
+  }
+
+  const tile = findTileById(state, tileId)
+  if (!tile) return modifiers
+
+  const active = new Set(
+    (state.weather ?? [])
+      .filter((w) => {
+        const centre = findTileById(state, w.tileId)
+        return !!centre && hexDistance(centre.coord, tile.coord) <= w.radius
+      })
+      .map((w) => w.type),
+  )
+
+  for (const type of active) {
+    const def = state.rules.weather[type]
+    modifiers.yieldMultiplier *= def.yieldMultiplier ?? 1
+    modifiers.foodMultiplier *= def.foodMultiplier ?? 1
+    modifiers.growthMultiplier *= def.growthMultiplier ?? 1
+  }
+
+  return modifiers
+}
+
+function rollWeatherType(state: GameState): WeatherType {
+  const types = Object.keys(state.rules.weather) as WeatherType[]
+  const total = types.reduce((sum, t) => sum + state.rules.weather[t].weight, 0)
+
+  let roll = nextRandom(state) * total
+  for (const type of types) {
+    roll -= state.rules.weather[type].weight
+    if (roll < 0) return type
+  }
+  return types[types.length - 1]
+}
+
+/**
+ * Run during TICK, after currentTimeMs has moved on from previousTimeMs:
+ * announce a new season, clear weather that has blown over and maybe roll
+ * new weather. Advances state.rng.
+ */
+export function advanceSeasons(
+  state: GameState,
+  previousTimeMs: number,
+): GameState {
+  const { rules } = state
+
+  if (seasonIndex(rules, state.currentTimeMs) !== seasonIndex(rules, previousTimeMs)) {
+    recordEvent(state, {
+      type: "SEASON_CHANGED",
+      season: getSeason(rules, state.currentTimeMs),
+    })
+  }
+
+  const ended = (state.weather ?? []).filter(
+    (w) => w.expiresAtMs <= state.currentTimeMs,
+  )
+  state.weather = (state.weather ?? []).filter((w) => !ended.includes(w))
+  for (const w of ended) {
+    recordEvent(state, {
+      type: "WEATHER_ENDED",
+      weatherId: w.id,
+      weather: w.type,
+      tileId: w.tileId,
+      radius: w.radius,
+    })
+  }
+
+  const seconds = (state.currentTimeMs - previousTimeMs) / 1000
+  const chance = 1 - Math.pow(1 - rules.weatherChancePerSecond, seconds)
+  const land = state.tiles.filter((t) => t.terrain !== "Water")
+  if (land.length === 0 || nextRandom(state) >= chance) return state
+
+  const type = rollWeatherType(state)
+  const centre = pickRandom(state, land)
+  const weather = {
+    id: nextId(state),
+    type,
+    tileId: centre.id,
+    radius: rules.weatherRadius,
+    expiresAtMs: state.currentTimeMs + rules.weather[type].durationMs,
+  }
+  state.weather = [...state.weather, weather]
+
+  recordEvent(state, {
+    type: "WEATHER_STARTED",
+    weatherId: weather.id,
+    weather: type,
+    tileId: weather.tileId,
+    radius: weather.radius,
+  })
+
+  return state
+}
+
+// Food a player's people will eat over a whole winter at today's size
+export function estimateWinterUpkeep(
+  state: GameState,
+  playerId: PlayerId,
+): number {
+  const { rules } = state
+  const eaters = state.settlements
+    .filter((s) => s.owner === playerId)
+    .reduce(
+      (sum, s) => sum + s.population * getBuildingEffects(rules, s).upkeepMultiplier,
+      0,
+    )
+
+  return (
+    eaters *
+    rules.upkeepPerPersonPerSecond *
+    rules.seasons.WINTER.upkeep *
+    (rules.seasonLengthMs / 1000)
+  )
+}
+
+// Short effect summary for panels, e.g. "food ×0.5, growth ×0.5"
+export function describeWeather(type: WeatherType, rules: GameRules): string {
+  const def = rules.weather[type]
+  const parts: string[] = []
+  if (def.yieldMultiplier !== undefined) {
+    parts.push(`all harvests ×${def.yieldMultiplier}`)
+  }
+  if (def.foodMultiplier !== undefined) parts.push(`food ×${def.foodMultiplier}`)
+  if (def.growthMultiplier !== undefined) {
+    parts.push(`growth ×${def.growthMultiplier}`)
+  }
+  return parts.join(", ")
+}
+
+// "food ×0.4, growth ×0.25, upkeep ×1.5"; empty for a neutral season
+export function describeSeason(modifiers: SeasonModifiers): string {
+  const parts: string[] = []
+  if (modifiers.foodYield !== 1) parts.push(`food ×${modifiers.foodYield}`)
+  if (modifiers.growth !== 1) parts.push(`growth ×${modifiers.growth}`)
+  if (modifiers.upkeep !== 1) parts.push(`upkeep ×${modifiers.upkeep}`)
+  return parts.join(", ")
+}
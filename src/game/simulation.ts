@@ -4,7 +4,6 @@ import type {
   PlayerId,
   Settlement,
   ResourceType,
-  TerrainType,
   Tile,
   HexCoord,
   AnyPlayerAction,
@@ -21,7 +20,150 @@ import type {
   FactionPolicy,
   SetPolicyPayload,
   Stance,
+  GameSetupOptions,
+  RngState,
+  MapGenOptions,
+  ActionRejection,
+  BuildingType,
+  ConstructBuildingPayload,
+  DemolishBuildingPayload,
+  Army,
+  InterceptArmyPayload,
+  ProposeTreatyPayload,
+  OfferTradePayload,
+  RespondToOfferPayload,
+  BreakTreatyPayload,
+  TradeResource,
+  ResourceCost,
+  ResolveEventPayload,
+  SetRoleModePayload,
+  MarketOrderPayload,
+  HireMercenariesPayload,
+  BuildRoadPayload,
+  ImproveTilePayload,
+  ContributeToWonderPayload,
+  StartWonderPayload,
+  RecruitHeroPayload,
+  MoveHeroPayload,
+  UseHeroAbilityPayload,
+  AnnexCampPayload,
 } from "./types"
+import {
+  emptyResourceRecord,
+  findSettlementById,
+  findTileById,
+  getPlayer,
+  hexDistance,
+  playerHasSettlement,
+  subtractResources,
+} from "./helpers"
+import { DEFAULT_VICTORY_CONDITIONS, evaluateVictory } from "./victory"
+import { DEFAULT_MAP_OPTIONS, generateMap } from "./mapGen"
+import { validateAction } from "./validation"
+import { recordEvent } from "./events"
+import { removeEmptySettlements } from "./conquest"
+import { assignHarvestTiles, computeSettlementHarvest } from "./harvest"
+import {
+  advanceSeasons,
+  estimateWinterUpkeep,
+  getNextSeason,
+  getSeason,
+  getSeasonModifiers,
+  getWeatherModifiers,
+} from "./seasons"
+import {
+  chooseNpcWorldEventChoice,
+  expireWorldEvents,
+  resolveWorldEvent,
+  rollWorldEvents,
+  WORLD_EVENT_FREQUENCY_SCALE,
+} from "./worldEvents"
+import { recordExploration } from "./visibility"
+import {
+  advanceHeroes,
+  getHeroAbilityCooldownRemaining,
+  getHeroTileId,
+  moveHero,
+  performHeroAbility,
+  recruitHero,
+} from "./heroes"
+import {
+  advanceWonders,
+  contributeToWonder,
+  getWonderStageShortfall,
+  isWonderClaimed,
+  startWonder,
+  WONDER_TYPES,
+} from "./wonders"
+import { getMoraleYieldFactor, shiftMorale, updateMorale } from "./morale"
+import { getFaithShares, getFaithYieldFactor, spreadFaith } from "./faith"
+import {
+  annexCamp,
+  BARBARIAN_STRENGTH_SCALE,
+  scaleCampTemplate,
+  spawnBarbarianCamps,
+} from "./barbarians"
+import { enforceStorage } from "./storage"
+import {
+  advanceImprovements,
+  getImprovementForTerrain,
+  startImprovement,
+} from "./improvements"
+import {
+  canExtendRoad,
+  getCapital,
+  getSupplyStatus,
+  getTradeGoldPerSecond,
+} from "./roads"
+import {
+  createMarketState,
+  executeMarketOrder,
+  getDefenseMultiplier,
+  getUnitPrice,
+  getWageBill,
+  payRushCost,
+  payWages,
+  updateMarket,
+} from "./market"
+import {
+  areHostile,
+  endTreaty,
+  expireDiplomacy,
+  npcAcceptsOffer,
+  signTreaty,
+} from "./diplomacy"
+import {
+  findArmyPath,
+  getArmyTileId,
+  interceptArmy,
+  resolveArmyArrivals,
+  scheduleMarch,
+} from "./armies"
+import {
+  applyInstantPower,
+  applyPlague,
+  getPowerCooldownRemaining,
+  getPowerModifiers,
+} from "./powers"
+import {
+  getBuildingEffects,
+  getBuildingSlots,
+  hasNearbyTerrain,
+} from "./buildings"
+import {
+  canAfford,
+  getSettlementInfluenceRadius,
+  getSettlementRolePercents,
+  RULE_PRESETS,
+} from "./rules"
+import {
+  createRngState,
+  forkRng,
+  nextId,
+  nextRandom,
+  pickRandom,
+  seedFromString,
+} from "./rng"
 
 const DEFAULT_POLICY: FactionPolicy = {
   workersPercent: 60,
@@ -30,47 +172,6 @@ const DEFAULT_POLICY: FactionPolicy = {
   stance: "DEFENSIVE",
 }
 
-// Utility to create ids (simple for now; we can swap to uuid later)
-let idCounter = 0
-export const nextId = () => `id_${idCounter++}`
-
-function getPlayer(state: GameState, playerId: PlayerId): Player | undefined {
-  return state.players.find((p) => p.id === playerId)
-}
-
-function countSettlementsForPlayer(state: GameState, playerId: PlayerId): number {
-  return state.settlements.filter((s) => s.owner === playerId).length
-}
-
-function playerHasSettlement(state: GameState, playerId: PlayerId): boolean {
-  return state.settlements.some((s) => s.owner === playerId)
-}
-
-function findTileById(state: GameState, tileId: string): Tile | undefined {
-  return state.tiles.find((t) => t.id === tileId)
-}
-
-function findSettlementById(state: GameState, settlementId: string) {
-  return state.settlements.find((s) => s.id === settlementId)
-}
-
-function hexDistance(a: HexCoord, b: HexCoord): number {
-  const ax = a.q
-  const az = a.r
-  const ay = -ax - az
-
-  const bx = b.q
-  const bz = b.r
-  const by = -bx - bz
-
-  return Math.max(Math.abs(ax - bx), Math.abs(ay - by), Math.abs(az - bz))
-}
-
-// Influence radius grows with settlement level
-function getSettlementInfluenceRadius(settlement: Settlement): number {
-  return 1 + settlement.level
-}
-
 // Recompute tile.controller based on nearest settlement and influence radius
 function assignTileControllers(state: GameState): GameState {
   const settlementsWithCoords = state.settlements
@@ -90,7 +191,7 @@ function assignTileControllers(state: GameState): GameState {
     let contested = false
 
     for (const { settlement, coord } of settlementsWithCoords) {
-      const radius = getSettlementInfluenceRadius(settlement)
+      const radius = getSettlementInfluenceRadius(state.rules, settlement)
       const dist = hexDistance(tile.coord, coord)
       if (dist > radius) continue
 
@@ -113,25 +214,152 @@ function assignTileControllers(state: GameState): GameState {
   }
 }
 
+// Pick a sensible target for an NPC's power, or null if there is none
+function chooseNpcPowerTarget(
+  state: GameState,
+  playerId: PlayerId,
+  power: DeityPowerType,
+): UseDeityPowerPayload | null {
+  const { target, magnitude } = state.rules.powers[power]
+  const mySettlements = state.settlements.filter((s) => s.owner === playerId)
+
+  if (target === "OWN_SETTLEMENT") {
+    // Inspired worshippers hold back a rival faith where it is strongest
+    if (power === "INSPIRED_WORSHIP") {
+      const ownFaith = (s: Settlement) => getFaithShares(s)[playerId] ?? 0
+      const threatened = mySettlements
+        .filter((s) => ownFaith(s) < 1)
+        .sort((a, b) => ownFaith(a) - ownFaith(b))[0]
+      if (threatened) return { power, settlementId: threatened.id }
+    }
+    const biggest = [...mySettlements].sort(
+      (a, b) => b.population - a.population,
+    )[0]
+    return biggest ? { power, settlementId: biggest.id } : null
+  }
+
+  if (target === "TILE") {
+    const tile = state.tiles.find(
+      (t) =>
+        t.controller === playerId &&
+        state.tiles.some(
+          (f) =>
+            f.terrain === "Field" && hexDistance(f.coord, t.coord) <= magnitude,
+        ),
+    )
+    return tile ? { power, tileId: tile.id } : null
+  }
+
+  // Strike the closest rival settlement
+  const distanceToMe = (s: Settlement) => {
+    const tile = findTileById(state, s.tileId)
+    if (!tile) return Infinity
+    return Math.min(
+      ...mySettlements.map((mine) => {
+        const myTile = findTileById(state, mine.tileId)
+        return myTile ? hexDistance(myTile.coord, tile.coord) : Infinity
+      }),
+    )
+  }
+  const victim = state.settlements
+    .filter((s) => s.owner !== playerId && areHostile(state, playerId, s.owner))
+    .filter((s) => power !== "EARTHQUAKE" || s.level > 1)
+    .sort((a, b) => distanceToMe(a) - distanceToMe(b))[0]
+
+  return victim ? { power, settlementId: victim.id } : null
+}
+
 export function computeNpcActions(state: GameState): AnyPlayerAction[] {
   const actions: AnyPlayerAction[] = []
 
+  // NPC choices can't write the cursor back into state, so they draw from a
+  // stream forked off the current RNG position and logical time.
+  const npcRng: { rng: RngState } = {
+    rng: forkRng(state.rng, state.currentTimeMs),
+  }
+  const npcActionId = () =>
+    `npc_${state.currentTimeMs}_${state.rng.cursor}_${actions.length}`
+  // Starting spots already chosen by an NPC earlier in this batch
+  const claimedStartTileIds = new Set<string>()
+
   for (const player of state.players) {
+    // Barbarians follow computeBarbarianActions instead
+    if (player.eliminated || player.barbarian) continue
     const policy = player.policy ?? DEFAULT_POLICY
 
     const mySettlements = state.settlements.filter((s) => s.owner === player.id)
 
-    // --- NPC-only behaviors: starting settlement, upgrades, powers, expansion ---
+    // --- NPC-only behaviors: diplomacy, starting settlement, upgrades, powers, expansion ---
     if (player.isNpc) {
+      // From autumn until spring, keep enough Food back to see the people
+      // through winter
+      const season = getSeason(state.rules, state.currentTimeMs)
+      const foodReserve =
+        season === "WINTER" || getNextSeason(season) === "WINTER"
+          ? estimateWinterUpkeep(state, player.id)
+          : 0
+      const canAffordKeepingReserve = (cost: ResourceCost) =>
+        canAfford(player.resources, {
+          ...cost,
+          Food: (cost.Food ?? 0) + foodReserve,
+        })
+
+      // Answer every proposal addressed to us according to our stance
+      for (const offer of state.offers ?? []) {
+        if (offer.to !== player.id) continue
+        const accept =
+          npcAcceptsOffer(policy.stance, offer) &&
+          (offer.kind !== "TRADE" || canAffordKeepingReserve(offer.receive))
+
+        actions.push({
+          id: npcActionId(),
+          playerId: player.id,
+          type: "RESPOND_TO_OFFER",
+          payload: { offerId: offer.id, accept },
+          clientTimeMs: state.currentTimeMs,
+        })
+      }
+
+      for (const event of state.worldEvents ?? []) {
+        if (event.playerId !== player.id) continue
+        actions.push({
+          id: npcActionId(),
+          playerId: player.id,
+          type: "RESOLVE_EVENT",
+          payload: {
+            eventId: event.id,
+            choice: chooseNpcWorldEventChoice(state, event),
+          },
+          clientTimeMs: state.currentTimeMs,
+        })
+      }
+
       if (mySettlements.length === 0) {
-        const availableTiles = state.tiles.filter(
-          (t) => t.terrain !== "Water" && !t.settlementId,
+        const freeTiles = state.tiles.filter(
+          (t) =>
+            t.terrain !== "Water" &&
+            !t.settlementId &&
+            !claimedStartTileIds.has(t.id),
         )
+        // Each seat has its own balanced spot. If a human settled on ours,
+        // pick open land that no other seat is counting on.
+        const seat = state.players.findIndex((p) => p.id === player.id)
+        const ownStart = freeTiles.find(
+          (t) => t.id === state.startingTileIds[seat],
+        )
+        const unreserved = freeTiles.filter(
+          (t) => !state.startingTileIds.includes(t.id),
+        )
+        const availableTiles = ownStart
+          ? [ownStart]
+          : unreserved.length > 0
+            ? unreserved
+            : freeTiles
         if (availableTiles.length > 0) {
-          const tile =
-            availableTiles[Math.floor(Math.random() * availableTiles.length)]
+          const tile = pickRandom(npcRng, availableTiles)
+          claimedStartTileIds.add(tile.id)
           actions.push({
-            id: nextId(),
+            id: npcActionId(),
             playerId: player.id,
             type: "PLACE_STARTING_SETTLEMENT",
             payload: { tileId: tile.id },
@@ -144,15 +372,13 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
       if (state.phase === "RUNNING" && mySettlements.length > 0) {
         const settlements = state.settlements.filter((s) => s.owner === player.id)
 
-        const wood = player.resources.Wood ?? 0
-        const stone = player.resources.Stone ?? 0
-        const canUpgrade = wood >= 50 && stone >= 50
+        const canUpgrade = canAfford(player.resources, state.rules.upgradeCost)
 
         if (canUpgrade && settlements.length > 0) {
           const target = [...settlements].sort((a, b) => a.level - b.level)[0]
 
           actions.push({
-            id: nextId(),
+            id: npcActionId(),
             playerId: player.id,
             type: "UPGRADE_SETTLEMENT",
             payload: { settlementId: target.id },
@@ -160,40 +386,102 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
           })
         }
 
-        const belief = player.belief ?? 0
-        if (belief >= 20 && settlements.length > 0) {
-          const target = [...settlements].sort(
-            (a, b) => b.population - a.population,
-          )[0]
-
-          const power: DeityPowerType =
-            Math.random() < 0.5 ? "BLESSED_HARVEST" : "INSPIRED_WORSHIP"
-
+        // Sell spare Food when the treasury won't cover another minute of
+        // soldiers' wages
+        const wagesDue = getWageBill(state, player.id) * 60
+        const spareFood = Math.floor(
+          player.resources.Food - foodReserve - (state.rules.settlementCost.Food ?? 0),
+        )
+        if (player.resources.Gold < wagesDue && spareFood >= 10) {
+          const amount = Math.min(
+            spareFood,
+            Math.ceil((wagesDue * 2) / getUnitPrice(state, "SELL", "Food")),
+          )
           actions.push({
-            id: nextId(),
+            id: npcActionId(),
             playerId: player.id,
-            type: "USE_DEITY_POWER",
-            payload: {
-              power,
-              settlementId: target.id,
-            },
+            type: "SELL_RESOURCE",
+            payload: { resource: "Food", amount },
             clientTimeMs: state.currentTimeMs,
           })
         }
 
+        // Fill a free building slot once there is a comfortable surplus
+        const BUILD_PRIORITY: BuildingType[] = [
+          "GRANARY",
+          "LUMBER_MILL",
+          "QUARRY",
+          "TEMPLE",
+          "BARRACKS",
+        ]
+        const builder = settlements.find(
+          (s) => (s.buildings ?? []).length < getBuildingSlots(state.rules, s),
+        )
+        if (builder) {
+          const choice = BUILD_PRIORITY.find((type) => {
+            const def = state.rules.buildings[type]
+            if (builder.buildings.some((b) => b.type === type)) return false
+            if (
+              def.requiresNearbyTerrain &&
+              !hasNearbyTerrain(state, builder, def.requiresNearbyTerrain)
+            ) {
+              return false
+            }
+            const doubled = Object.fromEntries(
+              Object.entries(def.cost).map(([res, amount]) => [res, amount * 2]),
+            )
+            return canAfford(player.resources, doubled)
+          })
+
+          if (choice) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "CONSTRUCT_BUILDING",
+              payload: { settlementId: builder.id, building: choice },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
+
+        // Cast one ready power, keeping a little Belief in reserve. Only
+        // non-passive NPCs turn their powers against rivals.
+        const belief = player.belief ?? 0
+        const castable = (
+          Object.keys(state.rules.powers) as DeityPowerType[]
+        ).filter((power) => {
+          const def = state.rules.powers[power]
+          if (belief < def.cost + 5) return false
+          if (getPowerCooldownRemaining(state, player, power) > 0) return false
+          return def.target !== "ENEMY_SETTLEMENT" || policy.stance !== "PASSIVE"
+        })
+
+        if (castable.length > 0 && settlements.length > 0) {
+          const power = pickRandom(npcRng, castable)
+          const payload = chooseNpcPowerTarget(state, player.id, power)
+
+          if (payload) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "USE_DEITY_POWER",
+              payload,
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
+
         const settlementsAfter = state.settlements.filter(
           (s) => s.owner === player.id,
         )
         const maxSettlementsForNpc = 4
 
-        const food = player.resources.Food ?? 0
-        const woodForBuild = player.resources.Wood ?? 0
-        const stoneForBuild = player.resources.Stone ?? 0
-
-        const canAffordNewSettlement =
-          food >= 100 && woodForBuild >= 100 && stoneForBuild >= 50
+        const canAffordNewSettlement = canAffordKeepingReserve(
+          state.rules.settlementCost,
+        )
+        // The independents only hold what revolted to them
         const wantMoreSettlements =
-          settlementsAfter.length < maxSettlementsForNpc
+          !player.independent && settlementsAfter.length < maxSettlementsForNpc
 
         if (canAffordNewSettlement && wantMoreSettlements) {
           const candidateTiles: Tile[] = []
@@ -205,7 +493,7 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
             for (const tile of state.tiles) {
               if (tile.terrain === "Water" || tile.settlementId) continue
               const dist = hexDistance(sTile.coord, tile.coord)
-              if (dist <= 3) {
+              if (dist <= state.rules.settlementBuildRange) {
                 candidateTiles.push(tile)
               }
             }
@@ -216,11 +504,10 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
           )
 
           if (uniqueCandidates.length > 0) {
-            const tile =
-              uniqueCandidates[Math.floor(Math.random() * uniqueCandidates.length)]
+            const tile = pickRandom(npcRng, uniqueCandidates)
 
             actions.push({
-              id: nextId(),
+              id: npcActionId(),
               playerId: player.id,
               type: "BUILD_SETTLEMENT",
               payload: { tileId: tile.id },
@@ -228,6 +515,193 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
             })
           }
         }
+
+        // Lay the next stretch of road towards a settlement cut off from
+        // the capital, along the route an army would take
+        const capital = getCapital(state, player.id)
+        const supply = getSupplyStatus(state)
+        const cutOff = settlementsAfter.find((s) => !supply[s.id]?.connected)
+
+        if (
+          capital &&
+          cutOff &&
+          canAffordKeepingReserve(state.rules.roads.cost)
+        ) {
+          const path = findArmyPath(state, capital.tileId, cutOff.tileId) ?? []
+          const next = path
+            .map((id) => findTileById(state, id))
+            .find(
+              (t): t is Tile =>
+                !!t &&
+                !t.road &&
+                !t.settlementId &&
+                t.controller === player.id &&
+                canExtendRoad(state, t, player.id),
+            )
+
+          if (next) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "BUILD_ROAD",
+              payload: { tileId: next.id },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
+
+        // Keep one tile improvement under way, mines first; forests are left
+        // standing for the lumber mills
+        const improving = state.tiles.some(
+          (t) =>
+            t.improvement?.owner === player.id &&
+            t.improvement.completesAtMs !== undefined,
+        )
+        const layingRoad = actions.some(
+          (a) => a.playerId === player.id && a.type === "BUILD_ROAD",
+        )
+
+        if (!improving && !layingRoad) {
+          const improvable = state.tiles
+            .filter((t) => t.controller === player.id && !t.improvement)
+            .map((t) => ({
+              tile: t,
+              improvement: getImprovementForTerrain(state.rules, t),
+            }))
+          const choice = (["MINE", "IRRIGATION", "FISHERY"] as const)
+            .map((type) => improvable.find((c) => c.improvement === type))
+            .find(
+              (c) =>
+                !!c &&
+                canAffordKeepingReserve(
+                  state.rules.improvements.definitions[c.improvement!].cost,
+                ),
+            )
+
+          if (choice) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "IMPROVE_TILE",
+              payload: {
+                tileId: choice.tile.id,
+                improvement: choice.improvement!,
+              },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
+
+        // Raise a wonder in the first settlement grand enough and feed it
+        // a whole stage at a time
+        const wonders = state.wonders ?? []
+        const project = wonders.find(
+          (w) => w.owner === player.id && w.completedAtMs === undefined,
+        )
+
+        if (project) {
+          const shortfall = getWonderStageShortfall(state.rules, project)
+          if (
+            Object.keys(shortfall).length > 0 &&
+            canAffordKeepingReserve(shortfall)
+          ) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "CONTRIBUTE_TO_WONDER",
+              payload: { wonderId: project.id, resources: shortfall },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        } else if (!player.independent) {
+          const site = settlementsAfter.find(
+            (s) =>
+              s.level >= state.rules.wonders.minLevel &&
+              !wonders.some((w) => w.settlementId === s.id),
+          )
+          const wonder = WONDER_TYPES.find(
+            (type) =>
+              !isWonderClaimed(state, type) &&
+              !wonders.some((w) => w.owner === player.id && w.type === type),
+          )
+
+          if (site && wonder) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "START_WONDER",
+              payload: { settlementId: site.id, wonder },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
+
+        // Keep a prophet walking to the nearest rival worshippers
+        const myHeroes = (state.heroes ?? []).filter((h) => h.owner === player.id)
+        const prophets = myHeroes.filter((h) => h.kind === "PROPHET")
+        const prophetHome = settlementsAfter.find((s) => s.worshippers > 1)
+
+        if (
+          prophets.length === 0 &&
+          prophetHome &&
+          !player.independent &&
+          myHeroes.length < state.rules.heroes.maxPerPlayer &&
+          canAffordKeepingReserve(state.rules.heroes.cost.PROPHET)
+        ) {
+          actions.push({
+            id: npcActionId(),
+            playerId: player.id,
+            type: "RECRUIT_HERO",
+            payload: { settlementId: prophetHome.id, kind: "PROPHET" },
+            clientTimeMs: state.currentTimeMs,
+          })
+        }
+
+        for (const prophet of prophets) {
+          const heroTile = findTileById(
+            state,
+            getHeroTileId(prophet, state.currentTimeMs),
+          )
+          if (!heroTile) continue
+
+          let nearest: { settlement: Settlement; distance: number } | null = null
+          for (const s of state.settlements) {
+            if (s.owner === player.id || s.worshippers <= 0) continue
+            if (!areHostile(state, player.id, s.owner)) continue
+            const sTile = findTileById(state, s.tileId)
+            if (!sTile) continue
+            const distance = hexDistance(heroTile.coord, sTile.coord)
+            if (!nearest || distance < nearest.distance) {
+              nearest = { settlement: s, distance }
+            }
+          }
+          if (!nearest) continue
+
+          if (nearest.distance <= state.rules.heroes.abilityRange) {
+            if (getHeroAbilityCooldownRemaining(state, prophet, "CONVERT") > 0) {
+              continue
+            }
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "USE_HERO_ABILITY",
+              payload: {
+                heroId: prophet.id,
+                ability: "CONVERT",
+                settlementId: nearest.settlement.id,
+              },
+              clientTimeMs: state.currentTimeMs,
+            })
+          } else if (!prophet.path) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "MOVE_HERO",
+              payload: { heroId: prophet.id, tileId: nearest.settlement.tileId },
+              clientTimeMs: state.currentTimeMs,
+            })
+          }
+        }
       }
     }
 
@@ -254,6 +728,51 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
           break
       }
 
+      // Meet incoming armies that a nearby settlement can beat outright
+      if (stance !== "PASSIVE") {
+        const incoming = (state.armies ?? []).filter((a) => {
+          const target = findSettlementById(state, a.targetSettlementId)
+          return (
+            target?.owner === player.id && areHostile(state, player.id, a.owner)
+          )
+        })
+
+        for (const army of incoming) {
+          const armyTile = findTileById(
+            state,
+            getArmyTileId(army, state.currentTimeMs),
+          )
+          if (!armyTile) continue
+
+          const interceptor = mySettlements.find((s) => {
+            const sTile = findTileById(state, s.tileId)
+            if (!sTile) return false
+            const sent = Math.floor((s.defenders * commitPercent) / 100)
+            const strength = getDefenseMultiplier(state, s)
+            return (
+              hexDistance(sTile.coord, armyTile.coord) <=
+                state.rules.interceptRange &&
+              sent * strength > army.size * army.strength
+            )
+          })
+
+          if (interceptor) {
+            actions.push({
+              id: npcActionId(),
+              playerId: player.id,
+              type: "INTERCEPT_ARMY",
+              payload: {
+                armyId: army.id,
+                fromSettlementId: interceptor.id,
+                interceptorPercent: commitPercent,
+              },
+              clientTimeMs: state.currentTimeMs,
+            })
+            break
+          }
+        }
+      }
+
       if (raidChance > 0) {
         const totalDefenders = mySettlements.reduce(
           (sum, s) => sum + s.defenders,
@@ -261,29 +780,29 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
         )
 
         const enemySettlements = state.settlements.filter(
-          (s) => s.owner !== player.id,
+          (s) => s.owner !== player.id && areHostile(state, player.id, s.owner),
         )
 
         if (
           enemySettlements.length > 0 &&
           totalDefenders >= minDefendersForRaid &&
-          Math.random() < raidChance
+          nextRandom(npcRng) < raidChance
         ) {
           const from = mySettlements.find(
             (s) => s.defenders >= minDefendersForRaid / 2,
           )
-          const target =
-            enemySettlements[Math.floor(Math.random() * enemySettlements.length)]
+          const target = pickRandom(npcRng, enemySettlements)
 
           if (from && target) {
             actions.push({
-              id: nextId(),
+              id: npcActionId(),
               playerId: player.id,
               type: "RAID_SETTLEMENT",
               payload: {
                 fromSettlementId: from.id,
                 targetSettlementId: target.id,
                 raiderPercent: commitPercent,
+                intent: stance === "AGGRESSIVE" ? "CONQUER" : "PLUNDER",
               },
               clientTimeMs: state.currentTimeMs,
             })
@@ -296,26 +815,6 @@ export function computeNpcActions(state: GameState): AnyPlayerAction[] {
   return actions
 }
 
-// Count controlled tiles per player
-function countControlledTiles(state: GameState): Record<PlayerId, number> {
-  const result: Record<PlayerId, number> = {}
-
-  for (const player of state.players) {
-    result[player.id] = 0
-  }
-
-  for (const tile of state.tiles) {
-    const owner = tile.controller
-    if (!owner) continue
-    if (result[owner] == null) {
-      result[owner] = 0
-    }
-    result[owner] += 1
-  }
-
-  return result
-}
-
 function computeRoleCountsFromPercents(
   population: number,
   workersPercent: number,
@@ -342,35 +841,15 @@ function computeRoleCountsFromPercents(
   return { workers, worshippers, defenders }
 }
 
-function emptyResourceRecord(): Record<ResourceType, number> {
-  return {
-    Food: 0,
-    Wood: 0,
-    Stone: 0,
-    Gold: 0,
-    Belief: 0,
-  }
-}
-
-function subtractResources(
-  base: Record<ResourceType, number>,
-  cost: Partial<Record<ResourceType, number>>,
-): Record<ResourceType, number> {
-  const next: Record<ResourceType, number> = { ...base }
-  ;(Object.keys(cost) as ResourceType[]).forEach((res) => {
-    const c = cost[res] ?? 0
-    const current = next[res] ?? 0
-    next[res] = Math.max(0, current - c)
-  })
-  return next
-}
-
 /**
- * Create a small initial map and players.
+ * Create the initial map and players.
  * Later, the "id" will match the room id from the backend.
  */
-export function createInitialGameState(gameId: string): GameState {
-  const tiles: Tile[] = createSmallHexMap()
+export function createInitialGameState(
+  gameId: string,
+  options: GameSetupOptions = {},
+): GameState {
+  const seed = options.seed ?? seedFromString(gameId)
 
   const players: Player[] = [
     createPlayer("PLAYER_1", "Player 1", false, { ...DEFAULT_POLICY }),
@@ -383,6 +862,30 @@ export function createInitialGameState(gameId: string): GameState {
     }),
   ]
 
+  const mapOptions: MapGenOptions = {
+    ...DEFAULT_MAP_OPTIONS,
+    ...options.map,
+    terrainWeights: {
+      ...DEFAULT_MAP_OPTIONS.terrainWeights,
+      ...options.map?.terrainWeights,
+    },
+  }
+  const { tiles, startingTileIds } = generateMap(
+    mapOptions,
+    mapOptions.seed ?? seed,
+    players.length,
+  )
+
+  const rules = structuredClone(RULE_PRESETS[options.rules ?? "standard"])
+  rules.worldEvents.chancePerSecond *=
+    WORLD_EVENT_FREQUENCY_SCALE[options.worldEvents ?? "normal"]
+  rules.barbarians.spawnChancePerSecond *=
+    WORLD_EVENT_FREQUENCY_SCALE[options.barbarians ?? "normal"]
+  rules.barbarians.camp = scaleCampTemplate(
+    rules.barbarians.camp,
+    BARBARIAN_STRENGTH_SCALE[options.barbarianStrength ?? "normal"],
+  )
+
   return {
     id: gameId,
     tiles,
@@ -390,42 +893,32 @@ export function createInitialGameState(gameId: string): GameState {
     players,
     phase: "LOBBY",
     currentTimeMs: 0,
+    startingTileIds,
     winnerId: undefined,
+    rules,
+    victoryConditions: {
+      ...DEFAULT_VICTORY_CONDITIONS,
+      enabled: [
+        ...DEFAULT_VICTORY_CONDITIONS.enabled,
+        ...(options.wonderVictory ? (["WONDER"] as const) : []),
+      ],
+    },
     buffs: [],
+    armies: [],
+    heroes: [],
+    weather: [],
+    market: createMarketState(rules),
+    wonders: [],
+    worldEvents: [],
+    exploredTileIds: {},
+    relations: [],
+    offers: [],
+    events: [],
+    rng: createRngState(seed),
+    nextEntityId: 0,
   }
 }
 
-// For now, just create a tiny axial grid (radius 3) with some basic terrain
-function createSmallHexMap(): Tile[] {
-  const tiles: Tile[] = []
-  const radius = 3 // expanded map
-
-  for (let q = -radius; q <= radius; q++) {
-    for (let r = -radius; r <= radius; r++) {
-      // Simple constraint to make a roughly hex-shaped area
-      if (Math.abs(q + r) > radius) continue
-
-      const terrain = pickTerrainForCoord(q, r)
-      tiles.push({
-        id: `tile_${q}_${r}`,
-        coord: { q, r },
-        terrain,
-      })
-    }
-  }
-
-  return tiles
-}
-
-function pickTerrainForCoord(q: number, r: number): TerrainType {
-  const hash = (q * 31 + r * 17 + 9999) % 100
-  if (hash < 25) return "Field"
-  if (hash < 40) return "FertileField"
-  if (hash < 65) return "Forest"
-  if (hash < 85) return "Mountain"
-  return "Water"
-}
-
 function createPlayer(
   id: PlayerId,
   name: string,
@@ -452,15 +945,44 @@ function createPlayer(
   }
 }
 
+export interface ActionResult {
+  state: GameState
+  rejection: ActionRejection | null
+}
+
 /**
  * Core reducer for the game. This is what the host will use to apply
  * incoming real-time actions and derive the next authoritative GameState.
  *
- * For now, we implement NOOP and TICK and leave other actions as TODO.
+ * Invalid actions leave the state untouched. Once the game reaches
+ * GAME_OVER the state is frozen and every action, including TICK, is ignored.
  */
 export function reduceGameState(
   prev: GameState,
   action: AnyPlayerAction,
+): GameState {
+  return applyAction(prev, action).state
+}
+
+/**
+ * Like reduceGameState, but also reports why an action was refused so the
+ * host can tell the player who sent it.
+ */
+export function applyAction(
+  prev: GameState,
+  action: AnyPlayerAction,
+): ActionResult {
+  const rejection = validateAction(prev, action)
+  if (rejection) {
+    return { state: prev, rejection }
+  }
+  return { state: reduceValidAction(prev, action), rejection: null }
+}
+
+// Apply an action that already passed validateAction
+function reduceValidAction(
+  prev: GameState,
+  action: AnyPlayerAction,
 ): GameState {
   // Always work on a shallow copy so we don't mutate previous state.
   let state: GameState = { ...prev }
@@ -469,11 +991,7 @@ export function reduceGameState(
 
   switch (actionType) {
     case "NOOP": {
-      // Debug action – do nothing except advance logical time slightly
-      state.currentTimeMs = Math.max(
-        state.currentTimeMs,
-        action.clientTimeMs,
-      )
+      // Debug action – does nothing
       return state
     }
 
@@ -489,24 +1007,51 @@ export function reduceGameState(
       const activeBuffs = (state.buffs ?? []).filter(
         (buff) => buff.expiresAtMs > nextTime,
       )
+      for (const buff of state.buffs ?? []) {
+        if (buff.expiresAtMs > nextTime) continue
+        recordEvent(state, {
+          type: "BUFF_EXPIRED",
+          buffId: buff.id,
+          settlementId: buff.settlementId,
+          owner: buff.owner,
+          power: buff.type,
+        })
+      }
       state.buffs = activeBuffs
 
       // Recompute controllers for territory
       state = assignTileControllers(state)
-      const controlledCounts = countControlledTiles(state)
 
       // Only run economy if the game is actually running
       if (state.phase !== "RUNNING") {
         return state
       }
 
+      state = advanceSeasons(state, nextTime - deltaMs)
+      state = updateMarket(state, nextTime - deltaMs)
+      state = expireWorldEvents(state)
+      state = rollWorldEvents(state, seconds)
+      state = spawnBarbarianCamps(state, seconds)
+      state = expireDiplomacy(state)
+      state = resolveArmyArrivals(state)
+      state = advanceHeroes(state, seconds)
+      state = advanceImprovements(state)
+      state = recordExploration(state)
+
+      const season = getSeasonModifiers(state)
+      const supply = getSupplyStatus(state)
+      const cutOff = (s: Settlement) => supply[s.id]?.connected === false
+
       // Initialize income per player
       const incomes: Record<PlayerId, Record<ResourceType, number>> = {}
       for (const player of state.players) {
         incomes[player.id] = emptyResourceRecord()
       }
+      // Food harvested by settlements cut off from the capital's store
+      const localFood: Record<string, number> = {}
 
       // Accumulate income from each settlement
+      const harvestTiles = assignHarvestTiles(state)
       for (const settlement of state.settlements) {
         const tile = findTileById(state, settlement.tileId)
         if (!tile) continue
@@ -515,64 +1060,63 @@ export function reduceGameState(
         const bucket = incomes[ownerId]
         if (!bucket) continue
 
-        const workers = settlement.workers
         const worshippers = settlement.worshippers
 
-        const buffsForSettlement = state.buffs.filter(
-          (b) => b.settlementId === settlement.id,
-        )
-
-        let workerMultiplier = 1
-        let worshipperMultiplier = 1
+        const buildingEffects = getBuildingEffects(state.rules, settlement)
+        const yieldBoost = buildingEffects.yieldMultipliers
+
+        const powerModifiers = getPowerModifiers(state, settlement.id)
+        const weather = getWeatherModifiers(state, settlement.tileId)
+        const morale = getMoraleYieldFactor(state.rules, settlement.morale)
+        const faith = getFaithYieldFactor(state.rules.faith, settlement)
+        const workerMultiplier =
+          state.rules.yieldMultiplier *
+          powerModifiers.workerMultiplier *
+          weather.yieldMultiplier *
+          morale *
+          faith
+        const foodMultiplier =
+          powerModifiers.foodMultiplier *
+          season.foodYield *
+          weather.foodMultiplier
+        const worshipperMultiplier =
+          state.rules.yieldMultiplier *
+          buildingEffects.worshipperMultiplier *
+          powerModifiers.worshipperMultiplier *
+          morale *
+          faith
+
+        // Workers harvest the controlled tiles around the settlement
+        if (settlement.workers > 0) {
+          const harvest = computeSettlementHarvest(
+            state,
+            settlement,
+            harvestTiles[settlement.id] ?? [],
+          )
 
-        for (const buff of buffsForSettlement) {
-          if (buff.type === "BLESSED_HARVEST") {
-            workerMultiplier *= 2
-          } else if (buff.type === "INSPIRED_WORSHIP") {
-            worshipperMultiplier *= 2
-          }
+          ;(Object.keys(harvest.yields) as ResourceType[]).forEach((res) => {
+            const foodModifier = res === "Food" ? foodMultiplier : 1
+            const amount =
+              harvest.yields[res] *
+              workerMultiplier *
+              yieldBoost[res] *
+              foodModifier *
+              seconds
+            if (res === "Food" && cutOff(settlement)) {
+              localFood[settlement.id] = (localFood[settlement.id] ?? 0) + amount
+            } else {
+              bucket[res] += amount
+            }
+          })
         }
 
-        // Territory bonus: more controlled tiles => better yields
-        const territoryTiles = controlledCounts[ownerId] ?? 0
-        const territoryBoost = 1 + Math.min(territoryTiles * 0.02, 2)
-
-        // Workers gather from the terrain of their tile
-        if (workers > 0) {
-          let foodGain = workers * 1
-          let woodGain = workers * 0.5
-          let stoneGain = workers * 0.25
-
-          switch (tile.terrain) {
-            case "Field":
-              foodGain += workers * 1
-              break
-            case "FertileField":
-              foodGain += workers * 2
-              break
-            case "Forest":
-              woodGain += workers * 1
-              break
-            case "Mountain":
-              stoneGain += workers * 1
-              break
-            case "Water":
-              bucket.Gold +=
-                workers * 0.25 * workerMultiplier * territoryBoost
-              break
-            default:
-              break
-          }
-
-          bucket.Food += foodGain * workerMultiplier * territoryBoost
-          bucket.Wood += woodGain * workerMultiplier * territoryBoost
-          bucket.Stone += stoneGain * workerMultiplier * territoryBoost
-        }
+        // Trade along the roads
+        bucket.Gold +=
+          getTradeGoldPerSecond(state, supply[settlement.id]) * seconds
 
         // Worshippers generate belief
         if (worshippers > 0) {
-          const beliefGain = worshippers * worshipperMultiplier * territoryBoost
-          bucket.Belief += beliefGain
+          bucket.Belief += worshippers * worshipperMultiplier * seconds
         }
       }
 
@@ -599,9 +1143,13 @@ export function reduceGameState(
         }
       })
 
+      // --- Soldiers' wages, paid from the Gold just earned ---
+
+      state = payWages(state, seconds)
+
       // --- Food upkeep & starvation gating ---
 
-      const UPKEEP_PER_PERSON_PER_SECOND = 0.05
+      const { upkeepPerPersonPerSecond } = state.rules
 
       const starvingPlayers: Record<PlayerId, boolean> = {}
       const popByPlayer: Record<PlayerId, number> = {}
@@ -611,15 +1159,29 @@ export function reduceGameState(
         popByPlayer[player.id] = 0
       }
 
+      // Granaries reduce how much each person eats. Settlements cut off
+      // from the capital feed themselves; their surplus spoils.
+      const hungrySettlements = new Set<string>()
       for (const s of state.settlements) {
-        popByPlayer[s.owner] = (popByPlayer[s.owner] ?? 0) + s.population
+        // Barbarian camps live off the land
+        if (s.camp) continue
+        const { upkeepMultiplier } = getBuildingEffects(state.rules, s)
+        const eaters = s.population * upkeepMultiplier
+        if (cutOff(s)) {
+          const required =
+            eaters * upkeepPerPersonPerSecond * season.upkeep * seconds
+          if ((localFood[s.id] ?? 0) < required) hungrySettlements.add(s.id)
+          continue
+        }
+        popByPlayer[s.owner] = (popByPlayer[s.owner] ?? 0) + eaters
       }
 
       state.players = state.players.map((player) => {
         const totalPop = popByPlayer[player.id] ?? 0
         if (totalPop <= 0) return player
 
-        const requiredFood = totalPop * UPKEEP_PER_PERSON_PER_SECOND * seconds
+        const requiredFood =
+          totalPop * upkeepPerPersonPerSecond * season.upkeep * seconds
         const currentFood = player.resources.Food ?? 0
 
         if (requiredFood <= 0) {
@@ -648,10 +1210,41 @@ export function reduceGameState(
         }
       })
 
+      // Record starvation starting or ending
+      state.players = state.players.map((player) => {
+        const starving = starvingPlayers[player.id] ?? false
+        if (starving === !!player.isStarving) return player
+
+        if (starving) {
+          recordEvent(state, { type: "STARVATION_STARTED", playerId: player.id })
+        } else {
+          recordEvent(state, { type: "STARVATION_ENDED", playerId: player.id })
+        }
+        return { ...player, isStarving: starving }
+      })
+
+      state.settlements = state.settlements.map((s) => {
+        const starving = cutOff(s)
+          ? hungrySettlements.has(s.id)
+          : (starvingPlayers[s.owner] ?? false)
+        return starving === !!s.isStarving ? s : { ...s, isStarving: starving }
+      })
+
+      // --- Storage: overflow is lost, surplus Food spoils ---
+
+      state = enforceStorage(state, seconds)
+
+      // --- Faith, which may win settlements over to rival deities ---
+
+      state = spreadFaith(state, seconds)
+
+      // --- Morale, which may end in revolt ---
+
+      state = updateMorale(state, seconds)
+
       // --- Population growth (blocked by starvation) ---
 
-      const GROWTH_RATE_PER_SECOND = 0.05
-      const GROWTH_THRESHOLD = 10
+      const { growthRatePerSecond, growthThreshold } = state.rules
 
       state.settlements = state.settlements.map((settlement) => {
         let s = { ...settlement }
@@ -660,14 +1253,18 @@ export function reduceGameState(
           return s
         }
 
-        if (starvingPlayers[s.owner]) {
+        if (s.isStarving) {
           return s
         }
 
-        s.growthProgress += s.population * GROWTH_RATE_PER_SECOND * seconds
+        const growthMultiplier =
+          season.growth *
+          getWeatherModifiers(state, s.tileId).growthMultiplier
+        s.growthProgress +=
+          s.population * growthRatePerSecond * growthMultiplier * seconds
 
-        while (s.growthProgress >= GROWTH_THRESHOLD && s.population < s.populationCap) {
-          s.growthProgress -= GROWTH_THRESHOLD
+        while (s.growthProgress >= growthThreshold && s.population < s.populationCap) {
+          s.growthProgress -= growthThreshold
           s.population += 1
           s.workers += 1
         }
@@ -675,7 +1272,14 @@ export function reduceGameState(
         return s
       })
 
-      // --- Auto role allocation from faction policy ---
+      state = applyPlague(state, seconds)
+      state = removeEmptySettlements(state)
+
+      // --- Wonders, raised by worshipper labour ---
+
+      state = advanceWonders(state, seconds)
+
+      // --- Auto role allocation from each settlement's role mode ---
 
       state.settlements = state.settlements.map((settlement) => {
         const player = getPlayer(state, settlement.owner)
@@ -686,7 +1290,8 @@ export function reduceGameState(
         const pop = settlement.population
         if (pop <= 0) return settlement
 
-        const { workersPercent, worshippersPercent, defendersPercent } = policy
+        const { workersPercent, worshippersPercent, defendersPercent } =
+          getSettlementRolePercents(state.rules, settlement, policy)
 
         const { workers, worshippers, defenders } = computeRoleCountsFromPercents(
           pop,
@@ -711,20 +1316,17 @@ export function reduceGameState(
         }
       })
 
-      return state
+      // --- Victory check ---
+
+      return evaluateVictory(state)
     }
 
     case "PLACE_STARTING_SETTLEMENT": {
+      // Validation ensures one starting settlement per player, on a free
+      // non-water tile
       const player = getPlayer(state, action.playerId)
       if (!player) return state
 
-      // Each player can only place ONE starting settlement
-      const alreadyHasSettlement =
-        countSettlementsForPlayer(state, player.id) > 0
-      if (alreadyHasSettlement) {
-        return state
-      }
-
       const payload = action
         .payload as PlaceStartingSettlementPayload | undefined
       if (!payload) return state
@@ -732,29 +1334,23 @@ export function reduceGameState(
       const tile = findTileById(state, payload.tileId)
       if (!tile) return state
 
-      // Cannot place on water or on an already occupied tile
-      if (tile.terrain === "Water" || tile.settlementId) {
-        return state
-      }
-
       // Create a basic starting settlement with small population
-      const settlementId = nextId()
-      const population = 10
-      const workers = 6
-      const worshippers = 2
-      const defenders = 2
+      const settlementId = nextId(state)
+      const template = state.rules.startingSettlement
 
       const newSettlement = {
         id: settlementId,
         owner: player.id,
         tileId: tile.id,
         level: 1,
-        population,
-        workers,
-        worshippers,
-        defenders,
-        populationCap: 20,
+        population: template.population,
+        workers: template.workers,
+        worshippers: template.worshippers,
+        defenders: template.defenders,
+        populationCap: template.populationCap,
         growthProgress: 0,
+        morale: state.rules.morale.initial,
+        buildings: [],
       }
 
       const updatedSettlements = [...state.settlements, newSettlement]
@@ -772,13 +1368,31 @@ export function reduceGameState(
         settlements: updatedSettlements,
       }
 
-      // Give the player 1 victory point for their starting settlement
+      // Give the player 1 victory point for their starting settlement and
+      // a treasury to pay their first soldiers from
       const updatedPlayers = state.players.map((p) =>
-        p.id === player.id ? { ...p, victoryPoints: p.victoryPoints + 1 } : p,
+        p.id === player.id
+          ? {
+              ...p,
+              victoryPoints: p.victoryPoints + 1,
+              resources: {
+                ...p.resources,
+                Gold: p.resources.Gold + state.rules.startingGold,
+              },
+            }
+          : p,
       )
 
       state.players = updatedPlayers
 
+      recordEvent(state, {
+        type: "SETTLEMENT_FOUNDED",
+        settlementId,
+        owner: player.id,
+        tileId: tile.id,
+        starting: true,
+      })
+
       const humanPlayers = state.players.filter((p) => !p.isNpc)
       const npcPlayers = state.players.filter((p) => p.isNpc)
 
@@ -791,62 +1405,29 @@ export function reduceGameState(
         npcPlayers.every((p) => playerHasSettlement(state, p.id))
 
       if (anyHumanReady && allNpcsReady && state.phase !== "RUNNING") {
+        recordEvent(state, {
+          type: "PHASE_CHANGED",
+          from: state.phase,
+          to: "RUNNING",
+        })
         state.phase = "RUNNING"
       }
 
-      // Advance logical time
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
-
       return state
     }
 
     case "BUILD_SETTLEMENT": {
+      // Validation covers phase, terrain, range and cost
       const payload = action.payload as BuildSettlementPayload | undefined
       if (!payload) return state
 
-      if (state.phase !== "RUNNING") {
-        return state
-      }
-
       const tile = findTileById(state, payload.tileId)
       if (!tile) return state
 
-      if (tile.terrain === "Water" || tile.settlementId) {
-        return state
-      }
-
       const player = getPlayer(state, action.playerId)
       if (!player) return state
 
-      const mySettlements = state.settlements.filter((s) => s.owner === player.id)
-      if (mySettlements.length === 0) {
-        return state
-      }
-
-      const withinRange = mySettlements.some((s) => {
-        const sTile = findTileById(state, s.tileId)
-        if (!sTile) return false
-        const dist = hexDistance(sTile.coord, tile.coord)
-        return dist <= 3
-      })
-
-      if (!withinRange) {
-        return state
-      }
-
-      const cost: Partial<Record<ResourceType, number>> = {
-        Food: 100,
-        Wood: 100,
-        Stone: 50,
-      }
-
-      const food = player.resources.Food ?? 0
-      const wood = player.resources.Wood ?? 0
-      const stone = player.resources.Stone ?? 0
-
-      if (food < (cost.Food ?? 0) || wood < (cost.Wood ?? 0) || stone < (cost.Stone ?? 0)) {
-        return state
-      }
+      const cost = state.rules.settlementCost
 
       state.players = state.players.map((p) => {
         if (p.id !== player.id) return p
@@ -854,20 +1435,24 @@ export function reduceGameState(
         return {
           ...p,
           resources: newResources,
+          victoryPoints: p.victoryPoints + 1,
         }
       })
 
+      const template = state.rules.newSettlement
       const settlement: Settlement = {
-        id: nextId(),
+        id: nextId(state),
         owner: action.playerId,
         tileId: tile.id,
-        population: 5,
-        workers: 3,
-        worshippers: 1,
-        defenders: 1,
+        population: template.population,
+        workers: template.workers,
+        worshippers: template.worshippers,
+        defenders: template.defenders,
         level: 1,
-        populationCap: 15,
+        populationCap: template.populationCap,
         growthProgress: 0,
+        morale: state.rules.morale.initial,
+        buildings: [],
       }
 
       const updatedSettlements = [...state.settlements, settlement]
@@ -883,7 +1468,13 @@ export function reduceGameState(
         tiles: updatedTiles,
       }
 
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
+      recordEvent(state, {
+        type: "SETTLEMENT_FOUNDED",
+        settlementId: settlement.id,
+        owner: settlement.owner,
+        tileId: tile.id,
+        starting: false,
+      })
 
       return state
     }
@@ -895,22 +1486,23 @@ export function reduceGameState(
       const settlement = findSettlementById(state, payload.settlementId)
       if (!settlement) return state
 
-      // Only the owner of the settlement can change roles
-      if (settlement.owner !== action.playerId) {
-        return state
-      }
-
       const population = settlement.population
-      const { workersPercent, worshippersPercent, defendersPercent } = payload
+      const clampPercent = (v: number) => Math.max(0, Math.min(100, v))
+      const manualRoles = {
+        workersPercent: clampPercent(payload.workersPercent),
+        worshippersPercent: clampPercent(payload.worshippersPercent),
+        defendersPercent: clampPercent(payload.defendersPercent),
+      }
 
       const { workers, worshippers, defenders } =
         computeRoleCountsFromPercents(
           population,
-          workersPercent,
-          worshippersPercent,
-          defendersPercent,
+          manualRoles.workersPercent,
+          manualRoles.worshippersPercent,
+          manualRoles.defendersPercent,
         )
 
+      // The split sticks: TICK keeps applying it until the mode changes
       const updatedSettlements = state.settlements.map((s) =>
         s.id === settlement.id
           ? {
@@ -918,6 +1510,8 @@ export function reduceGameState(
               workers,
               worshippers,
               defenders,
+              roleMode: "MANUAL" as const,
+              manualRoles,
             }
           : s,
       )
@@ -927,8 +1521,178 @@ export function reduceGameState(
         settlements: updatedSettlements,
       }
 
-      // Advance time a bit (optional)
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
+      return state
+    }
+
+    case "SET_ROLE_MODE": {
+      const payload = action.payload as SetRoleModePayload | undefined
+      if (!payload) return state
+
+      const settlement = findSettlementById(state, payload.settlementId)
+      const player = getPlayer(state, action.playerId)
+      if (!settlement || !player) return state
+
+      const updated = { ...settlement, roleMode: payload.mode }
+      const { workersPercent, worshippersPercent, defendersPercent } =
+        getSettlementRolePercents(
+          state.rules,
+          updated,
+          player.policy ?? DEFAULT_POLICY,
+        )
+      const counts = computeRoleCountsFromPercents(
+        updated.population,
+        workersPercent,
+        worshippersPercent,
+        defendersPercent,
+      )
+
+      state.settlements = state.settlements.map((s) =>
+        s.id === settlement.id ? { ...updated, ...counts } : s,
+      )
+
+      return state
+    }
+
+    case "BUY_RESOURCE":
+    case "SELL_RESOURCE": {
+      // Validation covers the good, the amount and what the player holds
+      const payload = action.payload as MarketOrderPayload | undefined
+      if (!payload) return state
+
+      executeMarketOrder(
+        state,
+        action.playerId,
+        actionType === "BUY_RESOURCE" ? "BUY" : "SELL",
+        payload.resource,
+        payload.amount,
+      )
+
+      return state
+    }
+
+    case "BUILD_ROAD": {
+      // Validation covers control, terrain, adjacency and cost
+      const payload = action.payload as BuildRoadPayload | undefined
+      if (!payload) return state
+
+      state.players = state.players.map((p) =>
+        p.id === action.playerId
+          ? {
+              ...p,
+              resources: subtractResources(p.resources, state.rules.roads.cost),
+            }
+          : p,
+      )
+      state.tiles = state.tiles.map((t) =>
+        t.id === payload.tileId ? { ...t, road: true } : t,
+      )
+
+      recordEvent(state, {
+        type: "ROAD_BUILT",
+        owner: action.playerId,
+        tileId: payload.tileId,
+      })
+
+      return state
+    }
+
+    case "IMPROVE_TILE": {
+      // Validation covers control, terrain, works already there and cost
+      const payload = action.payload as ImproveTilePayload | undefined
+      if (!payload) return state
+
+      startImprovement(state, action.playerId, payload.tileId, payload.improvement)
+
+      return state
+    }
+
+    case "START_WONDER": {
+      // Validation covers ownership, level and wonders already standing
+      const payload = action.payload as StartWonderPayload | undefined
+      if (!payload) return state
+
+      startWonder(state, payload.settlementId, payload.wonder)
+
+      return state
+    }
+
+    case "CONTRIBUTE_TO_WONDER": {
+      const payload = action.payload as ContributeToWonderPayload | undefined
+      if (!payload) return state
+
+      contributeToWonder(state, payload.wonderId, payload.resources)
+
+      return state
+    }
+
+    case "RECRUIT_HERO": {
+      // Validation covers ownership, the hero limit, recruits and cost
+      const payload = action.payload as RecruitHeroPayload | undefined
+      if (!payload) return state
+
+      recruitHero(state, payload.settlementId, payload.kind)
+
+      return state
+    }
+
+    case "MOVE_HERO": {
+      const payload = action.payload as MoveHeroPayload | undefined
+      if (!payload) return state
+
+      moveHero(state, payload.heroId, payload.tileId)
+
+      return state
+    }
+
+    case "USE_HERO_ABILITY": {
+      const payload = action.payload as UseHeroAbilityPayload | undefined
+      if (!payload) return state
+
+      performHeroAbility(
+        state,
+        payload.heroId,
+        payload.ability,
+        payload.settlementId,
+      )
+
+      return state
+    }
+
+    case "ANNEX_CAMP": {
+      // Validation covers reach and the Gold to pay
+      const payload = action.payload as AnnexCampPayload | undefined
+      if (!payload) return state
+
+      annexCamp(state, action.playerId, payload.settlementId)
+
+      return state
+    }
+
+    case "HIRE_MERCENARIES": {
+      const payload = action.payload as HireMercenariesPayload | undefined
+      if (!payload) return state
+
+      const settlement = findSettlementById(state, payload.settlementId)
+      if (!settlement) return state
+
+      const cost = { Gold: payload.count * state.rules.mercenaryCost }
+      state.players = state.players.map((p) =>
+        p.id === action.playerId
+          ? { ...p, resources: subtractResources(p.resources, cost) }
+          : p,
+      )
+      state.settlements = state.settlements.map((s) =>
+        s.id === settlement.id
+          ? { ...s, mercenaries: (s.mercenaries ?? 0) + payload.count }
+          : s,
+      )
+
+      recordEvent(state, {
+        type: "MERCENARIES_HIRED",
+        playerId: action.playerId,
+        settlementId: settlement.id,
+        count: payload.count,
+      })
 
       return state
     }
@@ -954,7 +1718,6 @@ export function reduceGameState(
         }
       })
 
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
       return state
     }
 
@@ -962,36 +1725,15 @@ export function reduceGameState(
       const payload = action.payload as UseDeityPowerPayload | undefined
       if (!payload) return state
 
-      const settlement = findSettlementById(state, payload.settlementId)
-      if (!settlement) return state
-
-      if (settlement.owner !== action.playerId) {
-        return state
-      }
-
       const player = getPlayer(state, action.playerId)
       if (!player) return state
 
-      let cost = 0
-      let durationMs = 15000
+      const { cost, durationMs, cooldownMs } = state.rules.powers[payload.power]
+      const settlement = payload.settlementId
+        ? findSettlementById(state, payload.settlementId)
+        : undefined
 
-      switch (payload.power) {
-        case "BLESSED_HARVEST":
-          cost = 10
-          break
-        case "INSPIRED_WORSHIP":
-          cost = 15
-          break
-        default:
-          return state
-      }
-
-      const currentBelief = player.resources.Belief ?? 0
-      if (currentBelief < cost) {
-        return state
-      }
-
-      const updatedPlayers = state.players.map((p) => {
+      state.players = state.players.map((p) => {
         if (p.id !== player.id) return p
         const newResources = subtractResources(p.resources, { Belief: cost })
         const newBelief = newResources.Belief ?? 0
@@ -1000,24 +1742,50 @@ export function reduceGameState(
           resources: newResources,
           belief: newBelief,
           maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
+          powerCooldowns: {
+            ...p.powerCooldowns,
+            [payload.power]: state.currentTimeMs + cooldownMs,
+          },
         }
       })
 
-      const newBuff: SettlementBuff = {
-        id: nextId(),
-        settlementId: settlement.id,
-        owner: settlement.owner,
-        type: payload.power,
-        expiresAtMs: state.currentTimeMs + durationMs,
-      }
+      if (durationMs > 0 && settlement) {
+        // Recasting refreshes the existing effect instead of stacking it
+        const newBuff: SettlementBuff = {
+          id: nextId(state),
+          settlementId: settlement.id,
+          owner: settlement.owner,
+          casterId: player.id,
+          type: payload.power,
+          expiresAtMs: state.currentTimeMs + durationMs,
+        }
 
-      state = {
-        ...state,
-        players: updatedPlayers,
-        buffs: [...(state.buffs ?? []), newBuff],
+        state.buffs = [
+          ...(state.buffs ?? []).filter(
+            (b) =>
+              !(b.settlementId === settlement.id && b.type === payload.power),
+          ),
+          newBuff,
+        ]
+      } else {
+        state = applyInstantPower(state, payload.power, payload)
+        if (settlement) {
+          shiftMorale(
+            state,
+            settlement.id,
+            state.rules.morale.powerEffects[payload.power] ?? 0,
+          )
+        }
       }
 
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
+      recordEvent(state, {
+        type: "POWER_CAST",
+        casterId: player.id,
+        power: payload.power,
+        settlementId: settlement?.id,
+        tileId: payload.tileId,
+        targetOwner: settlement?.owner,
+      })
 
       return state
     }
@@ -1029,34 +1797,19 @@ export function reduceGameState(
       const settlement = findSettlementById(state, payload.settlementId)
       if (!settlement) return state
 
-      if (settlement.owner !== action.playerId) {
-        return state
-      }
-
       const player = getPlayer(state, action.playerId)
       if (!player) return state
 
-      const costWood = 50
-      const costStone = 50
+      const cost = state.rules.upgradeCost
 
-      const currentWood = player.resources.Wood ?? 0
-      const currentStone = player.resources.Stone ?? 0
-
-      if (currentWood < costWood || currentStone < costStone) {
-        return state
-      }
+      if (payload.rush) payRushCost(state, player.id, cost)
 
       state.players = state.players.map((p) => {
         if (p.id !== player.id) return p
-        const newResources: Record<ResourceType, number> = {
-          ...p.resources,
-          Wood: currentWood - costWood,
-          Stone: currentStone - costStone,
-        }
-        return {
-          ...p,
-          resources: newResources,
-        }
+        const newResources = payload.rush
+          ? p.resources
+          : subtractResources(p.resources, cost)
+        return { ...p, resources: newResources }
       })
 
       const updatedSettlements = state.settlements.map((s) =>
@@ -1064,7 +1817,7 @@ export function reduceGameState(
           ? {
               ...s,
               level: s.level + 1,
-              populationCap: s.populationCap + 10,
+              populationCap: s.populationCap + state.rules.upgradePopulationCapBonus,
             }
           : s,
       )
@@ -1074,7 +1827,87 @@ export function reduceGameState(
         settlements: updatedSettlements,
       }
 
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
+      recordEvent(state, {
+        type: "SETTLEMENT_UPGRADED",
+        settlementId: settlement.id,
+        owner: settlement.owner,
+        level: settlement.level + 1,
+      })
+
+      return state
+    }
+
+    case "CONSTRUCT_BUILDING": {
+      // Validation covers ownership, slots, duplicates, terrain and cost
+      const payload = action.payload as ConstructBuildingPayload | undefined
+      if (!payload) return state
+
+      const settlement = findSettlementById(state, payload.settlementId)
+      if (!settlement) return state
+
+      const cost = state.rules.buildings[payload.building].cost
+
+      state.players = state.players.map((p) => {
+        if (p.id !== action.playerId) return p
+        return {
+          ...p,
+          resources: subtractResources(p.resources, cost),
+        }
+      })
+
+      const building = { id: nextId(state), type: payload.building }
+      state.settlements = state.settlements.map((s) =>
+        s.id === settlement.id
+          ? { ...s, buildings: [...(s.buildings ?? []), building] }
+          : s,
+      )
+
+      recordEvent(state, {
+        type: "BUILDING_CONSTRUCTED",
+        settlementId: settlement.id,
+        owner: settlement.owner,
+        building: payload.building,
+      })
+
+      return state
+    }
+
+    case "DEMOLISH_BUILDING": {
+      const payload = action.payload as DemolishBuildingPayload | undefined
+      if (!payload) return state
+
+      const settlement = findSettlementById(state, payload.settlementId)
+      const building = settlement?.buildings.find(
+        (b) => b.id === payload.buildingId,
+      )
+      if (!settlement || !building) return state
+
+      // Refund part of the original cost
+      const { cost } = state.rules.buildings[building.type]
+      const refundFactor = state.rules.buildingRefundFactor
+
+      state.players = state.players.map((p) => {
+        if (p.id !== action.playerId) return p
+        const newResources = { ...p.resources }
+        ;(Object.keys(cost) as ResourceType[]).forEach((res) => {
+          newResources[res] =
+            (newResources[res] ?? 0) + Math.floor((cost[res] ?? 0) * refundFactor)
+        })
+        return { ...p, resources: newResources }
+      })
+
+      state.settlements = state.settlements.map((s) =>
+        s.id === settlement.id
+          ? { ...s, buildings: s.buildings.filter((b) => b.id !== building.id) }
+          : s,
+      )
+
+      recordEvent(state, {
+        type: "BUILDING_DEMOLISHED",
+        settlementId: settlement.id,
+        owner: settlement.owner,
+        building: building.type,
+      })
 
       return state
     }
@@ -1087,115 +1920,166 @@ export function reduceGameState(
       const target = findSettlementById(state, payload.targetSettlementId)
       if (!from || !target) return state
 
-      if (from.owner !== action.playerId) {
-        return state
-      }
-
-      if (from.owner === target.owner) {
-        return state
-      }
+      const path = findArmyPath(state, from.tileId, target.tileId)
+      if (!path) return state
 
       const baseDefenders = from.defenders
-      if (baseDefenders <= 0) {
-        return state
-      }
 
       const percent = Math.max(0, Math.min(100, payload.raiderPercent))
       let raiderCount = Math.floor((baseDefenders * percent) / 100)
       if (raiderCount <= 0) raiderCount = 1
       if (raiderCount > baseDefenders) raiderCount = baseDefenders
 
-      const attackPower = raiderCount
-      const defensePower = target.defenders
+      // Raiders leave home until the army returns; barracks strength and
+      // pay are fixed when they march out
+      const stepTimesMs = scheduleMarch(state, path, state.currentTimeMs)
+      const army: Army = {
+        id: nextId(state),
+        owner: from.owner,
+        fromSettlementId: from.id,
+        targetSettlementId: target.id,
+        intent: payload.intent ?? "PLUNDER",
+        size: raiderCount,
+        strength: getDefenseMultiplier(state, from),
+        path,
+        stepTimesMs,
+        arrivesAtMs: stepTimesMs[stepTimesMs.length - 1],
+      }
+
+      state.settlements = state.settlements.map((s) =>
+        s.id === from.id
+          ? {
+              ...s,
+              population: s.population - raiderCount,
+              defenders: s.defenders - raiderCount,
+            }
+          : s,
+      )
+      state.armies = [...(state.armies ?? []), army]
+
+      recordEvent(state, {
+        type: "ARMY_DISPATCHED",
+        armyId: army.id,
+        attackerId: from.owner,
+        defenderId: target.owner,
+        fromSettlementId: from.id,
+        targetSettlementId: target.id,
+        size: raiderCount,
+        arrivesAtMs: army.arrivesAtMs,
+      })
+
+      return state
+    }
 
-      let attackerLosses = 0
-      let defenderLosses = 0
-      let populationLoss = 0
+    case "INTERCEPT_ARMY": {
+      const payload = action.payload as InterceptArmyPayload | undefined
+      if (!payload) return state
 
-      const loot: Record<ResourceType, number> = emptyResourceRecord()
+      const from = findSettlementById(state, payload.fromSettlementId)
+      if (!from) return state
 
-      if (attackPower <= defensePower) {
-        attackerLosses = attackPower
-        defenderLosses = attackPower
-      } else {
-        defenderLosses = defensePower
-        attackerLosses = defensePower
+      const percent = Math.max(0, Math.min(100, payload.interceptorPercent))
+      const interceptors = Math.min(
+        from.defenders,
+        Math.max(1, Math.floor((from.defenders * percent) / 100)),
+      )
 
-        const overkill = attackPower - defensePower
+      state = interceptArmy(state, payload.armyId, from.id, interceptors)
 
-        populationLoss = Math.min(target.population, overkill)
+      return state
+    }
 
-        const attackerPlayer = getPlayer(state, from.owner)
-        const defenderPlayer = getPlayer(state, target.owner)
-        const LOOT_FACTOR = 0.2
+    case "PROPOSE_TREATY": {
+      const payload = action.payload as ProposeTreatyPayload | undefined
+      if (!payload) return state
 
-        if (attackerPlayer && defenderPlayer) {
-          ;(Object.keys(attackerPlayer.resources) as ResourceType[]).forEach(
-            (res) => {
-              const defRes = defenderPlayer.resources[res] ?? 0
-              const take = Math.floor(defRes * LOOT_FACTOR)
-              loot[res] = take
-            },
-          )
+      state.offers = [
+        ...(state.offers ?? []),
+        {
+          id: nextId(state),
+          kind: "TREATY",
+          from: action.playerId,
+          to: payload.to,
+          treaty: payload.treaty,
+          expiresAtMs: state.currentTimeMs + state.rules.offerExpiryMs,
+        },
+      ]
 
-          const updatedPlayers: Player[] = state.players.map((p) => {
-            if (p.id === attackerPlayer.id) {
-              const newResources = { ...p.resources }
-              ;(Object.keys(loot) as ResourceType[]).forEach((res) => {
-                newResources[res] = (newResources[res] ?? 0) + (loot[res] ?? 0)
-              })
-              const newBelief = newResources.Belief ?? 0
-              return {
-                ...p,
-                resources: newResources,
-                belief: newBelief,
-                maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
-              }
-            } else if (p.id === defenderPlayer.id) {
-              const newResources = subtractResources(p.resources, loot)
-              const newBelief = newResources.Belief ?? 0
-              return {
-                ...p,
-                resources: newResources,
-                belief: newBelief,
-                maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
-              }
-            }
-            return p
+      return state
+    }
+
+    case "OFFER_TRADE": {
+      const payload = action.payload as OfferTradePayload | undefined
+      if (!payload) return state
+
+      state.offers = [
+        ...(state.offers ?? []),
+        {
+          id: nextId(state),
+          kind: "TRADE",
+          from: action.playerId,
+          to: payload.to,
+          give: payload.give,
+          receive: payload.receive,
+          expiresAtMs: state.currentTimeMs + state.rules.offerExpiryMs,
+        },
+      ]
+
+      return state
+    }
+
+    case "RESPOND_TO_OFFER": {
+      const payload = action.payload as RespondToOfferPayload | undefined
+      if (!payload) return state
+
+      const offer = state.offers.find((o) => o.id === payload.offerId)
+      if (!offer) return state
+
+      state.offers = state.offers.filter((o) => o.id !== offer.id)
+
+      if (payload.accept && offer.kind === "TREATY") {
+        signTreaty(state, offer.from, offer.to, offer.treaty)
+      } else if (payload.accept && offer.kind === "TRADE") {
+        state.players = state.players.map((p) => {
+          if (p.id !== offer.from && p.id !== offer.to) return p
+          const [paid, gained] =
+            p.id === offer.from
+              ? [offer.give, offer.receive]
+              : [offer.receive, offer.give]
+
+          const newResources = subtractResources(p.resources, paid)
+          ;(Object.keys(gained) as TradeResource[]).forEach((res) => {
+            newResources[res] = (newResources[res] ?? 0) + (gained[res] ?? 0)
           })
+          return { ...p, resources: newResources }
+        })
 
-          state.players = updatedPlayers
-        }
+        recordEvent(state, {
+          type: "TRADE_COMPLETED",
+          from: offer.from,
+          to: offer.to,
+          give: offer.give,
+          receive: offer.receive,
+        })
       }
 
-      const survivorsAttacker = Math.max(0, raiderCount - attackerLosses)
-      const newFromDefenders = baseDefenders - raiderCount + survivorsAttacker
-      const newTargetDefenders = Math.max(0, target.defenders - defenderLosses)
-      const newTargetPopulation = Math.max(0, target.population - populationLoss)
+      return state
+    }
 
-      const updatedSettlements = state.settlements.map((s) => {
-        if (s.id === from.id) {
-          return {
-            ...s,
-            defenders: newFromDefenders,
-          }
-        }
-        if (s.id === target.id) {
-          return {
-            ...s,
-            defenders: newTargetDefenders,
-            population: newTargetPopulation,
-          }
-        }
-        return s
-      })
+    case "BREAK_TREATY": {
+      const payload = action.payload as BreakTreatyPayload | undefined
+      if (!payload) return state
 
-      state = {
-        ...state,
-        settlements: updatedSettlements,
-      }
+      endTreaty(state, action.playerId, payload.with, action.playerId)
+
+      return state
+    }
+
+    case "RESOLVE_EVENT": {
+      const payload = action.payload as ResolveEventPayload | undefined
+      if (!payload) return state
 
-      state.currentTimeMs = Math.max(state.currentTimeMs, action.clientTimeMs)
+      resolveWorldEvent(state, payload.eventId, payload.choice)
 
       return state
     }
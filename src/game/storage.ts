@@ -0,0 +1,103 @@
+import type { GameState, PlayerId, ResourceType, StoredResource } from "./types"
+import { getPlayer } from "./helpers"
+import { recordEvent } from "./events"
+
+// Players keep Food, Wood, Stone and Gold in storehouses of limited size.
+// Every settlement level adds room, and so do buildings with a storage
+// bonus; whatever does not fit is lost once a TICK has paid out its income.
+// Food piled above rules.storage.spoilageThreshold of capacity rots away
+// bit by bit. The barbarians' hoard is never capped.
+
+export const STORED_RESOURCES: StoredResource[] = ["Food", "Wood", "Stone", "Gold"]
+
+export function isStoredResource(res: ResourceType): res is StoredResource {
+  return (STORED_RESOURCES as ResourceType[]).includes(res)
+}
+
+// How much of each stored resource the player can hold
+export function getStorageCapacity(
+  state: GameState,
+  playerId: PlayerId,
+): Record<StoredResource, number> {
+  const rules = state.rules.storage
+  const capacity = { ...rules.base }
+
+  for (const settlement of state.settlements) {
+    if (settlement.owner !== playerId) continue
+    for (const res of STORED_RESOURCES) {
+      capacity[res] += rules.perSettlementLevel[res] * settlement.level
+    }
+    for (const building of settlement.buildings ?? []) {
+      const storage = state.rules.buildings[building.type]?.storage ?? {}
+      for (const res of STORED_RESOURCES) {
+        capacity[res] += storage[res] ?? 0
+      }
+    }
+  }
+
+  return capacity
+}
+
+// Room left for the resource; Belief and the barbarians' hoard are unbounded
+export function getFreeCapacity(
+  state: GameState,
+  playerId: PlayerId,
+  res: ResourceType,
+): number {
+  const player = getPlayer(state, playerId)
+  if (!player || player.barbarian || !isStoredResource(res)) return Infinity
+  const capacity = getStorageCapacity(state, playerId)[res]
+  return Math.max(0, capacity - (player.resources[res] ?? 0))
+}
+
+/**
+ * Run during TICK, once income and upkeep are settled: throw away whatever
+ * overflows each player's stores, warn about stores that just filled up and
+ * let Food above the spoilage threshold rot.
+ */
+export function enforceStorage(state: GameState, seconds: number): GameState {
+  const rules = state.rules.storage
+  const filled: { playerId: PlayerId; resource: StoredResource; capacity: number }[] =
+    []
+
+  state.players = state.players.map((player) => {
+    if (player.barbarian) return player
+
+    const capacity = getStorageCapacity(state, player.id)
+    const resources = { ...player.resources }
+    let fullStores = player.fullStores ?? []
+
+    for (const res of STORED_RESOURCES) {
+      if (resources[res] >= capacity[res]) {
+        resources[res] = capacity[res]
+        if (!fullStores.includes(res)) {
+          fullStores = [...fullStores, res]
+          filled.push({ playerId: player.id, resource: res, capacity: capacity[res] })
+        }
+      } else if (
+        fullStores.includes(res) &&
+        resources[res] < capacity[res] * rules.warningShare
+      ) {
+        fullStores = fullStores.filter((r) => r !== res)
+      }
+    }
+
+    const fresh = capacity.Food * rules.spoilageThreshold
+    if (resources.Food > fresh) {
+      resources.Food -=
+        (resources.Food - fresh) * Math.min(1, rules.spoilagePerSecond * seconds)
+    }
+
+    return {
+      ...player,
+      resources,
+      fullStores: fullStores.length > 0 ? fullStores : undefined,
+    }
+  })
+
+  for (const { playerId, resource, capacity } of filled) {
+    recordEvent(state, { type: "STORAGE_FULL", playerId, resource, capacity })
+  }
+
+  return state
+}
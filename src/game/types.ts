@@ -10,32 +10,151 @@ export type TerrainType =
 
 export type PlayerId = string
 
-export type DeityPowerType = "BLESSED_HARVEST" | "INSPIRED_WORSHIP"
+export type DeityPowerType =
+  | "BLESSED_HARVEST"
+  | "INSPIRED_WORSHIP"
+  | "PLAGUE"
+  | "SMITE"
+  | "DROUGHT"
+  | "EARTHQUAKE"
+  | "FERTILE_RAINS"
+
+// What a deity power is aimed at
+export type DeityPowerTarget = "OWN_SETTLEMENT" | "ENEMY_SETTLEMENT" | "TILE"
 
 export type Stance = "AGGRESSIVE" | "DEFENSIVE" | "PASSIVE"
 
-export interface FactionPolicy {
+// Diplomatic standing between two players; WAR unless a treaty says otherwise
+export type RelationStatus = "WAR" | "TRUCE" | "ALLIANCE"
+
+export type TreatyType = Exclude<RelationStatus, "WAR">
+
+// Resources that can change hands in a trade
+export type TradeResource = Exclude<ResourceType, "Belief">
+
+// Resources kept in storehouses with a limited capacity (see
+// game/storage.ts); Belief lives in the faithful and knows no limit
+export type StoredResource = Exclude<ResourceType, "Belief">
+
+// Resources priced in Gold on the shared market (see game/market.ts)
+export type MarketGood = Exclude<TradeResource, "Gold">
+
+export type MarketSide = "BUY" | "SELL"
+
+// What raiders do once they break a settlement's defence
+export type RaidIntent = "PLUNDER" | "CONQUER" | "RAZE"
+
+// The season clock turns with game.currentTimeMs (see game/seasons.ts)
+export type Season = "SPRING" | "SUMMER" | "AUTUMN" | "WINTER"
+
+export type WeatherType = "STORM" | "DROUGHT" | "BOUNTIFUL_YEAR"
+
+// Surprises rolled by the world itself (see game/worldEvents.ts)
+export type WorldEventType =
+  | "PILGRIMS"
+  | "WILDFIRE"
+  | "BANDITS"
+  | "RELIC"
+  | "OUTBREAK"
+
+// Answers a player can give to a world event that asks for one
+export type WorldEventChoice =
+  | "WELCOME"
+  | "TURN_AWAY"
+  | "ENSHRINE"
+  | "SELL"
+  | "PAY"
+  | "FIGHT"
+
+// How often world events happen in a match, chosen by the host
+export type WorldEventFrequency = "off" | "rare" | "normal" | "frequent"
+
+// How many warriors barbarian camps start with and can hold (see
+// game/barbarians.ts)
+export type BarbarianStrength = "weak" | "normal" | "strong"
+
+export type BuildingType =
+  | "GRANARY"
+  | "TEMPLE"
+  | "BARRACKS"
+  | "LUMBER_MILL"
+  | "QUARRY"
+
+export interface RolePercents {
   workersPercent: number // 0–100
   worshippersPercent: number // 0–100
   defendersPercent: number // 0–100
+}
+
+export interface FactionPolicy extends RolePercents {
   stance: Stance
 }
 
+// Named units that walk the map (see game/heroes.ts)
+export type HeroKind = "PROPHET" | "CHAMPION"
+
+export type HeroAbility = "CONVERT" | "RALLY" | "FOUND_SHRINE"
+
+// Works that improve a controlled tile (see game/improvements.ts)
+export type TileImprovementType =
+  | "CLEAR_FOREST"
+  | "IRRIGATION"
+  | "MINE"
+  | "FISHERY"
+
+// Great works raised over many stages (see game/wonders.ts)
+export type WonderType = "GRAND_TEMPLE" | "SKY_ZIGGURAT"
+
+// Fixed role splits a settlement can specialise in (see GameRules.rolePresets)
+export type RolePreset = "FRONTIER_FORT" | "HOLY_CITY" | "BREADBASKET"
+
+// Where a settlement's role split comes from each TICK: the owner's faction
+// policy, the settlement's own manual percentages or a preset
+export type SettlementRoleMode = "POLICY" | "MANUAL" | RolePreset
+
 // Axial hex coordinates (for a hex grid)
 export interface HexCoord {
   q: number
   r: number
 }
 
+// How much a player knows about a tile in their projected view (see
+// game/visibility.ts)
+export type TileVisibility = "UNEXPLORED" | "REMEMBERED" | "VISIBLE"
+
 // Tiles and settlements
 export interface Tile {
   id: string
   coord: HexCoord
-  terrain: TerrainType
+  terrain: TerrainType // a placeholder on UNEXPLORED tiles
   settlementId?: string // optional settlement on this tile
 
   // id of the player that currently controls this tile (zone of influence)
   controller?: PlayerId | null
+
+  // Roads link settlements into networks (see game/roads.ts)
+  road?: boolean
+
+  // Founded by a prophet; earns Belief for whoever controls the tile
+  shrine?: boolean
+
+  // Standing or under construction (see game/improvements.ts)
+  improvement?: TileImprovement
+
+  // Only set in a projected view; the full state leaves it undefined
+  visibility?: TileVisibility
+}
+
+export interface TileImprovement {
+  type: TileImprovementType
+  owner: PlayerId // who started the work
+  completesAtMs?: number // set while the work is under way
+}
+
+// A structure occupying one of a settlement's building slots
+export interface Building {
+  id: string
+  type: BuildingType
 }
 
 export interface Settlement {
@@ -51,6 +170,38 @@ export interface Settlement {
   // Growth + capacity
   populationCap: number
   growthProgress: number
+
+  // 0–100, drifts towards a target set by living conditions (see
+  // game/morale.ts)
+  morale: number
+  unrestSinceMs?: number // when morale fell below rules.morale.revoltMorale
+  lastRaidedAtMs?: number
+
+  // Set while the settlement goes hungry: its owner's store ran dry or, cut
+  // off from the capital, its own harvest fell short
+  isStarving?: boolean
+
+  // Share of the people following each deity, summing to 1; unset means
+  // all follow the owner (see game/faith.ts)
+  faith?: Partial<Record<PlayerId, number>>
+  faithDominatedSinceMs?: number // when a rival faith overtook the owner's
+  apostasyProgress?: number // worshippers leave for the rival faith at 1
+
+  // Slots unlock with level (see GameRules.buildingSlotsPerLevel)
+  buildings: Building[]
+
+  // Hired soldiers on top of the population: they defend but never raid,
+  // eat no Food and draw Gold wages instead
+  mercenaries?: number
+
+  roleMode?: SettlementRoleMode // defaults to POLICY
+  manualRoles?: RolePercents // last ALLOCATE_ROLES split, used in MANUAL
+
+  camp?: boolean // a barbarian camp; settles down once taken over
+
+  // Set on rival settlements in a projected view: roles and growth are
+  // blanked out
+  concealed?: boolean
 }
 
 // Player + deity-related fields
@@ -65,19 +216,725 @@ export interface Player {
   // Indicates that this player is controlled by the NPC AI
   policy: FactionPolicy
   isNpc?: boolean
+
+  // Set while the player's food stockpile can't cover upkeep
+  isStarving?: boolean
+
+  // Set while the player's Gold can't cover soldiers' wages
+  unpaidWages?: boolean
+
+  // Resources whose stores filled up and have not since fallen below
+  // rules.storage.warningShare of capacity
+  fullStores?: StoredResource[]
+
+  // game.currentTimeMs at which each power can be cast again
+  powerCooldowns?: Partial<Record<DeityPowerType, number>>
+
+  // Set once the player has lost their last settlement
+  eliminated?: boolean
+
+  // The NPC faction that takes in settlements which revolt; it never wins
+  independent?: boolean
+  // The faction that holds the barbarian camps; it never negotiates or wins
+  barbarian?: boolean
+
+  // Set on rivals in a projected view: stockpile, role split and cooldowns
+  // are blanked out
+  concealed?: boolean
 }
 
+// A lasting power effect on a settlement; blessings and curses alike
 export interface SettlementBuff {
   id: string
   settlementId: string
-  owner: PlayerId
+  owner: PlayerId // owner of the settlement
+  casterId: PlayerId
   type: DeityPowerType
   expiresAtMs: number // game.currentTimeMs when the buff expires
 }
 
+// A treaty in force between two players (see game/diplomacy.ts)
+export interface DiplomaticRelation {
+  players: [PlayerId, PlayerId]
+  status: TreatyType
+  expiresAtMs?: number // truces lapse back into war
+}
+
+// A pending proposal from one player to another
+export type DiplomaticOffer = {
+  id: string
+  from: PlayerId
+  to: PlayerId
+  expiresAtMs: number
+} & (
+  | { kind: "TREATY"; treaty: TreatyType }
+  | {
+      kind: "TRADE"
+      give: Partial<Record<TradeResource, number>> // from -> to
+      receive: Partial<Record<TradeResource, number>> // to -> from
+    }
+)
+
+// Weather hanging over the tiles within radius of a centre tile
+export interface WeatherEvent {
+  id: string
+  type: WeatherType
+  tileId: string // centre of the affected region
+  radius: number
+  expiresAtMs: number
+}
+
+// A world event waiting for a player's answer; the default is applied
+// if they haven't chosen by expiresAtMs
+export interface PendingWorldEvent {
+  id: string
+  type: WorldEventType
+  playerId: PlayerId
+  settlementId: string
+  choices: WorldEventChoice[]
+  defaultChoice: WorldEventChoice
+  expiresAtMs: number
+}
+
+// Unit prices in Gold, before the buy/sell spread
+export interface MarketSnapshot {
+  timeMs: number
+  prices: Record<MarketGood, number>
+}
+
+export interface MarketState {
+  prices: Record<MarketGood, number>
+  history: MarketSnapshot[] // oldest first, see MarketRules.historyLength
+}
+
+// A wonder being raised in a settlement, or already standing. Every
+// player sees every wonder, fog or not.
+export interface WonderProject {
+  id: string
+  type: WonderType
+  settlementId: string
+  owner: PlayerId // owner of the settlement
+  stage: number // index of the stage being built; stages.length once done
+  contributed: ResourceCost // towards the current stage's cost
+  labor: number // worshipper labour put into the current stage
+  completedAtMs?: number
+}
+
+// A prophet or champion, raised from a settlement's worshippers or
+// defenders
+export interface Hero {
+  id: string
+  name: string
+  kind: HeroKind
+  owner: PlayerId
+  tileId: string // where the hero stands; the destination while moving
+  // While moving, like an Army: the route and when each tile is entered
+  path?: string[]
+  stepTimesMs?: number[]
+  // game.currentTimeMs at which each ability can be used again
+  abilityCooldowns?: Partial<Record<HeroAbility, number>>
+  rallyUntilMs?: number // a champion's rally lasts until then
+}
+
+// Raiders marching between settlements (see game/armies.ts)
+export interface Army {
+  id: string
+  owner: PlayerId
+  fromSettlementId: string
+  targetSettlementId: string
+  intent: RaidIntent
+  size: number // soldiers still marching
+  strength: number // per-soldier combat multiplier, fixed at departure
+  path: string[] // tile ids from the origin to the target
+  stepTimesMs: number[] // game.currentTimeMs at which path[i] is entered
+  arrivesAtMs: number
+
+  // Set on rivals' armies in a projected view: only the current tile and
+  // size are real. The target and arrival stay when the army marches on one
+  // of the viewer's own settlements; otherwise the target is blank.
+  concealed?: boolean
+}
+
 // Overall game phases
 export type GamePhase = "LOBBY" | "RUNNING" | "GAME_OVER"
 
+// Ways a match can be won
+export type VictoryType =
+  | "VICTORY_POINTS" // first to reach a victory point target
+  | "BELIEF_ASCENDANCY" // maxBeliefEver reaches a target
+  | "DOMINATION" // control a share of all tiles
+  | "LAST_STANDING" // every rival deity has lost its followers
+  | "WONDER" // complete a wonder
+
+export interface VictoryConditions {
+  enabled: VictoryType[]
+  victoryPointsTarget: number
+  beliefTarget: number
+  dominationPercent: number // 0–100, share of all map tiles
+}
+
+// Domain events emitted by the simulation (see game/events.ts)
+interface GameEventBase {
+  id: string
+  timeMs: number // game.currentTimeMs when the event happened
+}
+
+export type GameEvent =
+  | (GameEventBase & {
+      type: "SETTLEMENT_FOUNDED"
+      settlementId: string
+      owner: PlayerId
+      tileId: string
+      starting: boolean
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_UPGRADED"
+      settlementId: string
+      owner: PlayerId
+      level: number
+    })
+  | (GameEventBase & {
+      type: "RAID_RESOLVED"
+      attackerId: PlayerId
+      defenderId: PlayerId
+      fromSettlementId: string
+      targetSettlementId: string
+      raiders: number
+      attackerLosses: number
+      defenderLosses: number
+      populationLoss: number
+      loot: ResourceCost
+      success: boolean
+    })
+  | (GameEventBase & {
+      type: "ARMY_DISPATCHED"
+      armyId: string
+      attackerId: PlayerId
+      defenderId: PlayerId
+      fromSettlementId: string
+      targetSettlementId: string
+      size: number
+      arrivesAtMs: number
+    })
+  | (GameEventBase & {
+      type: "ARMY_INTERCEPTED"
+      armyId: string
+      attackerId: PlayerId
+      interceptorId: PlayerId
+      tileId: string
+      attackerLosses: number
+      interceptorLosses: number
+      destroyed: boolean
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_CAPTURED"
+      settlementId: string
+      previousOwner: PlayerId
+      owner: PlayerId
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_UNREST" | "SETTLEMENT_CALMED"
+      settlementId: string
+      owner: PlayerId
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_REVOLTED"
+      settlementId: string
+      previousOwner: PlayerId
+      owner: PlayerId // the independent faction
+    })
+  | (GameEventBase & {
+      type: "FAITH_DOMINATED" | "FAITH_RESTORED"
+      settlementId: string
+      owner: PlayerId
+      faith: PlayerId // the rival deity whose faith took hold or waned
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_CONVERTED"
+      settlementId: string
+      previousOwner: PlayerId
+      owner: PlayerId // the deity its people now follow
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_ANNEXED"
+      settlementId: string
+      previousOwner: PlayerId
+      owner: PlayerId
+      gold: number // paid to buy it off
+    })
+  | (GameEventBase & {
+      type: "BARBARIAN_CAMP_SPAWNED"
+      settlementId: string
+      owner: PlayerId // the barbarian faction
+      tileId: string
+    })
+  | (GameEventBase & {
+      type: "SETTLEMENT_DESTROYED"
+      settlementId: string
+      owner: PlayerId
+      tileId: string
+      razedBy?: PlayerId // unset when the settlement simply emptied out
+    })
+  | (GameEventBase & { type: "PLAYER_ELIMINATED"; playerId: PlayerId })
+  | (GameEventBase & {
+      type: "TREATY_SIGNED"
+      players: [PlayerId, PlayerId]
+      treaty: TreatyType
+    })
+  | (GameEventBase & {
+      type: "TREATY_ENDED"
+      players: [PlayerId, PlayerId]
+      treaty: TreatyType
+      brokenBy?: PlayerId // unset when a truce simply ran out
+    })
+  | (GameEventBase & {
+      type: "TRADE_COMPLETED"
+      from: PlayerId
+      to: PlayerId
+      give: ResourceCost
+      receive: ResourceCost
+    })
+  | (GameEventBase & {
+      type: "BUILDING_CONSTRUCTED" | "BUILDING_DEMOLISHED"
+      settlementId: string
+      owner: PlayerId
+      building: BuildingType
+    })
+  | (GameEventBase & { type: "ROAD_BUILT"; owner: PlayerId; tileId: string })
+  | (GameEventBase & {
+      type: "TILE_IMPROVED"
+      owner: PlayerId
+      tileId: string
+      improvement: TileImprovementType
+    })
+  | (GameEventBase & {
+      type: "IMPROVEMENTS_WRECKED"
+      settlementId: string // the plundered settlement
+      owner: PlayerId
+      attackerId: PlayerId
+      tileIds: string[]
+    })
+  | (GameEventBase & {
+      type: "WONDER_STARTED" | "WONDER_STAGE_COMPLETED" | "WONDER_COMPLETED"
+      wonderId: string
+      wonder: WonderType
+      settlementId: string
+      owner: PlayerId
+      stage: number // stages finished so far
+    })
+  | (GameEventBase & {
+      type: "HERO_RECRUITED"
+      heroId: string
+      hero: HeroKind
+      name: string
+      owner: PlayerId
+      settlementId: string
+    })
+  | (GameEventBase & {
+      type: "HERO_ABILITY_USED"
+      heroId: string
+      name: string
+      owner: PlayerId
+      ability: HeroAbility
+      tileId: string
+      settlementId?: string
+      targetOwner?: PlayerId // owner of the targeted settlement, if any
+      converts?: number // CONVERT only
+    })
+  | (GameEventBase & {
+      type: "WONDER_SABOTAGED"
+      wonderId: string
+      wonder: WonderType
+      settlementId: string
+      owner: PlayerId
+      attackerId: PlayerId
+    })
+  | (GameEventBase & {
+      type: "POWER_CAST"
+      casterId: PlayerId
+      power: DeityPowerType
+      settlementId?: string
+      tileId?: string
+      targetOwner?: PlayerId // owner of the targeted settlement, if any
+    })
+  | (GameEventBase & {
+      type: "BUFF_EXPIRED"
+      buffId: string
+      settlementId: string
+      owner: PlayerId
+      power: DeityPowerType
+    })
+  | (GameEventBase & { type: "SEASON_CHANGED"; season: Season })
+  | (GameEventBase & {
+      type: "WEATHER_STARTED" | "WEATHER_ENDED"
+      weatherId: string
+      weather: WeatherType
+      tileId: string
+      radius: number
+    })
+  | (GameEventBase & {
+      type: "WORLD_EVENT"
+      worldEventId: string
+      event: WorldEventType
+      playerId?: PlayerId // who has to deal with it, if anyone
+      settlementId?: string
+      tileId?: string
+    })
+  | (GameEventBase & {
+      type: "WORLD_EVENT_RESOLVED"
+      worldEventId: string
+      event: WorldEventType
+      playerId: PlayerId
+      settlementId: string
+      choice: WorldEventChoice
+      timedOut: boolean
+      banditsWon?: boolean // FIGHT only
+    })
+  | (GameEventBase & {
+      type: "MARKET_TRADE"
+      playerId: PlayerId
+      side: MarketSide
+      resource: MarketGood
+      amount: number
+      gold: number // paid for a BUY, received for a SELL
+    })
+  | (GameEventBase & {
+      type: "MERCENARIES_HIRED"
+      playerId: PlayerId
+      settlementId: string
+      count: number
+    })
+  | (GameEventBase & {
+      type: "WAGES_UNPAID"
+      playerId: PlayerId
+      deserted: number // mercenaries who walked off
+    })
+  | (GameEventBase & { type: "WAGES_RESUMED"; playerId: PlayerId })
+  | (GameEventBase & {
+      type: "STORAGE_FULL"
+      playerId: PlayerId
+      resource: StoredResource
+      capacity: number
+    })
+  | (GameEventBase & { type: "STARVATION_STARTED"; playerId: PlayerId })
+  | (GameEventBase & { type: "STARVATION_ENDED"; playerId: PlayerId })
+  | (GameEventBase & {
+      type: "PHASE_CHANGED"
+      from: GamePhase
+      to: GamePhase
+      winnerId?: PlayerId
+    })
+
+export type GameEventType = GameEvent["type"]
+
+// Serializable PRNG position; see game/rng.ts
+export interface RngState {
+  seed: number
+  cursor: number // number of values drawn so far
+}
+
+// Procedural map generation (see game/mapGen.ts)
+export type MapShape = "hexagon" | "rectangle" | "island"
+
+export type LandTerrainType = Exclude<TerrainType, "Water">
+
+export interface MapGenOptions {
+  radius: number // tiles from the centre to the edge
+  shape: MapShape
+  seed?: number // defaults to the match seed
+  terrainWeights: Record<LandTerrainType, number> // relative share of land
+  waterRatio: number // 0–1, share of tiles that are Water
+}
+
+// Balance configuration (see game/rules.ts for the presets)
+export type RulesPreset = "standard" | "fast" | "hardcore"
+
+export type ResourceCost = Partial<Record<ResourceType, number>>
+
+export interface SettlementTemplate {
+  population: number
+  workers: number
+  worshippers: number
+  defenders: number
+  populationCap: number
+}
+
+export interface DeityPowerRules {
+  cost: number // Belief
+  durationMs: number // 0 for powers that resolve instantly
+  cooldownMs: number // per player, from the moment of casting
+  target: DeityPowerTarget
+  magnitude: number // strength of the effect; meaning depends on the power
+}
+
+export interface BuildingDefinition {
+  cost: ResourceCost
+  requiresNearbyTerrain?: TerrainType // on or next to the settlement tile
+  upkeepMultiplier?: number // food upkeep of the settlement's population
+  worshipperMultiplier?: number
+  defenseMultiplier?: number // strength of defenders, raiding or defending
+  yieldMultipliers?: Partial<Record<ResourceType, number>> // worker output
+  storage?: Partial<Record<StoredResource, number>> // extra owner capacity
+}
+
+// Multipliers a season applies on top of the base economy
+export interface SeasonModifiers {
+  foodYield: number // worker Food output
+  growth: number // population growth rate
+  upkeep: number // Food eaten per person
+}
+
+export interface WeatherDefinition {
+  weight: number // relative chance when weather is rolled
+  durationMs: number
+  yieldMultiplier?: number // all worker output
+  foodMultiplier?: number // worker Food output
+  growthMultiplier?: number
+}
+
+export interface WorldEventDefinition {
+  weight: number // relative chance when an event is rolled
+  magnitude: number // strength of the event; meaning depends on the type
+}
+
+export interface WorldEventRules {
+  chancePerSecond: number // chance of an event each second of play
+  choiceTimeoutMs: number // time a player has to answer
+  events: Record<WorldEventType, WorldEventDefinition>
+}
+
+// What moves a settlement's morale target; all values in morale points
+export interface MoraleRules {
+  initial: number // new settlements start here
+  base: number // target before any factors
+  driftPerSecond: number // points morale moves towards its target each second
+  wellFedBonus: number // while the owner's Food covers wellFedSeconds of upkeep
+  wellFedSeconds: number
+  starvingPenalty: number
+  worshipperShareBonus: number // for a settlement of nothing but worshippers
+  raidPenalty: number // right after a raid, fading over raidMemoryMs
+  raidMemoryMs: number
+  overcrowdingThreshold: number // share of populationCap where crowding starts
+  overcrowdingPenalty: number // at a full settlement
+  isolatedPenalty: number // while cut off from the capital by road
+  foreignFaithPenalty: number // for a settlement wholly of rival faiths
+  // While a power's buff lasts; instant powers shift morale once instead
+  powerEffects: Partial<Record<DeityPowerType, number>>
+  lowMorale: number // below this yields fall off
+  minYieldFactor: number // yield multiplier at 0 morale
+  revoltMorale: number
+  revoltDelayMs: number // time spent below revoltMorale before a revolt
+}
+
+export interface FaithRules {
+  // Worshippers sway the faith of settlements this many tiles away, less so
+  // the further they are: their pressure is divided by 1 + distance × falloff
+  pressureRadius: number
+  distanceFalloff: number
+  driftPerSecond: number // share of the gap to the pressure mix closed each second
+  // A rival faith dominates once it holds this share and is ahead of the
+  // owner's
+  dominanceShare: number
+  apostasyPerSecond: number // worshippers lost to a dominant rival faith
+  dominatedYieldMultiplier: number // worker and worshipper output
+  conversionDelayMs: number // dominated this long, the settlement changes deity
+}
+
+export interface BarbarianRules {
+  graceMs: number // no camps appear before this
+  spawnChancePerSecond: number
+  maxCamps: number
+  minDistance: number // from every settlement, on unclaimed land only
+  camp: SettlementTemplate
+  hoard: ResourceCost // added to the barbarians' stockpile with each camp
+  raidChancePerSecond: number // per camp with minRaiders warriors at home
+  minRaiders: number
+  raidPercent: number // share of a camp's warriors sent on a raid
+  raidRange: number // max hex distance to a raid target
+  annexGoldPerWarrior: number // buying off a camp within settlementBuildRange
+}
+
+export interface WonderStage {
+  cost: ResourceCost // contributed by the owner, in any number of parts
+  labor: number // worshipper-seconds of work
+}
+
+export interface WonderDefinition {
+  stages: WonderStage[]
+  victoryPoints: number // on completion, unless WONDER victory is enabled
+}
+
+export interface WonderRules {
+  minLevel: number // settlement level needed to start a wonder
+  laborPerWorshipperPerSecond: number
+  // Share of the current stage's labour and materials a successful raid
+  // destroys
+  raidSabotage: number
+  definitions: Record<WonderType, WonderDefinition>
+}
+
+export interface HeroAbilityRules {
+  cooldownMs: number
+  // Share of the target's worshippers converted for CONVERT, strength
+  // multiplier for RALLY
+  magnitude: number
+  durationMs?: number // RALLY
+  cost?: ResourceCost // FOUND_SHRINE
+}
+
+export interface HeroRules {
+  maxPerPlayer: number
+  cost: Record<HeroKind, ResourceCost>
+  abilityRange: number // max hex distance from the hero to its target
+  abilities: Record<HeroAbility, HeroAbilityRules>
+  shrineBeliefPerSecond: number
+}
+
+export interface TileImprovementDefinition {
+  terrain: TerrainType // the only terrain it can be built on
+  cost: ResourceCost
+  buildMs: number
+  becomes?: TerrainType // the tile's terrain once the work is done
+  yields?: ResourceCost // per worker per second, on top of the terrain's
+  harvest?: ResourceCost // paid out once to the builder on completion
+  // Gone once finished, leaving only its terrain change behind
+  consumed?: boolean
+}
+
+export interface TileImprovementRules {
+  definitions: Record<TileImprovementType, TileImprovementDefinition>
+  // Improvements around a settlement a successful plunder wrecks, nearest
+  // first
+  wreckedPerRaid: number
+}
+
+export interface StorageRules {
+  base: Record<StoredResource, number> // capacity of a player with no settlements
+  perSettlementLevel: Record<StoredResource, number>
+  // Food above this share of capacity spoils, losing spoilagePerSecond of
+  // the excess each second
+  spoilageThreshold: number
+  spoilagePerSecond: number
+  warningShare: number // stores this full are flagged in the UI
+}
+
+export interface RoadRules {
+  cost: ResourceCost // per tile
+  armyTimeMultiplier: number // share of the usual time to enter a road tile
+  // Gold each settlement earns per second for every other settlement on
+  // its road network
+  tradeGoldPerSecond: number
+}
+
+export interface MarketRules {
+  basePrices: Record<MarketGood, number> // Gold per unit prices settle back to
+  spread: number // buyers pay price × (1 + spread/2), sellers get × (1 - spread/2)
+  priceImpactPerUnit: number // each unit bought raises the price by this share
+  recoveryPerSecond: number // share of the gap to the base price closed each second
+  minPriceFactor: number // prices stay within these multiples of the base
+  maxPriceFactor: number
+  historyIntervalMs: number
+  historyLength: number // snapshots kept for the price chart
+}
+
+export interface GameRules {
+  preset: RulesPreset
+
+  startingSettlement: SettlementTemplate
+  newSettlement: SettlementTemplate
+  settlementCost: ResourceCost
+  settlementBuildRange: number // max hex distance from an owned settlement
+
+  upgradeCost: ResourceCost
+  upgradePopulationCapBonus: number
+
+  // influence radius = base + perLevel * level
+  influenceRadiusBase: number
+  influenceRadiusPerLevel: number
+
+  yieldMultiplier: number // applied to all worker and worshipper output
+
+  // Workers harvest the controlled tiles within a settlement's influence
+  // radius (see game/harvest.ts)
+  terrainYields: Record<TerrainType, ResourceCost> // per worker per second
+  workersPerTile: number
+  surplusWorkerYield: ResourceCost // per worker with no tile left to work
+  rolePresets: Record<RolePreset, RolePercents>
+  upkeepPerPersonPerSecond: number // Food
+  storage: StorageRules
+  growthRatePerSecond: number // growth progress per person per second
+  growthThreshold: number // growth progress needed for +1 population
+
+  morale: MoraleRules
+  faith: FaithRules
+
+  seasonLengthMs: number // a full year is four of these, starting in spring
+  seasons: Record<Season, SeasonModifiers>
+  weather: Record<WeatherType, WeatherDefinition>
+  weatherChancePerSecond: number // chance of new weather starting each second
+  weatherRadius: number // hex radius of the region weather covers
+
+  worldEvents: WorldEventRules
+
+  market: MarketRules
+  // Gold in the treasury when the starting settlement is founded, so
+  // wages are covered until the first Gold comes in
+  startingGold: number
+  mercenaryCost: number // Gold per mercenary hired
+  mercenaryWagePerSecond: number // Gold
+  defenderWagePerSecond: number // Gold, per defender
+  unpaidDefenseMultiplier: number // defence strength while wages go unpaid
+  // Rushing an upgrade buys the missing materials at this multiple of the
+  // market buy price
+  rushUpgradePremium: number
+
+  lootFactor: number // share of the defender's stockpile taken by a raid
+  // Conquering or razing needs attack power of at least this multiple of
+  // the defence; weaker wins fall back to plunder
+  conquestPowerRatio: number
+
+  // Time for an army to enter a tile of each terrain; Water is impassable
+  armyMsPerTile: Record<LandTerrainType, number>
+  interceptRange: number // max hex distance from a settlement to an army
+
+  roads: RoadRules
+
+  improvements: TileImprovementRules
+
+  heroes: HeroRules
+
+  // Fog of war: settlements see this far beyond their influence radius,
+  // armies and heroes this far around their current tile
+  visionBonus: number
+  armyVisionRange: number
+
+  truceDurationMs: number
+  offerExpiryMs: number // unanswered offers are withdrawn after this
+
+  buildings: Record<BuildingType, BuildingDefinition>
+  buildingSlotsPerLevel: number
+  buildingRefundFactor: number // share of the cost returned on demolition
+
+  wonders: WonderRules
+
+  barbarians: BarbarianRules
+
+  powers: Record<DeityPowerType, DeityPowerRules>
+}
+
+// Options chosen by the host when creating a match
+export interface GameSetupOptions {
+  seed?: number // defaults to a hash of the game id
+  map?: Partial<MapGenOptions>
+  rules?: RulesPreset
+  worldEvents?: WorldEventFrequency // scales rules.worldEvents.chancePerSecond
+  // Completing a wonder wins the match outright instead of granting
+  // victory points
+  wonderVictory?: boolean
+  barbarians?: WorldEventFrequency // scales rules.barbarians.spawnChancePerSecond
+  barbarianStrength?: BarbarianStrength
+}
+
 // The full game state that we will sync between clients
 export interface GameState {
   id: string // game/room id
@@ -86,8 +943,26 @@ export interface GameState {
   players: Player[]
   phase: GamePhase
   currentTimeMs: number // logical time for real-time simulation
+  startingTileIds: string[] // balanced starting spots, one per player
   winnerId?: PlayerId
+  victoryType?: VictoryType // how winnerId won, set together with GAME_OVER
+  victoryConditions: VictoryConditions
+  rules: GameRules
   buffs: SettlementBuff[]
+  armies: Army[] // raids in transit
+  heroes: Hero[]
+  weather: WeatherEvent[] // active regional weather
+  market: MarketState
+  wonders: WonderProject[] // in progress and completed, oldest first
+  worldEvents: PendingWorldEvent[] // world events awaiting an answer
+  exploredTileIds: Record<PlayerId, string[]> // every tile each player has seen
+  relations: DiplomaticRelation[] // treaties in force; absent means war
+  offers: DiplomaticOffer[] // pending treaty and trade proposals
+  events: GameEvent[] // bounded chronicle, oldest first
+
+  // Determinism: every random choice and entity id comes from here
+  rng: RngState
+  nextEntityId: number
 }
 
 // Action types for real-time play
@@ -101,13 +976,67 @@ export type ActionType =
   | "USE_DEITY_POWER"
   | "UPGRADE_SETTLEMENT"
   | "SET_POLICY"
+  | "CONSTRUCT_BUILDING"
+  | "DEMOLISH_BUILDING"
+  | "INTERCEPT_ARMY"
+  | "PROPOSE_TREATY"
+  | "OFFER_TRADE"
+  | "RESPOND_TO_OFFER"
+  | "BREAK_TREATY"
+  | "RESOLVE_EVENT"
+  | "SET_ROLE_MODE"
+  | "BUY_RESOURCE"
+  | "SELL_RESOURCE"
+  | "HIRE_MERCENARIES"
+  | "BUILD_ROAD"
+  | "IMPROVE_TILE"
+  | "START_WONDER"
+  | "CONTRIBUTE_TO_WONDER"
+  | "RECRUIT_HERO"
+  | "MOVE_HERO"
+  | "USE_HERO_ABILITY"
+  | "ANNEX_CAMP"
 
 export interface PlayerAction<TPayload = unknown> {
   id: string // client-generated UUID
   playerId: PlayerId
   type: ActionType
   payload: TPayload
-  clientTimeMs: number // when the client created the action
+  clientTimeMs: number // when the client created the action; never moves game time
+}
+
+// Why the host refused an action (see game/validation.ts)
+export type RejectionCode =
+  | "WRONG_PHASE"
+  | "UNKNOWN_PLAYER"
+  | "INVALID_PAYLOAD"
+  | "TILE_NOT_FOUND"
+  | "SETTLEMENT_NOT_FOUND"
+  | "TILE_BLOCKED"
+  | "OUT_OF_RANGE"
+  | "NOT_OWNER"
+  | "INSUFFICIENT_RESOURCES"
+  | "ALREADY_PLACED"
+  | "NO_SETTLEMENTS"
+  | "NO_DEFENDERS"
+  | "INVALID_TARGET"
+  | "NO_FREE_SLOT"
+  | "ALREADY_BUILT"
+  | "TERRAIN_REQUIRED"
+  | "ON_COOLDOWN"
+  | "NO_PATH"
+  | "ELIMINATED"
+  | "TREATY_IN_FORCE"
+  | "OFFER_NOT_FOUND"
+  | "EVENT_NOT_FOUND"
+  | "STORAGE_FULL"
+
+export interface ActionRejection {
+  actionId: string
+  actionType: ActionType
+  playerId: PlayerId
+  code: RejectionCode
+  message: string // human readable, shown to the player
 }
 
 // Typed payloads for a few core actions
@@ -119,6 +1048,7 @@ export interface BuildSettlementPayload {
   tileId: string
 }
 
+// Switches the settlement to MANUAL with these percentages
 export interface AllocateRolesPayload {
   settlementId: string
   // Percentages (0–100). They do NOT have to sum to 100; any remainder is "idle".
@@ -127,6 +1057,12 @@ export interface AllocateRolesPayload {
   defendersPercent: number
 }
 
+// MANUAL reuses the settlement's last manual split
+export interface SetRoleModePayload {
+  settlementId: string
+  mode: SettlementRoleMode
+}
+
 // Tick payload
 export interface TickPayload {
   deltaMs: number
@@ -137,15 +1073,19 @@ export interface RaidSettlementPayload {
   targetSettlementId: string
   // Percent of defenders from the attacking settlement to commit to the raid (0–100).
   raiderPercent: number
+  intent?: RaidIntent // defaults to PLUNDER
 }
 
+// Settlement powers set settlementId, TILE powers set tileId
 export interface UseDeityPowerPayload {
   power: DeityPowerType
-  settlementId: string
+  settlementId?: string
+  tileId?: string
 }
 
 export interface UpgradeSettlementPayload {
   settlementId: string
+  rush?: boolean // pay Gold for whatever materials are missing
 }
 
 export interface SetPolicyPayload {
@@ -155,6 +1095,99 @@ export interface SetPolicyPayload {
   stance: Stance
 }
 
+export interface ConstructBuildingPayload {
+  settlementId: string
+  building: BuildingType
+}
+
+export interface DemolishBuildingPayload {
+  settlementId: string
+  buildingId: string
+}
+
+export interface InterceptArmyPayload {
+  armyId: string
+  fromSettlementId: string
+  // Percent of defenders from the intercepting settlement to send (0–100).
+  interceptorPercent: number
+}
+
+export interface ProposeTreatyPayload {
+  to: PlayerId
+  treaty: TreatyType
+}
+
+export interface OfferTradePayload {
+  to: PlayerId
+  give: Partial<Record<TradeResource, number>>
+  receive: Partial<Record<TradeResource, number>>
+}
+
+// The recipient accepts or declines; the sender may decline to withdraw
+export interface RespondToOfferPayload {
+  offerId: string
+  accept: boolean
+}
+
+export interface BreakTreatyPayload {
+  with: PlayerId
+}
+
+export interface ResolveEventPayload {
+  eventId: string
+  choice: WorldEventChoice
+}
+
+// Used by both BUY_RESOURCE and SELL_RESOURCE
+export interface MarketOrderPayload {
+  resource: MarketGood
+  amount: number
+}
+
+export interface HireMercenariesPayload {
+  settlementId: string
+  count: number
+}
+
+export interface BuildRoadPayload {
+  tileId: string
+}
+
+export interface ImproveTilePayload {
+  tileId: string
+  improvement: TileImprovementType
+}
+
+export interface StartWonderPayload {
+  settlementId: string
+  wonder: WonderType
+}
+
+export interface ContributeToWonderPayload {
+  wonderId: string
+  resources: ResourceCost // at most what the current stage still needs
+}
+
+export interface RecruitHeroPayload {
+  settlementId: string
+  kind: HeroKind
+}
+
+export interface MoveHeroPayload {
+  heroId: string
+  tileId: string
+}
+
+export interface UseHeroAbilityPayload {
+  heroId: string
+  ability: HeroAbility
+  settlementId?: string // CONVERT
+}
+
+export interface AnnexCampPayload {
+  settlementId: string
+}
+
 // Union of payloads
 export type AnyActionPayload =
   | PlaceStartingSettlementPayload
@@ -165,6 +1198,25 @@ export type AnyActionPayload =
   | UseDeityPowerPayload
   | UpgradeSettlementPayload
   | SetPolicyPayload
+  | ConstructBuildingPayload
+  | DemolishBuildingPayload
+  | InterceptArmyPayload
+  | ProposeTreatyPayload
+  | OfferTradePayload
+  | RespondToOfferPayload
+  | BreakTreatyPayload
+  | ResolveEventPayload
+  | SetRoleModePayload
+  | MarketOrderPayload
+  | HireMercenariesPayload
+  | BuildRoadPayload
+  | ImproveTilePayload
+  | StartWonderPayload
+  | ContributeToWonderPayload
+  | RecruitHeroPayload
+  | MoveHeroPayload
+  | UseHeroAbilityPayload
+  | AnnexCampPayload
   | undefined
 
 export type AnyPlayerAction = PlayerAction<AnyActionPayload>
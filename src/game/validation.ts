@@ -0,0 +1,1140 @@
+import type {
+  ActionRejection,
+  AllocateRolesPayload,
+  AnyPlayerAction,
+  BreakTreatyPayload,
+  BuildRoadPayload,
+  ImproveTilePayload,
+  BuildSettlementPayload,
+  ConstructBuildingPayload,
+  ContributeToWonderPayload,
+  HireMercenariesPayload,
+  MarketOrderPayload,
+  DemolishBuildingPayload,
+  GameState,
+  InterceptArmyPayload,
+  OfferTradePayload,
+  PlaceStartingSettlementPayload,
+  PlayerId,
+  ProposeTreatyPayload,
+  RaidSettlementPayload,
+  RejectionCode,
+  ResourceCost,
+  ResourceType,
+  ResolveEventPayload,
+  RespondToOfferPayload,
+  SetPolicyPayload,
+  SetRoleModePayload,
+  StartWonderPayload,
+  RecruitHeroPayload,
+  MoveHeroPayload,
+  UseHeroAbilityPayload,
+  AnnexCampPayload,
+  TradeResource,
+  UpgradeSettlementPayload,
+  UseDeityPowerPayload,
+} from "./types"
+import {
+  countSettlementsForPlayer,
+  findSettlementById,
+  findTileById,
+  getPlayer,
+  hexDistance,
+} from "./helpers"
+import { canAfford, DEITY_POWER_LABELS, ROLE_MODE_LABELS } from "./rules"
+import {
+  BUILDING_LABELS,
+  getBuildingSlots,
+  hasNearbyTerrain,
+} from "./buildings"
+import { getPowerCooldownRemaining } from "./powers"
+import { findArmyPath, getArmyTileId } from "./armies"
+import { bundleValue, getRelation, TRADE_RESOURCES } from "./diplomacy"
+import {
+  getWorldEventChoiceCost,
+  WORLD_EVENT_CHOICE_LABELS,
+} from "./worldEvents"
+import { getRushCost, MARKET_GOODS, quoteMarketOrder } from "./market"
+import { canExtendRoad } from "./roads"
+import { isImprovementBuilt, TILE_IMPROVEMENT_LABELS } from "./improvements"
+import { getAnnexCost, isCampInReach } from "./barbarians"
+import { getFreeCapacity } from "./storage"
+import {
+  getHeroAbilityCooldownRemaining,
+  getHeroTileId,
+  HERO_ABILITIES,
+  HERO_ABILITY_LABELS,
+  HERO_KIND_LABELS,
+} from "./heroes"
+import {
+  getWonderStageShortfall,
+  isWonderClaimed,
+  WONDER_LABELS,
+} from "./wonders"
+
+// Validation layer in front of reduceGameState. Every player action is
+// checked here first; the reducer ignores rejected actions and the host
+// reports the rejection back to the player that sent it.
+
+type RejectionReason = Pick<ActionRejection, "code" | "message">
+
+type Validator = (
+  state: GameState,
+  action: AnyPlayerAction,
+) => RejectionReason | null
+
+function reject(code: RejectionCode, message: string): RejectionReason {
+  return { code, message }
+}
+
+// "60 more Wood and 10 more Stone"
+function describeShortfall(
+  resources: Record<ResourceType, number>,
+  cost: ResourceCost,
+): string {
+  const missing = (Object.keys(cost) as ResourceType[])
+    .map((res) => ({
+      res,
+      amount: Math.ceil((cost[res] ?? 0) - (resources[res] ?? 0)),
+    }))
+    .filter(({ amount }) => amount > 0)
+    .map(({ res, amount }) => `${amount} more ${res}`)
+
+  return missing.join(" and ")
+}
+
+function requireResources(
+  resources: Record<ResourceType, number>,
+  cost: ResourceCost,
+  what: string,
+): RejectionReason | null {
+  if (canAfford(resources, cost)) return null
+  return reject(
+    "INSUFFICIENT_RESOURCES",
+    `Not enough resources to ${what}: need ${describeShortfall(resources, cost)}.`,
+  )
+}
+
+function requireHostile(
+  state: GameState,
+  playerId: PlayerId,
+  otherId: PlayerId,
+): RejectionReason | null {
+  const relation = getRelation(state, playerId, otherId)
+  if (relation === "WAR") return null
+  return reject(
+    "TREATY_IN_FORCE",
+    `You are bound by ${relation === "TRUCE" ? "a truce" : "an alliance"} with that deity; break it first.`,
+  )
+}
+
+// The other party of a diplomatic action must be a rival still in the game
+function requireCounterpart(
+  state: GameState,
+  playerId: PlayerId,
+  otherId: PlayerId,
+): RejectionReason | null {
+  if (otherId === playerId) {
+    return reject("INVALID_TARGET", "You cannot negotiate with yourself.")
+  }
+  const other = getPlayer(state, otherId)
+  if (!other) return reject("UNKNOWN_PLAYER", "That deity is not in this game.")
+  if (other.eliminated) {
+    return reject("ELIMINATED", "That deity has already been eliminated.")
+  }
+  if (other.barbarian) {
+    return reject("INVALID_TARGET", "The barbarians do not negotiate.")
+  }
+  return null
+}
+
+function requireRunning(state: GameState): RejectionReason | null {
+  if (state.phase === "RUNNING") return null
+  return reject(
+    "WRONG_PHASE",
+    state.phase === "LOBBY"
+      ? "The game has not started yet."
+      : "The game is over.",
+  )
+}
+
+// Shares of a settlement's defenders come in as 0–100
+function requirePercent(value: number, what: string): RejectionReason | null {
+  if (Number.isFinite(value) && value >= 0 && value <= 100) return null
+  return reject(
+    "INVALID_PAYLOAD",
+    `${what} must be a percentage from 0 to 100.`,
+  )
+}
+
+const validatePlaceStartingSettlement: Validator = (state, action) => {
+  const payload = action.payload as PlaceStartingSettlementPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No tile was chosen.")
+
+  if (countSettlementsForPlayer(state, action.playerId) > 0) {
+    return reject(
+      "ALREADY_PLACED",
+      "You have already placed your starting settlement.",
+    )
+  }
+
+  const tile = findTileById(state, payload.tileId)
+  if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+
+  if (tile.terrain === "Water") {
+    return reject("TILE_BLOCKED", "Settlements cannot be placed on Water.")
+  }
+  if (tile.settlementId) {
+    return reject("TILE_BLOCKED", "That tile already has a settlement.")
+  }
+
+  return null
+}
+
+const validateBuildSettlement: Validator = (state, action) => {
+  const payload = action.payload as BuildSettlementPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No tile was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const tile = findTileById(state, payload.tileId)
+  if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+
+  if (tile.terrain === "Water") {
+    return reject("TILE_BLOCKED", "Settlements cannot be built on Water.")
+  }
+  if (tile.settlementId) {
+    return reject("TILE_BLOCKED", "That tile already has a settlement.")
+  }
+
+  const mySettlements = state.settlements.filter(
+    (s) => s.owner === action.playerId,
+  )
+  if (mySettlements.length === 0) {
+    return reject(
+      "NO_SETTLEMENTS",
+      "You need a settlement before you can expand.",
+    )
+  }
+
+  const range = state.rules.settlementBuildRange
+  const withinRange = mySettlements.some((s) => {
+    const sTile = findTileById(state, s.tileId)
+    return !!sTile && hexDistance(sTile.coord, tile.coord) <= range
+  })
+  if (!withinRange) {
+    return reject(
+      "OUT_OF_RANGE",
+      `New settlements must be within ${range} tiles of one of yours.`,
+    )
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    state.rules.settlementCost,
+    "found a settlement",
+  )
+}
+
+const validateBuildRoad: Validator = (state, action) => {
+  const payload = action.payload as BuildRoadPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No tile was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const tile = findTileById(state, payload.tileId)
+  if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+
+  if (tile.terrain === "Water") {
+    return reject("TILE_BLOCKED", "Roads cannot be built on Water.")
+  }
+  if (tile.controller !== action.playerId) {
+    return reject("NOT_OWNER", "You can only build roads on land you control.")
+  }
+  if (tile.road) {
+    return reject("ALREADY_BUILT", "That tile already has a road.")
+  }
+  if (tile.settlementId) {
+    return reject("TILE_BLOCKED", "Roads already run through your settlements.")
+  }
+  if (!canExtendRoad(state, tile, action.playerId)) {
+    return reject(
+      "OUT_OF_RANGE",
+      "Roads must continue from one of your settlements or roads.",
+    )
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(player.resources, state.rules.roads.cost, "build a road")
+}
+
+const validateImproveTile: Validator = (state, action) => {
+  const payload = action.payload as ImproveTilePayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No tile was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  if (!(payload.improvement in TILE_IMPROVEMENT_LABELS)) {
+    return reject("INVALID_PAYLOAD", "Unknown kind of improvement.")
+  }
+
+  const tile = findTileById(state, payload.tileId)
+  if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+
+  if (tile.controller !== action.playerId) {
+    return reject("NOT_OWNER", "You can only improve land you control.")
+  }
+
+  const definition = state.rules.improvements.definitions[payload.improvement]
+  const label = TILE_IMPROVEMENT_LABELS[payload.improvement]
+  if (tile.terrain !== definition.terrain) {
+    return reject(
+      "TERRAIN_REQUIRED",
+      `${label} can only be built on ${definition.terrain}.`,
+    )
+  }
+  if (tile.improvement) {
+    return reject(
+      "ALREADY_BUILT",
+      isImprovementBuilt(tile)
+        ? "That tile is already improved."
+        : "Work on that tile is already under way.",
+    )
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(player.resources, definition.cost, "improve that tile")
+}
+
+const validateRecruitHero: Validator = (state, action) => {
+  const payload = action.payload as RecruitHeroPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  if (!(payload.kind in HERO_KIND_LABELS)) {
+    return reject("INVALID_PAYLOAD", "Unknown kind of hero.")
+  }
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "Heroes can only rise in your own settlements.")
+  }
+
+  const heroes = (state.heroes ?? []).filter((h) => h.owner === action.playerId)
+  if (heroes.length >= state.rules.heroes.maxPerPlayer) {
+    return reject(
+      "NO_FREE_SLOT",
+      `You can lead at most ${state.rules.heroes.maxPerPlayer} heroes.`,
+    )
+  }
+  if (payload.kind === "PROPHET" && settlement.worshippers < 1) {
+    return reject("INVALID_TARGET", "Prophets rise from worshippers; there are none here.")
+  }
+  if (payload.kind === "CHAMPION" && settlement.defenders < 1) {
+    return reject("NO_DEFENDERS", "Champions rise from defenders; there are none here.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    state.rules.heroes.cost[payload.kind],
+    `raise a ${HERO_KIND_LABELS[payload.kind].toLowerCase()}`,
+  )
+}
+
+const validateMoveHero: Validator = (state, action) => {
+  const payload = action.payload as MoveHeroPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No hero was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const hero = (state.heroes ?? []).find((h) => h.id === payload.heroId)
+  if (!hero) return reject("INVALID_TARGET", "That hero is no longer with you.")
+  if (hero.owner !== action.playerId) {
+    return reject("NOT_OWNER", "That hero does not answer to you.")
+  }
+
+  const tile = findTileById(state, payload.tileId)
+  if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+  if (!findArmyPath(state, getHeroTileId(hero, state.currentTimeMs), tile.id)) {
+    return reject("NO_PATH", "There is no way over land to that tile.")
+  }
+
+  return null
+}
+
+const validateUseHeroAbility: Validator = (state, action) => {
+  const payload = action.payload as UseHeroAbilityPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No hero was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const hero = (state.heroes ?? []).find((h) => h.id === payload.heroId)
+  if (!hero) return reject("INVALID_TARGET", "That hero is no longer with you.")
+  if (hero.owner !== action.playerId) {
+    return reject("NOT_OWNER", "That hero does not answer to you.")
+  }
+  if (!HERO_ABILITIES[hero.kind].includes(payload.ability)) {
+    return reject(
+      "INVALID_PAYLOAD",
+      `A ${HERO_KIND_LABELS[hero.kind].toLowerCase()} cannot do that.`,
+    )
+  }
+
+  const label = HERO_ABILITY_LABELS[payload.ability]
+  const cooldown = getHeroAbilityCooldownRemaining(state, hero, payload.ability)
+  if (cooldown > 0) {
+    return reject(
+      "ON_COOLDOWN",
+      `${label} is ready again in ${Math.ceil(cooldown / 1000)}s.`,
+    )
+  }
+
+  const tile = findTileById(state, getHeroTileId(hero, state.currentTimeMs))
+  if (!tile) return reject("TILE_NOT_FOUND", "The hero has wandered off the map.")
+
+  if (payload.ability === "CONVERT") {
+    const target = payload.settlementId
+      ? findSettlementById(state, payload.settlementId)
+      : undefined
+    if (!target) {
+      return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+    }
+    if (target.owner === action.playerId) {
+      return reject("INVALID_TARGET", "Your own people already worship you.")
+    }
+    const treaty = requireHostile(state, action.playerId, target.owner)
+    if (treaty) return treaty
+
+    const targetTile = findTileById(state, target.tileId)
+    const range = state.rules.heroes.abilityRange
+    if (!targetTile || hexDistance(tile.coord, targetTile.coord) > range) {
+      return reject(
+        "OUT_OF_RANGE",
+        `The prophet must be within ${range} tiles of the settlement.`,
+      )
+    }
+    if (target.worshippers < 1) {
+      return reject("INVALID_TARGET", "There are no worshippers there to convert.")
+    }
+  }
+
+  if (payload.ability === "FOUND_SHRINE") {
+    if (tile.controller !== action.playerId) {
+      return reject("NOT_OWNER", "Shrines can only be founded on land you control.")
+    }
+    if (tile.settlementId || tile.shrine) {
+      return reject("TILE_BLOCKED", "There is no room for a shrine here.")
+    }
+
+    const player = getPlayer(state, action.playerId)!
+    return requireResources(
+      player.resources,
+      state.rules.heroes.abilities.FOUND_SHRINE.cost ?? {},
+      "found a shrine",
+    )
+  }
+
+  return null
+}
+
+const validateStartWonder: Validator = (state, action) => {
+  const payload = action.payload as StartWonderPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  if (!(payload.wonder in WONDER_LABELS)) {
+    return reject("INVALID_PAYLOAD", "Unknown wonder.")
+  }
+  const label = WONDER_LABELS[payload.wonder]
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only raise wonders in your own settlements.")
+  }
+  if (settlement.level < state.rules.wonders.minLevel) {
+    return reject(
+      "INVALID_TARGET",
+      `Wonders need a settlement of level ${state.rules.wonders.minLevel} or more.`,
+    )
+  }
+
+  const wonders = state.wonders ?? []
+  if (wonders.some((w) => w.settlementId === settlement.id)) {
+    return reject("NO_FREE_SLOT", "This settlement already has a wonder.")
+  }
+  if (isWonderClaimed(state, payload.wonder)) {
+    return reject("ALREADY_BUILT", `The ${label} already stands elsewhere.`)
+  }
+  if (
+    wonders.some((w) => w.owner === action.playerId && w.type === payload.wonder)
+  ) {
+    return reject("ALREADY_BUILT", `You are already raising the ${label}.`)
+  }
+
+  return null
+}
+
+const validateContributeToWonder: Validator = (state, action) => {
+  const payload = action.payload as ContributeToWonderPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No wonder was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const wonder = (state.wonders ?? []).find((w) => w.id === payload.wonderId)
+  if (!wonder) {
+    return reject("INVALID_TARGET", "That wonder no longer exists.")
+  }
+  if (wonder.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only build your own wonders.")
+  }
+  if (wonder.completedAtMs !== undefined) {
+    return reject("ALREADY_BUILT", "That wonder is already complete.")
+  }
+
+  const shortfall = getWonderStageShortfall(state.rules, wonder)
+  const offered = Object.entries(payload.resources ?? {}) as [
+    ResourceType,
+    number,
+  ][]
+  if (offered.length === 0) {
+    return reject("INVALID_PAYLOAD", "Contribute at least one resource.")
+  }
+  for (const [res, amount] of offered) {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return reject("INVALID_PAYLOAD", "Contributions must be whole amounts.")
+    }
+    if (amount > (shortfall[res] ?? 0)) {
+      return reject(
+        "INVALID_PAYLOAD",
+        `This stage needs only ${shortfall[res] ?? 0} more ${res}.`,
+      )
+    }
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    payload.resources,
+    `contribute to the ${WONDER_LABELS[wonder.type]}`,
+  )
+}
+
+const validateAllocateRoles: Validator = (state, action) => {
+  const payload = action.payload as AllocateRolesPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only assign roles in your own settlements.")
+  }
+
+  return null
+}
+
+const validateSetRoleMode: Validator = (state, action) => {
+  const payload = action.payload as SetRoleModePayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only assign roles in your own settlements.")
+  }
+  if (!(payload.mode in ROLE_MODE_LABELS)) {
+    return reject("INVALID_PAYLOAD", "Unknown role mode.")
+  }
+
+  return null
+}
+
+const validateSetPolicy: Validator = (_state, action) => {
+  const payload = action.payload as SetPolicyPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No policy was given.")
+  return null
+}
+
+// Check the payload points at the kind of target the power expects
+function validatePowerTarget(
+  state: GameState,
+  action: AnyPlayerAction,
+  payload: UseDeityPowerPayload,
+): RejectionReason | null {
+  const { target, magnitude } = state.rules.powers[payload.power]
+  const label = DEITY_POWER_LABELS[payload.power]
+
+  if (target === "TILE") {
+    if (!payload.tileId) return reject("INVALID_PAYLOAD", "No tile was chosen.")
+    const tile = findTileById(state, payload.tileId)
+    if (!tile) return reject("TILE_NOT_FOUND", "That tile does not exist.")
+    if (tile.controller !== action.playerId) {
+      return reject("NOT_OWNER", `${label} can only target land you control.`)
+    }
+    if (
+      payload.power === "FERTILE_RAINS" &&
+      !state.tiles.some(
+        (t) =>
+          t.terrain === "Field" && hexDistance(t.coord, tile.coord) <= magnitude,
+      )
+    ) {
+      return reject("INVALID_TARGET", "There are no Fields there to enrich.")
+    }
+    return null
+  }
+
+  if (!payload.settlementId) {
+    return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+  }
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+
+  if (target === "OWN_SETTLEMENT" && settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", `${label} can only target your own settlements.`)
+  }
+  if (target === "ENEMY_SETTLEMENT") {
+    if (settlement.owner === action.playerId) {
+      return reject("INVALID_TARGET", `${label} can only target rival settlements.`)
+    }
+    const treaty = requireHostile(state, action.playerId, settlement.owner)
+    if (treaty) return treaty
+  }
+  if (payload.power === "EARTHQUAKE" && settlement.level <= 1) {
+    return reject("INVALID_TARGET", "That settlement cannot be shaken any lower.")
+  }
+
+  return null
+}
+
+const validateUseDeityPower: Validator = (state, action) => {
+  const payload = action.payload as UseDeityPowerPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No power was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const powerRules = state.rules.powers[payload.power]
+  if (!powerRules) {
+    return reject("INVALID_PAYLOAD", "That power is not available in this match.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  const cooldown = getPowerCooldownRemaining(state, player, payload.power)
+  if (cooldown > 0) {
+    return reject(
+      "ON_COOLDOWN",
+      `${DEITY_POWER_LABELS[payload.power]} is ready again in ${Math.ceil(cooldown / 1000)}s.`,
+    )
+  }
+
+  const target = validatePowerTarget(state, action, payload)
+  if (target) return target
+
+  return requireResources(
+    player.resources,
+    { Belief: powerRules.cost },
+    `cast ${DEITY_POWER_LABELS[payload.power]}`,
+  )
+}
+
+const validateUpgradeSettlement: Validator = (state, action) => {
+  const payload = action.payload as UpgradeSettlementPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only upgrade your own settlements.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  const cost = payload.rush
+    ? getRushCost(state, player.resources, state.rules.upgradeCost)
+    : state.rules.upgradeCost
+  return requireResources(
+    player.resources,
+    cost,
+    payload.rush ? "rush this upgrade" : "upgrade this settlement",
+  )
+}
+
+const validateRaidSettlement: Validator = (state, action) => {
+  const payload = action.payload as RaidSettlementPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No raid target was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const share = requirePercent(payload.raiderPercent, "The raiding share")
+  if (share) return share
+
+  const from = findSettlementById(state, payload.fromSettlementId)
+  const target = findSettlementById(state, payload.targetSettlementId)
+  if (!from || !target) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (from.owner !== action.playerId) {
+    return reject("NOT_OWNER", "Raids must be launched from your own settlement.")
+  }
+  if (from.owner === target.owner) {
+    return reject("INVALID_TARGET", "You cannot raid your own settlement.")
+  }
+  const treaty = requireHostile(state, action.playerId, target.owner)
+  if (treaty) return treaty
+  if (from.defenders <= 0) {
+    return reject("NO_DEFENDERS", "That settlement has no defenders to send.")
+  }
+  if (!findArmyPath(state, from.tileId, target.tileId)) {
+    return reject("NO_PATH", "There is no land route to that settlement.")
+  }
+
+  return null
+}
+
+const validateInterceptArmy: Validator = (state, action) => {
+  const payload = action.payload as InterceptArmyPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No army was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const share = requirePercent(
+    payload.interceptorPercent,
+    "The intercepting share",
+  )
+  if (share) return share
+
+  const army = (state.armies ?? []).find((a) => a.id === payload.armyId)
+  if (!army) return reject("INVALID_TARGET", "That army is no longer marching.")
+  if (army.owner === action.playerId) {
+    return reject("INVALID_TARGET", "You cannot intercept your own army.")
+  }
+  const treaty = requireHostile(state, action.playerId, army.owner)
+  if (treaty) return treaty
+
+  const from = findSettlementById(state, payload.fromSettlementId)
+  if (!from) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (from.owner !== action.playerId) {
+    return reject("NOT_OWNER", "Interceptors must come from your own settlement.")
+  }
+  if (from.defenders <= 0) {
+    return reject("NO_DEFENDERS", "That settlement has no defenders to send.")
+  }
+
+  const fromTile = findTileById(state, from.tileId)
+  const armyTile = findTileById(state, getArmyTileId(army, state.currentTimeMs))
+  const range = state.rules.interceptRange
+  if (!fromTile || !armyTile || hexDistance(fromTile.coord, armyTile.coord) > range) {
+    return reject(
+      "OUT_OF_RANGE",
+      `The army must be within ${range} tiles of the intercepting settlement.`,
+    )
+  }
+
+  return null
+}
+
+const validateConstructBuilding: Validator = (state, action) => {
+  const payload = action.payload as ConstructBuildingPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No building was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const def = state.rules.buildings[payload.building]
+  if (!def) {
+    return reject("INVALID_PAYLOAD", "That building does not exist.")
+  }
+  const label = BUILDING_LABELS[payload.building]
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only build in your own settlements.")
+  }
+
+  const buildings = settlement.buildings ?? []
+  if (buildings.some((b) => b.type === payload.building)) {
+    return reject("ALREADY_BUILT", `This settlement already has a ${label}.`)
+  }
+  if (buildings.length >= getBuildingSlots(state.rules, settlement)) {
+    return reject(
+      "NO_FREE_SLOT",
+      "No free building slot; upgrade the settlement or demolish something.",
+    )
+  }
+
+  if (
+    def.requiresNearbyTerrain &&
+    !hasNearbyTerrain(state, settlement, def.requiresNearbyTerrain)
+  ) {
+    return reject(
+      "TERRAIN_REQUIRED",
+      `A ${label} needs ${def.requiresNearbyTerrain} on or next to the settlement.`,
+    )
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(player.resources, def.cost, `build a ${label}`)
+}
+
+const validateDemolishBuilding: Validator = (state, action) => {
+  const payload = action.payload as DemolishBuildingPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No building was chosen.")
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "You can only demolish in your own settlements.")
+  }
+  if (!(settlement.buildings ?? []).some((b) => b.id === payload.buildingId)) {
+    return reject("INVALID_TARGET", "That building no longer exists.")
+  }
+
+  return null
+}
+
+const validateProposeTreaty: Validator = (state, action) => {
+  const payload = action.payload as ProposeTreatyPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No treaty was proposed.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const counterpart = requireCounterpart(state, action.playerId, payload.to)
+  if (counterpart) return counterpart
+
+  if (payload.treaty !== "TRUCE" && payload.treaty !== "ALLIANCE") {
+    return reject("INVALID_PAYLOAD", "Unknown treaty.")
+  }
+  const relation = getRelation(state, action.playerId, payload.to)
+  if (relation === payload.treaty || relation === "ALLIANCE") {
+    return reject("INVALID_TARGET", "That treaty is already in force.")
+  }
+  const pending = (state.offers ?? []).some(
+    (o) =>
+      o.kind === "TREATY" &&
+      o.from === action.playerId &&
+      o.to === payload.to &&
+      o.treaty === payload.treaty,
+  )
+  if (pending) {
+    return reject("INVALID_TARGET", "You already have that proposal pending.")
+  }
+
+  return null
+}
+
+function isTradeBundle(bundle: unknown): boolean {
+  if (!bundle || typeof bundle !== "object") return false
+  return Object.entries(bundle).every(
+    ([res, amount]) =>
+      TRADE_RESOURCES.includes(res as TradeResource) &&
+      typeof amount === "number" &&
+      amount >= 0,
+  )
+}
+
+const validateOfferTrade: Validator = (state, action) => {
+  const payload = action.payload as OfferTradePayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No trade was offered.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const counterpart = requireCounterpart(state, action.playerId, payload.to)
+  if (counterpart) return counterpart
+
+  if (!isTradeBundle(payload.give) || !isTradeBundle(payload.receive)) {
+    return reject(
+      "INVALID_PAYLOAD",
+      `Only ${TRADE_RESOURCES.join(", ")} can be traded.`,
+    )
+  }
+  if (bundleValue(payload.give) + bundleValue(payload.receive) <= 0) {
+    return reject("INVALID_PAYLOAD", "A trade needs something on the table.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(player.resources, payload.give, "make this offer")
+}
+
+const validateMarketOrder: Validator = (state, action) => {
+  const payload = action.payload as MarketOrderPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No order was placed.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  if (!MARKET_GOODS.includes(payload.resource)) {
+    return reject(
+      "INVALID_PAYLOAD",
+      `Only ${MARKET_GOODS.join(", ")} are traded on the market.`,
+    )
+  }
+  if (!Number.isInteger(payload.amount) || payload.amount <= 0) {
+    return reject("INVALID_PAYLOAD", "Orders need a whole, positive amount.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  if (action.type === "BUY_RESOURCE") {
+    const room = getFreeCapacity(state, action.playerId, payload.resource)
+    if (payload.amount > room) {
+      return reject(
+        "STORAGE_FULL",
+        `Your stores only have room for ${Math.floor(room)} more ${payload.resource}.`,
+      )
+    }
+    return requireResources(
+      player.resources,
+      { Gold: quoteMarketOrder(state, "BUY", payload.resource, payload.amount) },
+      `buy ${payload.amount} ${payload.resource}`,
+    )
+  }
+  return requireResources(
+    player.resources,
+    { [payload.resource]: payload.amount },
+    `sell ${payload.amount} ${payload.resource}`,
+  )
+}
+
+const validateHireMercenaries: Validator = (state, action) => {
+  const payload = action.payload as HireMercenariesPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No settlement was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const settlement = findSettlementById(state, payload.settlementId)
+  if (!settlement) {
+    return reject("SETTLEMENT_NOT_FOUND", "That settlement no longer exists.")
+  }
+  if (settlement.owner !== action.playerId) {
+    return reject("NOT_OWNER", "Mercenaries can only guard your own settlements.")
+  }
+  if (!Number.isInteger(payload.count) || payload.count <= 0) {
+    return reject("INVALID_PAYLOAD", "Hire at least one mercenary.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    { Gold: payload.count * state.rules.mercenaryCost },
+    "hire these mercenaries",
+  )
+}
+
+const validateAnnexCamp: Validator = (state, action) => {
+  const payload = action.payload as AnnexCampPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No camp was chosen.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const camp = findSettlementById(state, payload.settlementId)
+  if (!camp) {
+    return reject("SETTLEMENT_NOT_FOUND", "That camp no longer exists.")
+  }
+  if (!camp.camp || camp.owner === action.playerId) {
+    return reject("INVALID_TARGET", "Only barbarian camps can be bought off.")
+  }
+  if (!isCampInReach(state, action.playerId, camp)) {
+    return reject(
+      "OUT_OF_RANGE",
+      `The camp must be within ${state.rules.settlementBuildRange} tiles of one of your settlements.`,
+    )
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    { Gold: getAnnexCost(state, camp) },
+    "buy off this camp",
+  )
+}
+
+const validateRespondToOffer: Validator = (state, action) => {
+  const payload = action.payload as RespondToOfferPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No offer was chosen.")
+
+  const offer = (state.offers ?? []).find((o) => o.id === payload.offerId)
+  if (!offer) {
+    return reject("OFFER_NOT_FOUND", "That offer has expired or was withdrawn.")
+  }
+
+  if (!payload.accept) {
+    // Either side may walk away
+    if (offer.from !== action.playerId && offer.to !== action.playerId) {
+      return reject("NOT_OWNER", "That offer was not made to you.")
+    }
+    return null
+  }
+
+  if (offer.to !== action.playerId) {
+    return reject("NOT_OWNER", "Only the recipient can accept an offer.")
+  }
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  if (offer.kind === "TRADE") {
+    const sender = getPlayer(state, offer.from)
+    if (!sender || !canAfford(sender.resources, offer.give)) {
+      return reject(
+        "INSUFFICIENT_RESOURCES",
+        "The other deity can no longer pay their side of this trade.",
+      )
+    }
+    const player = getPlayer(state, action.playerId)!
+    return requireResources(player.resources, offer.receive, "accept this trade")
+  }
+
+  return null
+}
+
+const validateBreakTreaty: Validator = (state, action) => {
+  const payload = action.payload as BreakTreatyPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No treaty was chosen.")
+
+  if (getRelation(state, action.playerId, payload.with) === "WAR") {
+    return reject("INVALID_TARGET", "There is no treaty with that deity.")
+  }
+
+  return null
+}
+
+const validateResolveEvent: Validator = (state, action) => {
+  const payload = action.payload as ResolveEventPayload | undefined
+  if (!payload) return reject("INVALID_PAYLOAD", "No answer was given.")
+
+  const phase = requireRunning(state)
+  if (phase) return phase
+
+  const event = (state.worldEvents ?? []).find((e) => e.id === payload.eventId)
+  if (!event) {
+    return reject("EVENT_NOT_FOUND", "That event has already passed.")
+  }
+  if (event.playerId !== action.playerId) {
+    return reject("NOT_OWNER", "That event is not yours to decide.")
+  }
+  if (!event.choices.includes(payload.choice)) {
+    return reject("INVALID_PAYLOAD", "That is not one of the options.")
+  }
+
+  const player = getPlayer(state, action.playerId)!
+  return requireResources(
+    player.resources,
+    getWorldEventChoiceCost(state, event, payload.choice),
+    WORLD_EVENT_CHOICE_LABELS[payload.choice].toLowerCase(),
+  )
+}
+
+const noValidation: Validator = () => null
+
+const VALIDATORS: Record<AnyPlayerAction["type"], Validator> = {
+  NOOP: noValidation,
+  TICK: noValidation,
+  PLACE_STARTING_SETTLEMENT: validatePlaceStartingSettlement,
+  BUILD_SETTLEMENT: validateBuildSettlement,
+  BUILD_ROAD: validateBuildRoad,
+  IMPROVE_TILE: validateImproveTile,
+  START_WONDER: validateStartWonder,
+  CONTRIBUTE_TO_WONDER: validateContributeToWonder,
+  RECRUIT_HERO: validateRecruitHero,
+  MOVE_HERO: validateMoveHero,
+  USE_HERO_ABILITY: validateUseHeroAbility,
+  ALLOCATE_ROLES: validateAllocateRoles,
+  RAID_SETTLEMENT: validateRaidSettlement,
+  USE_DEITY_POWER: validateUseDeityPower,
+  UPGRADE_SETTLEMENT: validateUpgradeSettlement,
+  SET_POLICY: validateSetPolicy,
+  SET_ROLE_MODE: validateSetRoleMode,
+  BUY_RESOURCE: validateMarketOrder,
+  SELL_RESOURCE: validateMarketOrder,
+  HIRE_MERCENARIES: validateHireMercenaries,
+  CONSTRUCT_BUILDING: validateConstructBuilding,
+  DEMOLISH_BUILDING: validateDemolishBuilding,
+  INTERCEPT_ARMY: validateInterceptArmy,
+  PROPOSE_TREATY: validateProposeTreaty,
+  OFFER_TRADE: validateOfferTrade,
+  RESPOND_TO_OFFER: validateRespondToOffer,
+  BREAK_TREATY: validateBreakTreaty,
+  RESOLVE_EVENT: validateResolveEvent,
+  ANNEX_CAMP: validateAnnexCamp,
+}
+
+/**
+ * Check an action against the current state. Returns null when the action
+ * may be applied, or a rejection describing why it was refused.
+ */
+export function validateAction(
+  state: GameState,
+  action: AnyPlayerAction,
+): ActionRejection | null {
+  const toRejection = (reason: RejectionReason): ActionRejection => ({
+    ...reason,
+    actionId: action.id,
+    actionType: action.type,
+    playerId: action.playerId,
+  })
+
+  if (state.phase === "GAME_OVER") {
+    return toRejection(reject("WRONG_PHASE", "The game is over."))
+  }
+
+  if (action.type !== "TICK" && action.type !== "NOOP") {
+    const player = getPlayer(state, action.playerId)
+    if (!player) {
+      return toRejection(
+        reject("UNKNOWN_PLAYER", "You are not a player in this game."),
+      )
+    }
+    if (player.eliminated) {
+      return toRejection(
+        reject("ELIMINATED", "Your followers are gone; you are out of the game."),
+      )
+    }
+  }
+
+  const validator = VALIDATORS[action.type]
+  if (!validator) {
+    return toRejection(reject("INVALID_PAYLOAD", "Unknown action."))
+  }
+
+  const reason = validator(state, action)
+  return reason ? toRejection(reason) : null
+}
@@ -0,0 +1,201 @@
+import type {
+  GameState,
+  Player,
+  PlayerId,
+  VictoryConditions,
+  VictoryType,
+} from "./types"
+import { countControlledTiles } from "./helpers"
+import { recordEvent } from "./events"
+
+export const DEFAULT_VICTORY_CONDITIONS: VictoryConditions = {
+  enabled: [
+    "VICTORY_POINTS",
+    "BELIEF_ASCENDANCY",
+    "DOMINATION",
+    "LAST_STANDING",
+  ],
+  victoryPointsTarget: 10,
+  beliefTarget: 5000,
+  dominationPercent: 75,
+}
+
+export const VICTORY_LABELS: Record<VictoryType, string> = {
+  VICTORY_POINTS: "Victory points",
+  BELIEF_ASCENDANCY: "Belief ascendancy",
+  DOMINATION: "Territorial domination",
+  LAST_STANDING: "Last deity standing",
+  WONDER: "Wonder of the world",
+}
+
+export interface VictoryResult {
+  winnerId: PlayerId
+  type: VictoryType
+}
+
+// Returns the single player with the highest score, or null on a tie at the top
+function uniqueLeader(
+  players: Player[],
+  score: (p: Player) => number,
+): Player | null {
+  let leader: Player | null = null
+  let tied = false
+
+  for (const player of players) {
+    if (!leader || score(player) > score(leader)) {
+      leader = player
+      tied = false
+    } else if (score(player) === score(leader)) {
+      tied = true
+    }
+  }
+
+  return tied ? null : leader
+}
+
+function checkVictoryType(
+  state: GameState,
+  type: VictoryType,
+): PlayerId | null {
+  const conditions = state.victoryConditions
+  // The independents and barbarians hold land but never win the age
+  const contenders = state.players.filter(
+    (p) => !p.independent && !p.barbarian,
+  )
+
+  switch (type) {
+    case "VICTORY_POINTS": {
+      const qualifying = contenders.filter(
+        (p) => p.victoryPoints >= conditions.victoryPointsTarget,
+      )
+      return uniqueLeader(qualifying, (p) => p.victoryPoints)?.id ?? null
+    }
+
+    case "BELIEF_ASCENDANCY": {
+      const qualifying = contenders.filter(
+        (p) => p.maxBeliefEver >= conditions.beliefTarget,
+      )
+      return uniqueLeader(qualifying, (p) => p.maxBeliefEver)?.id ?? null
+    }
+
+    case "DOMINATION": {
+      const totalTiles = state.tiles.length
+      if (totalTiles === 0) return null
+
+      const counts = countControlledTiles(state)
+      const share = (p: Player) => ((counts[p.id] ?? 0) / totalTiles) * 100
+      const qualifying = contenders.filter(
+        (p) => share(p) >= conditions.dominationPercent,
+      )
+      return uniqueLeader(qualifying, share)?.id ?? null
+    }
+
+    case "LAST_STANDING": {
+      // Only players that have entered the map compete; a deity that lost
+      // its last settlement is eliminated.
+      const participants = contenders.filter(
+        (p) =>
+          p.eliminated || state.settlements.some((s) => s.owner === p.id),
+      )
+      if (participants.length < 2) return null
+
+      const alive = participants.filter(
+        (p) =>
+          !p.eliminated &&
+          state.settlements.some((s) => s.owner === p.id && s.population > 0),
+      )
+      return alive.length === 1 ? alive[0].id : null
+    }
+
+    case "WONDER": {
+      const completed = (state.wonders ?? []).filter(
+        (w) => w.completedAtMs !== undefined,
+      )
+      const wonders = (p: Player) =>
+        completed.filter((w) => w.owner === p.id).length
+      const qualifying = contenders.filter((p) => wonders(p) > 0)
+      return uniqueLeader(qualifying, wonders)?.id ?? null
+    }
+  }
+}
+
+/**
+ * Check every enabled victory condition in order and return the first
+ * winner found, if any.
+ */
+export function findVictor(state: GameState): VictoryResult | null {
+  for (const type of state.victoryConditions.enabled) {
+    const winnerId = checkVictoryType(state, type)
+    if (winnerId) {
+      return { winnerId, type }
+    }
+  }
+  return null
+}
+
+/**
+ * Run during TICK: moves a RUNNING game to GAME_OVER once somebody has won.
+ */
+export function evaluateVictory(state: GameState): GameState {
+  if (state.phase !== "RUNNING") return state
+
+  const result = findVictor(state)
+  if (!result) return state
+
+  const next: GameState = {
+    ...state,
+    phase: "GAME_OVER",
+    winnerId: result.winnerId,
+    victoryType: result.type,
+  }
+  recordEvent(next, {
+    type: "PHASE_CHANGED",
+    from: state.phase,
+    to: "GAME_OVER",
+    winnerId: result.winnerId,
+  })
+  return next
+}
+
+export function describeVictoryGoal(
+  conditions: VictoryConditions,
+  type: VictoryType,
+): string {
+  switch (type) {
+    case "VICTORY_POINTS":
+      return `${conditions.victoryPointsTarget} victory points`
+    case "BELIEF_ASCENDANCY":
+      return `${conditions.beliefTarget} peak belief`
+    case "DOMINATION":
+      return `${conditions.dominationPercent}% of tiles`
+    case "LAST_STANDING":
+      return "last deity standing"
+    case "WONDER":
+      return "complete a wonder"
+    default:
+      return type
+  }
+}
+
+export function describeVictory(state: GameState): string | null {
+  if (state.phase !== "GAME_OVER" || !state.winnerId) return null
+
+  const winner = state.players.find((p) => p.id === state.winnerId)
+  const name = winner?.name ?? state.winnerId
+  const conditions = state.victoryConditions
+
+  switch (state.victoryType) {
+    case "VICTORY_POINTS":
+      return `${name} reached ${conditions.victoryPointsTarget} victory points.`
+    case "BELIEF_ASCENDANCY":
+      return `${name} amassed ${conditions.beliefTarget} belief and ascended.`
+    case "DOMINATION":
+      return `${name} controls ${conditions.dominationPercent}% of the land.`
+    case "LAST_STANDING":
+      return `${name} is the last deity with living followers.`
+    case "WONDER":
+      return `${name} completed a wonder of the world.`
+    default:
+      return `${name} wins.`
+  }
+}
@@ -0,0 +1,222 @@
+import type { GameState, PlayerId, Tile } from "./types"
+import { findTileById, hexDistance } from "./helpers"
+import { getSettlementInfluenceRadius } from "./rules"
+import { getArmyTileId } from "./armies"
+import { getHeroTileId } from "./heroes"
+import { eventInvolvesPlayer } from "./events"
+
+// Fog of war. The host keeps the full GameState and sends every client a
+// projection of it: tiles the player can see right now, tiles they have
+// explored before (terrain only) and nothing at all about the rest. Rivals'
+// stockpiles, role splits and cooldowns are blanked out everywhere, and so
+// are the routes and targets of their armies and heroes. The fog only
+// covers a RUNNING match; the lobby map is open and it lifts again once the
+// age ends.
+
+// Tiles in sight of the player's settlements, armies and heroes
+export function getVisibleTileIds(
+  state: GameState,
+  playerId: PlayerId,
+): Set<string> {
+  const eyes: { tile: Tile; range: number }[] = []
+
+  for (const settlement of state.settlements) {
+    if (settlement.owner !== playerId) continue
+    const tile = findTileById(state, settlement.tileId)
+    if (!tile) continue
+    eyes.push({
+      tile,
+      range:
+        getSettlementInfluenceRadius(state.rules, settlement) +
+        state.rules.visionBonus,
+    })
+  }
+
+  for (const army of state.armies ?? []) {
+    if (army.owner !== playerId) continue
+    const tile = findTileById(state, getArmyTileId(army, state.currentTimeMs))
+    if (tile) eyes.push({ tile, range: state.rules.armyVisionRange })
+  }
+
+  for (const hero of state.heroes ?? []) {
+    if (hero.owner !== playerId) continue
+    const tile = findTileById(state, getHeroTileId(hero, state.currentTimeMs))
+    if (tile) eyes.push({ tile, range: state.rules.armyVisionRange })
+  }
+
+  const visible = new Set<string>()
+  for (const tile of state.tiles) {
+    if (eyes.some((eye) => hexDistance(eye.tile.coord, tile.coord) <= eye.range)) {
+      visible.add(tile.id)
+    }
+  }
+  return visible
+}
+
+/**
+ * Run during TICK: add whatever each player sees now to the tiles they have
+ * explored.
+ */
+export function recordExploration(state: GameState): GameState {
+  const explored = { ...(state.exploredTileIds ?? {}) }
+
+  for (const player of state.players) {
+    const known = new Set(explored[player.id] ?? [])
+    const before = known.size
+    for (const tileId of getVisibleTileIds(state, player.id)) {
+      known.add(tileId)
+    }
+    if (known.size !== before) explored[player.id] = [...known]
+  }
+
+  state.exploredTileIds = explored
+  return state
+}
+
+/**
+ * The part of the state a player is allowed to know about. The result is a
+ * fresh object safe to send over the wire; state itself is not modified.
+ */
+export function projectGameState(
+  state: GameState,
+  playerId: PlayerId,
+): GameState {
+  if (state.phase === "GAME_OVER") return state
+
+  const fogged = state.phase === "RUNNING"
+  const visible = getVisibleTileIds(state, playerId)
+  const explored = new Set(state.exploredTileIds?.[playerId] ?? [])
+  const canSee = (tileId: string) => !fogged || visible.has(tileId)
+
+  const tiles = state.tiles.map((tile): Tile => {
+    if (canSee(tile.id)) return { ...tile, visibility: "VISIBLE" }
+    if (explored.has(tile.id)) {
+      return {
+        id: tile.id,
+        coord: tile.coord,
+        terrain: tile.terrain,
+        visibility: "REMEMBERED",
+      }
+    }
+    return {
+      id: tile.id,
+      coord: tile.coord,
+      terrain: "Field",
+      visibility: "UNEXPLORED",
+    }
+  })
+
+  const settlements = state.settlements
+    .filter((s) => s.owner === playerId || canSee(s.tileId))
+    .map((s) =>
+      s.owner === playerId
+        ? s
+        : {
+            ...s,
+            workers: 0,
+            worshippers: 0,
+            // Barbarians show off their warriors, which also prices a
+            // camp for ANNEX_CAMP
+            defenders: s.camp ? s.defenders : 0,
+            growthProgress: 0,
+            morale: 0,
+            unrestSinceMs: undefined,
+            faithDominatedSinceMs: undefined,
+            apostasyProgress: undefined,
+            isStarving: undefined,
+            mercenaries: undefined,
+            roleMode: undefined,
+            manualRoles: undefined,
+            concealed: true,
+          },
+    )
+  const shownSettlementIds = new Set(settlements.map((s) => s.id))
+  const ownSettlementIds = new Set(
+    state.settlements.filter((s) => s.owner === playerId).map((s) => s.id),
+  )
+
+  const players = state.players.map((p) =>
+    p.id === playerId
+      ? p
+      : {
+          ...p,
+          resources: { Food: 0, Wood: 0, Stone: 0, Gold: 0, Belief: 0 },
+          belief: 0,
+          // The peak is the stockpile itself for most of a match
+          maxBeliefEver: 0,
+          policy: {
+            ...p.policy,
+            workersPercent: 0,
+            worshippersPercent: 0,
+            defendersPercent: 0,
+          },
+          powerCooldowns: undefined,
+          isStarving: undefined,
+          unpaidWages: undefined,
+          fullStores: undefined,
+          concealed: true,
+        },
+  )
+
+  return {
+    ...state,
+    tiles,
+    settlements,
+    players,
+    buffs: (state.buffs ?? []).filter((b) =>
+      shownSettlementIds.has(b.settlementId),
+    ),
+    // Rivals' armies show where they stand and how many march; a defender
+    // also learns which of their settlements is the target and when the
+    // army arrives, as ARMY_DISPATCHED already told them
+    armies: (state.armies ?? [])
+      .filter(
+        (a) =>
+          a.owner === playerId ||
+          canSee(getArmyTileId(a, state.currentTimeMs)),
+      )
+      .map((a) => {
+        if (a.owner === playerId) return a
+        const tileId = getArmyTileId(a, state.currentTimeMs)
+        const aimedAtViewer = ownSettlementIds.has(a.targetSettlementId)
+        return {
+          ...a,
+          fromSettlementId: "",
+          targetSettlementId: aimedAtViewer ? a.targetSettlementId : "",
+          intent: "PLUNDER" as const,
+          strength: 1,
+          path: [tileId],
+          stepTimesMs: [0],
+          arrivesAtMs: aimedAtViewer ? a.arrivesAtMs : 0,
+          concealed: true,
+        }
+      }),
+    // Rivals' heroes show where they stand, not where they are headed
+    heroes: (state.heroes ?? [])
+      .filter(
+        (h) =>
+          h.owner === playerId || canSee(getHeroTileId(h, state.currentTimeMs)),
+      )
+      .map((h) =>
+        h.owner === playerId
+          ? h
+          : {
+              ...h,
+              tileId: getHeroTileId(h, state.currentTimeMs),
+              path: undefined,
+              stepTimesMs: undefined,
+              abilityCooldowns: undefined,
+            },
+      ),
+    offers: (state.offers ?? []).filter(
+      (o) => o.from === playerId || o.to === playerId,
+    ),
+    worldEvents: (state.worldEvents ?? []).filter(
+      (e) => e.playerId === playerId,
+    ),
+    events: (state.events ?? []).filter((e) => eventInvolvesPlayer(e, playerId)),
+    exploredTileIds: { [playerId]: state.exploredTileIds?.[playerId] ?? [] },
+    // Without the seed nobody can regenerate the map or predict rolls
+    rng: { seed: 0, cursor: state.rng.cursor },
+  }
+}
@@ -0,0 +1,236 @@
+import type {
+  GameRules,
+  GameState,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+  WonderProject,
+  WonderType,
+} from "./types"
+import { findSettlementById, subtractResources } from "./helpers"
+import { recordEvent } from "./events"
+import { nextId } from "./rng"
+import { getMoraleYieldFactor } from "./morale"
+
+// Wonders are the late-game objective. A settlement of high enough level
+// raises one stage by stage: its owner contributes each stage's materials
+// and its worshippers put in the labour. Raids set a stage back. A finished
+// wonder grants victory points, or wins the match outright when the host
+// enabled the WONDER victory. Each wonder can stand only once in the world;
+// when one is finished every rival project of the same kind is abandoned.
+
+export const WONDER_LABELS: Record<WonderType, string> = {
+  GRAND_TEMPLE: "Grand Temple",
+  SKY_ZIGGURAT: "Sky Ziggurat",
+}
+
+export const WONDER_TYPES = Object.keys(WONDER_LABELS) as WonderType[]
+
+export function isWonderComplete(rules: GameRules, wonder: WonderProject): boolean {
+  return wonder.stage >= rules.wonders.definitions[wonder.type].stages.length
+}
+
+// Whether anyone has finished a wonder of this kind
+export function isWonderClaimed(state: GameState, type: WonderType): boolean {
+  return (state.wonders ?? []).some(
+    (w) => w.type === type && w.completedAtMs !== undefined,
+  )
+}
+
+// Materials the current stage still needs
+export function getWonderStageShortfall(
+  rules: GameRules,
+  wonder: WonderProject,
+): ResourceCost {
+  const stage = rules.wonders.definitions[wonder.type].stages[wonder.stage]
+  const shortfall: ResourceCost = {}
+  if (!stage) return shortfall
+
+  ;(Object.keys(stage.cost) as ResourceType[]).forEach((res) => {
+    const missing = (stage.cost[res] ?? 0) - (wonder.contributed[res] ?? 0)
+    if (missing > 0) shortfall[res] = missing
+  })
+  return shortfall
+}
+
+// 0–1 over the whole wonder; materials and labour weigh equally in a stage
+export function getWonderProgress(rules: GameRules, wonder: WonderProject): number {
+  const stages = rules.wonders.definitions[wonder.type].stages
+  if (wonder.stage >= stages.length) return 1
+
+  const stage = stages[wonder.stage]
+  const needed = Object.values(stage.cost).reduce((sum, n) => sum + (n ?? 0), 0)
+  const missing = Object.values(getWonderStageShortfall(rules, wonder)).reduce(
+    (sum, n) => sum + (n ?? 0),
+    0,
+  )
+  const materials = needed > 0 ? 1 - missing / needed : 1
+  const labor = stage.labor > 0 ? Math.min(1, wonder.labor / stage.labor) : 1
+
+  return (wonder.stage + (materials + labor) / 2) / stages.length
+}
+
+/**
+ * Lay the foundations of a wonder.
+ */
+export function startWonder(
+  state: GameState,
+  settlementId: string,
+  type: WonderType,
+): void {
+  const settlement = findSettlementById(state, settlementId)
+  if (!settlement) return
+
+  const wonder: WonderProject = {
+    id: nextId(state),
+    type,
+    settlementId,
+    owner: settlement.owner,
+    stage: 0,
+    contributed: {},
+    labor: 0,
+  }
+  state.wonders = [...(state.wonders ?? []), wonder]
+
+  recordEvent(state, {
+    type: "WONDER_STARTED",
+    wonderId: wonder.id,
+    wonder: type,
+    settlementId,
+    owner: settlement.owner,
+    stage: 0,
+  })
+}
+
+/**
+ * Move materials from the owner's stockpile into the current stage.
+ */
+export function contributeToWonder(
+  state: GameState,
+  wonderId: string,
+  resources: ResourceCost,
+): void {
+  const wonder = (state.wonders ?? []).find((w) => w.id === wonderId)
+  if (!wonder) return
+
+  const contributed = { ...wonder.contributed }
+  ;(Object.keys(resources) as ResourceType[]).forEach((res) => {
+    contributed[res] = (contributed[res] ?? 0) + (resources[res] ?? 0)
+  })
+
+  state.players = state.players.map((p) =>
+    p.id === wonder.owner
+      ? { ...p, resources: subtractResources(p.resources, resources) }
+      : p,
+  )
+  state.wonders = state.wonders.map((w) =>
+    w.id === wonderId ? { ...w, contributed } : w,
+  )
+}
+
+/**
+ * A successful raid wrecks part of the stage being built.
+ */
+export function sabotageWonder(
+  state: GameState,
+  settlementId: string,
+  attackerId: PlayerId,
+): void {
+  const wonder = (state.wonders ?? []).find(
+    (w) => w.settlementId === settlementId && w.completedAtMs === undefined,
+  )
+  if (!wonder) return
+
+  const kept = 1 - state.rules.wonders.raidSabotage
+  const contributed: ResourceCost = {}
+  ;(Object.keys(wonder.contributed) as ResourceType[]).forEach((res) => {
+    contributed[res] = Math.floor((wonder.contributed[res] ?? 0) * kept)
+  })
+
+  state.wonders = state.wonders.map((w) =>
+    w.id === wonder.id ? { ...w, contributed, labor: w.labor * kept } : w,
+  )
+
+  recordEvent(state, {
+    type: "WONDER_SABOTAGED",
+    wonderId: wonder.id,
+    wonder: wonder.type,
+    settlementId,
+    owner: wonder.owner,
+    attackerId,
+  })
+}
+
+/**
+ * Run during TICK: worshippers work on their settlement's wonder and every
+ * stage whose materials and labour are both in is finished.
+ */
+export function advanceWonders(state: GameState, seconds: number): GameState {
+  const rules = state.rules
+  const finished: WonderProject[] = []
+
+  state.wonders = (state.wonders ?? []).map((wonder) => {
+    if (wonder.completedAtMs !== undefined) return wonder
+    const settlement = findSettlementById(state, wonder.settlementId)
+    if (!settlement) return wonder
+
+    const stages = rules.wonders.definitions[wonder.type].stages
+    const stage = stages[wonder.stage]
+    const labor = Math.min(
+      stage.labor,
+      wonder.labor +
+        settlement.worshippers *
+          rules.wonders.laborPerWorshipperPerSecond *
+          getMoraleYieldFactor(rules, settlement.morale) *
+          seconds,
+    )
+
+    const materialsIn =
+      Object.keys(getWonderStageShortfall(rules, wonder)).length === 0
+    if (!materialsIn || labor < stage.labor) return { ...wonder, labor }
+
+    const next: WonderProject = {
+      ...wonder,
+      stage: wonder.stage + 1,
+      contributed: {},
+      labor: 0,
+    }
+    const complete = isWonderComplete(rules, next)
+    // A rival finished the same wonder a moment ago
+    if (complete && finished.some((w) => w.type === wonder.type)) {
+      return { ...wonder, labor }
+    }
+
+    recordEvent(state, {
+      type: complete ? "WONDER_COMPLETED" : "WONDER_STAGE_COMPLETED",
+      wonderId: wonder.id,
+      wonder: wonder.type,
+      settlementId: wonder.settlementId,
+      owner: wonder.owner,
+      stage: next.stage,
+    })
+    if (!complete) return next
+
+    finished.push(next)
+    return { ...next, completedAtMs: state.currentTimeMs }
+  })
+
+  for (const wonder of finished) {
+    // Whatever went into a rival's copy is lost
+    state.wonders = state.wonders.filter(
+      (w) => w.type !== wonder.type || w.id === wonder.id,
+    )
+
+    // With the WONDER victory enabled the victory check ends the match
+    if (!state.victoryConditions.enabled.includes("WONDER")) {
+      const points = rules.wonders.definitions[wonder.type].victoryPoints
+      state.players = state.players.map((p) =>
+        p.id === wonder.owner
+          ? { ...p, victoryPoints: p.victoryPoints + points }
+          : p,
+      )
+    }
+  }
+
+  return state
+}
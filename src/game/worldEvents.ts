@@ -0,0 +1,429 @@
+import type {
+  GameEvent,
+  GameState,
+  PendingWorldEvent,
+  PlayerId,
+  ResourceCost,
+  ResourceType,
+  Settlement,
+  WorldEventChoice,
+  WorldEventFrequency,
+  WorldEventType,
+} from "./types"
+import {
+  emptyResourceRecord,
+  findSettlementById,
+  hexDistance,
+  subtractResources,
+} from "./helpers"
+import { recordEvent } from "./events"
+import { fightBattle, getGarrison, withGarrisonLosses } from "./armies"
+import { getDefenseMultiplier } from "./market"
+import { nextId, nextRandom, pickRandom } from "./rng"
+
+// World events: every so often the world itself rolls something from the
+// weighted table in rules.worldEvents. Wildfires and outbreaks just happen;
+// pilgrims, relics and bandits ask the affected player to choose, and the
+// default choice is taken for them if they let the time run out.
+
+export const WORLD_EVENT_LABELS: Record<WorldEventType, string> = {
+  PILGRIMS: "Pilgrims",
+  WILDFIRE: "Wildfire",
+  BANDITS: "Bandits",
+  RELIC: "Relic",
+  OUTBREAK: "Outbreak",
+}
+
+export const WORLD_EVENT_CHOICE_LABELS: Record<WorldEventChoice, string> = {
+  WELCOME: "Welcome them",
+  TURN_AWAY: "Turn them away",
+  ENSHRINE: "Enshrine it",
+  SELL: "Sell it",
+  PAY: "Pay them off",
+  FIGHT: "Fight",
+}
+
+export const WORLD_EVENT_FREQUENCY_SCALE: Record<WorldEventFrequency, number> = {
+  off: 0,
+  rare: 0.5,
+  normal: 1,
+  frequent: 2,
+}
+
+const EVENT_CHOICES: Partial<
+  Record<WorldEventType, { choices: WorldEventChoice[]; defaultChoice: WorldEventChoice }>
+> = {
+  PILGRIMS: { choices: ["WELCOME", "TURN_AWAY"], defaultChoice: "TURN_AWAY" },
+  RELIC: { choices: ["ENSHRINE", "SELL"], defaultChoice: "ENSHRINE" },
+  BANDITS: { choices: ["PAY", "FIGHT"], defaultChoice: "FIGHT" },
+}
+
+// Food demanded per bandit to leave peacefully
+const BANDIT_TRIBUTE_PER_HEAD = 10
+
+// What a choice costs the player up front
+export function getWorldEventChoiceCost(
+  state: GameState,
+  event: PendingWorldEvent,
+  choice: WorldEventChoice,
+): ResourceCost {
+  const { magnitude } = state.rules.worldEvents.events[event.type]
+  if (choice === "WELCOME") return { Food: magnitude }
+  if (choice === "PAY") return { Food: magnitude * BANDIT_TRIBUTE_PER_HEAD }
+  return {}
+}
+
+// Short outcome summary for panels, e.g. "+30 Belief"
+export function describeWorldEventChoice(
+  state: GameState,
+  event: PendingWorldEvent,
+  choice: WorldEventChoice,
+): string {
+  const { magnitude } = state.rules.worldEvents.events[event.type]
+  switch (choice) {
+    case "WELCOME":
+      return `+${magnitude} Belief`
+    case "TURN_AWAY":
+      return "nothing happens"
+    case "ENSHRINE":
+      return "+1 victory point"
+    case "SELL":
+      return `+${magnitude} Gold`
+    case "PAY":
+      return "the bandits leave"
+    case "FIGHT":
+      return `your defenders face ${magnitude} bandits`
+  }
+}
+
+// Bandits go for the settlement with the weakest defence
+function findWeakestSettlement(state: GameState): Settlement | undefined {
+  const defence = (s: Settlement) =>
+    getGarrison(s) * getDefenseMultiplier(state, s)
+  return [...state.settlements].sort((a, b) => defence(a) - defence(b))[0]
+}
+
+function rollEventType(state: GameState): WorldEventType {
+  const { events } = state.rules.worldEvents
+  const types = Object.keys(events) as WorldEventType[]
+  const total = types.reduce((sum, t) => sum + events[t].weight, 0)
+
+  let roll = nextRandom(state) * total
+  for (const type of types) {
+    roll -= events[type].weight
+    if (roll < 0) return type
+  }
+  return types[types.length - 1]
+}
+
+// Forests within radius of a burning Forest tile turn to Field
+function startWildfire(state: GameState): void {
+  const forests = state.tiles.filter((t) => t.terrain === "Forest")
+  if (forests.length === 0) return
+
+  const origin = pickRandom(state, forests)
+  const { magnitude } = state.rules.worldEvents.events.WILDFIRE
+  state.tiles = state.tiles.map((t) =>
+    t.terrain === "Forest" && hexDistance(t.coord, origin.coord) <= magnitude
+      ? { ...t, terrain: "Field" }
+      : t,
+  )
+
+  recordEvent(state, {
+    type: "WORLD_EVENT",
+    worldEventId: nextId(state),
+    event: "WILDFIRE",
+    playerId: origin.controller ?? undefined,
+    tileId: origin.id,
+  })
+}
+
+// Plague takes hold in a settlement as if a rival had cast it
+function startOutbreak(state: GameState): void {
+  if (state.settlements.length === 0) return
+
+  const settlement = pickRandom(state, state.settlements)
+  const { magnitude } = state.rules.worldEvents.events.OUTBREAK
+  state.buffs = [
+    ...(state.buffs ?? []),
+    {
+      id: nextId(state),
+      settlementId: settlement.id,
+      owner: settlement.owner,
+      casterId: settlement.owner, // nobody cast it
+      type: "PLAGUE",
+      expiresAtMs: state.currentTimeMs + magnitude * 1000,
+    },
+  ]
+
+  recordEvent(state, {
+    type: "WORLD_EVENT",
+    worldEventId: nextId(state),
+    event: "OUTBREAK",
+    playerId: settlement.owner,
+    settlementId: settlement.id,
+  })
+}
+
+function askPlayer(
+  state: GameState,
+  type: WorldEventType,
+  settlement: Settlement | undefined,
+): void {
+  const options = EVENT_CHOICES[type]
+  if (!settlement || !options) return
+
+  const event: PendingWorldEvent = {
+    id: nextId(state),
+    type,
+    playerId: settlement.owner,
+    settlementId: settlement.id,
+    choices: options.choices,
+    defaultChoice: options.defaultChoice,
+    expiresAtMs: state.currentTimeMs + state.rules.worldEvents.choiceTimeoutMs,
+  }
+  state.worldEvents = [...(state.worldEvents ?? []), event]
+
+  recordEvent(state, {
+    type: "WORLD_EVENT",
+    worldEventId: event.id,
+    event: type,
+    playerId: event.playerId,
+    settlementId: event.settlementId,
+  })
+}
+
+/**
+ * Run during TICK: maybe roll a new world event for the elapsed seconds.
+ * Advances state.rng.
+ */
+export function rollWorldEvents(state: GameState, seconds: number): GameState {
+  const { chancePerSecond } = state.rules.worldEvents
+  if (chancePerSecond <= 0 || state.settlements.length === 0) return state
+
+  const chance = 1 - Math.pow(1 - chancePerSecond, seconds)
+  if (nextRandom(state) >= chance) return state
+
+  const type = rollEventType(state)
+  switch (type) {
+    case "WILDFIRE":
+      startWildfire(state)
+      break
+    case "OUTBREAK":
+      startOutbreak(state)
+      break
+    case "BANDITS":
+      askPlayer(state, type, findWeakestSettlement(state))
+      break
+    case "PILGRIMS":
+    case "RELIC":
+      askPlayer(state, type, pickRandom(state, state.settlements))
+      break
+  }
+
+  return state
+}
+
+function adjustResources(
+  state: GameState,
+  playerId: PlayerId,
+  gained: ResourceCost,
+  paid: ResourceCost = {},
+): void {
+  state.players = state.players.map((p) => {
+    if (p.id !== playerId) return p
+    const newResources = subtractResources(p.resources, paid)
+    ;(Object.keys(gained) as ResourceType[]).forEach((res) => {
+      newResources[res] = (newResources[res] ?? 0) + (gained[res] ?? 0)
+    })
+    const newBelief = newResources.Belief ?? 0
+    return {
+      ...p,
+      resources: newResources,
+      belief: newBelief,
+      maxBeliefEver: Math.max(p.maxBeliefEver, newBelief),
+    }
+  })
+}
+
+// Returns whether the bandits won
+function fightBandits(state: GameState, event: PendingWorldEvent): boolean {
+  const settlement = findSettlementById(state, event.settlementId)
+  if (!settlement) return false
+
+  const { magnitude } = state.rules.worldEvents.events.BANDITS
+  const battle = fightBattle(
+    magnitude,
+    1,
+    getGarrison(settlement),
+    getDefenseMultiplier(state, settlement),
+  )
+
+  state.settlements = state.settlements.map((s) =>
+    s.id === settlement.id
+      ? {
+          ...withGarrisonLosses(s, battle.defenderLosses),
+          lastRaidedAtMs: state.currentTimeMs,
+        }
+      : s,
+  )
+
+  if (battle.attackerWon) {
+    const player = state.players.find((p) => p.id === event.playerId)
+    const loot = emptyResourceRecord()
+    ;(Object.keys(loot) as ResourceType[]).forEach((res) => {
+      loot[res] = Math.floor(
+        (player?.resources[res] ?? 0) * state.rules.lootFactor,
+      )
+    })
+    adjustResources(state, event.playerId, {}, loot)
+  }
+
+  return battle.attackerWon
+}
+
+/**
+ * Carry out a player's answer to a pending world event.
+ */
+export function resolveWorldEvent(
+  state: GameState,
+  eventId: string,
+  choice: WorldEventChoice,
+  timedOut = false,
+): void {
+  const event = (state.worldEvents ?? []).find((e) => e.id === eventId)
+  if (!event) return
+  state.worldEvents = state.worldEvents.filter((e) => e.id !== eventId)
+
+  const { magnitude } = state.rules.worldEvents.events[event.type]
+  const cost = getWorldEventChoiceCost(state, event, choice)
+  let banditsWon: boolean | undefined
+
+  switch (choice) {
+    case "WELCOME":
+      adjustResources(state, event.playerId, { Belief: magnitude }, cost)
+      break
+    case "SELL":
+      adjustResources(state, event.playerId, { Gold: magnitude })
+      break
+    case "ENSHRINE":
+      state.players = state.players.map((p) =>
+        p.id === event.playerId
+          ? { ...p, victoryPoints: p.victoryPoints + 1 }
+          : p,
+      )
+      break
+    case "PAY":
+      adjustResources(state, event.playerId, {}, cost)
+      break
+    case "FIGHT":
+      banditsWon = fightBandits(state, event)
+      break
+    case "TURN_AWAY":
+      break
+  }
+
+  recordEvent(state, {
+    type: "WORLD_EVENT_RESOLVED",
+    worldEventId: event.id,
+    event: event.type,
+    playerId: event.playerId,
+    settlementId: event.settlementId,
+    choice,
+    timedOut,
+    banditsWon,
+  })
+}
+
+/**
+ * Run during TICK: drop events whose settlement has changed hands and take
+ * the default choice for the ones nobody answered in time.
+ */
+export function expireWorldEvents(state: GameState): GameState {
+  state.worldEvents = (state.worldEvents ?? []).filter(
+    (e) => findSettlementById(state, e.settlementId)?.owner === e.playerId,
+  )
+
+  const overdue = state.worldEvents.filter(
+    (e) => e.expiresAtMs <= state.currentTimeMs,
+  )
+  for (const event of overdue) {
+    resolveWorldEvent(state, event.id, event.defaultChoice, true)
+  }
+
+  return state
+}
+
+// What an NPC answers: profit where it can, fight only when it should win
+export function chooseNpcWorldEventChoice(
+  state: GameState,
+  event: PendingWorldEvent,
+): WorldEventChoice {
+  const player = state.players.find((p) => p.id === event.playerId)
+  // Only pay with twice the cost in the stockpile
+  const canPay = (choice: WorldEventChoice) => {
+    const cost = getWorldEventChoiceCost(state, event, choice)
+    return (Object.keys(cost) as ResourceType[]).every(
+      (res) => (player?.resources[res] ?? 0) >= (cost[res] ?? 0) * 2,
+    )
+  }
+
+  switch (event.type) {
+    case "PILGRIMS":
+      return canPay("WELCOME") ? "WELCOME" : "TURN_AWAY"
+    case "RELIC":
+      return "ENSHRINE"
+    case "BANDITS": {
+      const settlement = findSettlementById(state, event.settlementId)
+      const defence = settlement
+        ? getGarrison(settlement) * getDefenseMultiplier(state, settlement)
+        : 0
+      const bandits = state.rules.worldEvents.events.BANDITS.magnitude
+      return defence >= bandits || !canPay("PAY") ? "FIGHT" : "PAY"
+    }
+    default:
+      return event.defaultChoice
+  }
+}
+
+export function describeWorldEvent(
+  event: Extract<GameEvent, { type: "WORLD_EVENT" }>,
+  name: (playerId: PlayerId) => string,
+): string {
+  const whose = event.playerId ? `${name(event.playerId)}'s ` : ""
+  switch (event.event) {
+    case "PILGRIMS":
+      return `Pilgrims seek shelter in ${whose}${event.settlementId}.`
+    case "WILDFIRE":
+      return `Wildfire burns the forests around ${event.tileId}.`
+    case "BANDITS":
+      return `Bandits descend on ${whose}${event.settlementId}.`
+    case "RELIC":
+      return `A relic is unearthed near ${whose}${event.settlementId}.`
+    case "OUTBREAK":
+      return `Plague breaks out in ${whose}${event.settlementId}.`
+  }
+}
+
+export function describeWorldEventResolution(
+  event: Extract<GameEvent, { type: "WORLD_EVENT_RESOLVED" }>,
+  name: (playerId: PlayerId) => string,
+): string {
+  const who = name(event.playerId)
+  switch (event.choice) {
+    case "WELCOME":
+      return `${who} welcomed the pilgrims.`
+    case "TURN_AWAY":
+      return `${who} turned the pilgrims away.`
+    case "ENSHRINE":
+      return `${who} enshrined the relic.`
+    case "SELL":
+      return `${who} sold the relic.`
+    case "PAY":
+      return `${who} paid the bandits to leave ${event.settlementId}.`
+    case "FIGHT":
+      return event.banditsWon
+        ? `Bandits overran ${event.settlementId} and looted ${who}'s stores.`
+        : `${who}'s defenders drove the bandits from ${event.settlementId}.`
+  }
+}
@@ -1,8 +1,33 @@
+import type { ActionRejection, GameState, PlayerId } from "../game/types"
+
 export type WsMessage =
+  // server -> client: that client's projected view of the game
   | { type: "state"; roomId: string; state: any }
-  | { type: "action"; roomId: string; action: any }
-  | { type: "join"; roomId: string; playerName: string; clientId?: string }
-  | { type: "host-init"; roomId: string; state: any }
+  // host -> server: one projected view per seated player
+  | { type: "views"; roomId: string; views: Record<PlayerId, GameState> }
+  | { type: "action"; roomId: string; action: any; clientId?: string }
+  // host -> server -> the client whose action was refused
+  | {
+      type: "rejection"
+      roomId: string
+      clientId?: string
+      rejection: ActionRejection
+    }
+  | {
+      type: "join"
+      roomId: string
+      playerName: string
+      playerId?: PlayerId // server -> host: the seat the joiner was given
+      clientId?: string
+    }
+  // server -> joiner: the seat the server gave it
+  | { type: "seat"; roomId: string; playerId: PlayerId }
+  | {
+      type: "host-init"
+      roomId: string
+      playerId: PlayerId
+      views: Record<PlayerId, GameState>
+    }
   | { type: "error"; message: string }
   | { type: string; [key: string]: any }
 
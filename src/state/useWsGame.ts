@@ -1,10 +1,19 @@
-import { useCallback, useEffect, useState } from "react"
-import type { AnyPlayerAction, GameState, PlayerId } from "../game/types"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type {
+  ActionRejection,
+  AnyPlayerAction,
+  GameSetupOptions,
+  GameState,
+  PlayerId,
+} from "../game/types"
 import {
+  applyAction,
   computeNpcActions,
   createInitialGameState,
   reduceGameState,
 } from "../game/simulation"
+import { computeBarbarianActions } from "../game/barbarians"
+import { projectGameState } from "../game/visibility"
 import { WsClient } from "../net/wsClient"
 import type { WsMessage } from "../net/wsClient"
 
@@ -15,7 +24,9 @@ export interface UseWsGameResult {
   isHost: boolean
   loading: boolean
   error: string | null
-  hostNewGame: (playerName: string) => void
+  // Most recent refused action of the local player; clears itself
+  rejection: ActionRejection | null
+  hostNewGame: (playerName: string, setup?: GameSetupOptions) => void
   joinGame: (roomId: string, playerName: string) => void
   dispatchActionForLocalPlayer: (
     partial: Omit<AnyPlayerAction, "id" | "playerId">,
@@ -23,6 +34,8 @@ export interface UseWsGameResult {
   disconnect: () => void
 }
 
+const REJECTION_DISPLAY_MS = 4000
+
 function generateRoomCode(length = 6): string {
   const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
   let code = ""
@@ -32,6 +45,15 @@ function generateRoomCode(length = 6): string {
   return code
 }
 
+// What the host sends out: each human player only gets their own view
+function projectForPlayers(state: GameState): Record<PlayerId, GameState> {
+  return Object.fromEntries(
+    state.players
+      .filter((p) => !p.isNpc)
+      .map((p) => [p.id, projectGameState(state, p.id)]),
+  )
+}
+
 export function useWsGame(): UseWsGameResult {
   const [game, setGame] = useState<GameState | null>(null)
   const [roomId, setRoomId] = useState<string | null>(null)
@@ -39,6 +61,7 @@ export function useWsGame(): UseWsGameResult {
   const [isHost, setIsHost] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [rejection, setRejection] = useState<ActionRejection | null>(null)
 
   const [wsClient] = useState(() => new WsClient())
 
@@ -48,6 +71,12 @@ export function useWsGame(): UseWsGameResult {
     }
   }, [wsClient])
 
+  useEffect(() => {
+    if (!rejection) return
+    const timeout = setTimeout(() => setRejection(null), REJECTION_DISPLAY_MS)
+    return () => clearTimeout(timeout)
+  }, [rejection])
+
   // Host-only: run a periodic TICK to advance simulation and generate resources/belief
   useEffect(() => {
     if (!isHost || !roomId || !localPlayerId) return
@@ -77,12 +106,15 @@ export function useWsGame(): UseWsGameResult {
         for (const action of npcActions) {
           stateAfterTick = reduceGameState(stateAfterTick, action)
         }
+        for (const action of computeBarbarianActions(stateAfterTick)) {
+          stateAfterTick = reduceGameState(stateAfterTick, action)
+        }
 
-        // Broadcast authoritative state to all clients
+        // Broadcast each client's view of the authoritative state
         wsClient.send({
-          type: "state",
+          type: "views",
           roomId,
-          state: stateAfterTick,
+          views: projectForPlayers(stateAfterTick),
         })
 
         return stateAfterTick
@@ -100,6 +132,8 @@ export function useWsGame(): UseWsGameResult {
 
       switch (msg.type) {
         case "state": {
+          // The host holds the full state; views are for everyone else
+          if (isHost) return
           const nextState = msg.state as GameState
           setGame(nextState)
           if (!roomId && msg.roomId) {
@@ -110,16 +144,39 @@ export function useWsGame(): UseWsGameResult {
         case "action": {
           if (!isHost || !game || !roomId || !localPlayerId) return
           const action = msg.action as AnyPlayerAction
-          const nextState = reduceGameState(game, action)
+          // Game time only moves on the host's own TICKs
+          if (action.type === "TICK") return
+          const result = applyAction(game, action)
+
+          if (result.rejection) {
+            wsClient.send({
+              type: "rejection",
+              roomId,
+              clientId: msg.clientId,
+              rejection: result.rejection,
+            })
+            return
+          }
+
+          const nextState = result.state
           setGame(nextState)
 
           wsClient.send({
-            type: "state",
+            type: "views",
             roomId,
-            state: nextState,
+            views: projectForPlayers(nextState),
           })
           break
         }
+        case "seat": {
+          if (isHost) return
+          setLocalPlayerId(msg.playerId as PlayerId)
+          break
+        }
+        case "rejection": {
+          setRejection(msg.rejection as ActionRejection)
+          break
+        }
         case "join": {
           break
         }
@@ -145,13 +202,13 @@ export function useWsGame(): UseWsGameResult {
   }, [handleWsMessage, wsClient])
 
   const hostNewGame = useCallback(
-    (playerName: string) => {
+    (playerName: string, setup?: GameSetupOptions) => {
       setLoading(true)
       setError(null)
       const newRoomId = generateRoomCode()
 
       const localGameId = `room-${newRoomId}`
-      const baseState = createInitialGameState(localGameId)
+      const baseState = createInitialGameState(localGameId, setup)
 
       const players = baseState.players.map((p) =>
         p.id === "PLAYER_1" ? { ...p, name: playerName } : p,
@@ -172,7 +229,8 @@ export function useWsGame(): UseWsGameResult {
         wsClient.send({
           type: "host-init",
           roomId: newRoomId,
-          state: initialState,
+          playerId: "PLAYER_1",
+          views: projectForPlayers(initialState),
         })
         setLoading(false)
       }, 200)
@@ -187,8 +245,9 @@ export function useWsGame(): UseWsGameResult {
       setLoading(true)
       setError(null)
 
+      // The server picks our seat and tells us with a "seat" message
       setIsHost(false)
-      setLocalPlayerId("PLAYER_2")
+      setLocalPlayerId(null)
       setRoomId(trimmed)
 
       ensureConnection()
@@ -217,12 +276,17 @@ export function useWsGame(): UseWsGameResult {
 
       if (isHost) {
         if (!game) return
-        const nextState = reduceGameState(game, action)
+        const result = applyAction(game, action)
+        if (result.rejection) {
+          setRejection(result.rejection)
+          return
+        }
+        const nextState = result.state
         setGame(nextState)
         wsClient.send({
-          type: "state",
+          type: "views",
           roomId,
-          state: nextState,
+          views: projectForPlayers(nextState),
         })
       } else {
         wsClient.send({
@@ -243,13 +307,24 @@ export function useWsGame(): UseWsGameResult {
     setIsHost(false)
   }, [wsClient])
 
+  // The host simulates the full state but plays under the same fog as
+  // everyone else
+  const view = useMemo(
+    () =>
+      game && isHost && localPlayerId
+        ? projectGameState(game, localPlayerId)
+        : game,
+    [game, isHost, localPlayerId],
+  )
+
   return {
-    game,
+    game: view,
     roomId,
     localPlayerId,
     isHost,
     loading,
     error,
+    rejection,
     hostNewGame,
     joinGame,
     dispatchActionForLocalPlayer,